@@ -58,14 +58,33 @@ async function main() {
     metafile: !!metafilePath,
   });
 
+  // Headless CLI sharing the same core (no vscode dependency)
+  const cliCtx = await esbuild.context({
+    entryPoints: ['src/cli.ts'],
+    bundle: true,
+    format: 'cjs',
+    minify: production,
+    sourcemap: !production,
+    sourcesContent: false,
+    platform: 'node',
+    outfile: 'dist/cli.js',
+    external: ['@aws-sdk/client-s3'],
+    banner: { js: '#!/usr/bin/env node' },
+    logLevel: 'silent',
+    plugins: [esbuildProblemMatcherPlugin],
+    target: 'node16',
+  });
+
   if (watch) {
-    await ctx.watch();
+    await Promise.all([ctx.watch(), cliCtx.watch()]);
   } else {
     const result = await ctx.rebuild();
+    await cliCtx.rebuild();
     if (metafilePath) {
       saveMetafile(metafilePath, result);
     }
     await ctx.dispose();
+    await cliCtx.dispose();
   }
 }
 
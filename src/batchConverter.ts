@@ -0,0 +1,124 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { isJobActive, Job, JobContext, JobQueue, JobState } from './jobQueue';
+
+export const SUPPORTED_VIDEO_EXTENSIONS = ['.mp4', '.mov', '.avi', '.mkv', '.webm', '.flv', '.wmv', '.m4v', '.3gp', '.ogv'];
+
+export type BatchItemState = JobState;
+
+/** A batch file is a job of the queue */
+export type BatchItem = Job;
+
+export interface BatchSummary {
+  items: BatchItem[];
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  /** Source bytes minus output bytes over successful items */
+  bytesSaved: number;
+}
+
+/**
+ * Converts one item and resolves with the output size in bytes
+ */
+export type BatchWorker = (
+  item: BatchItem,
+  signal: AbortSignal,
+  onProgress: (percent: number, message?: string) => void,
+  context: JobContext
+) => Promise<number>;
+
+/**
+ * Expands files and folders into the sorted list of supported videos they contain. Each folder
+ * is read once, so symlinks that point back up the tree do not loop.
+ */
+export async function collectVideoFiles(paths: string[]): Promise<string[]> {
+  const found = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = async (target: string): Promise<void> => {
+    const stats = await fs.promises.stat(target);
+    if (stats.isDirectory()) {
+      const realPath = await fs.promises.realpath(target);
+      if (visited.has(realPath)) {return;}
+      visited.add(realPath);
+      const entries = await fs.promises.readdir(target);
+      for (const entry of entries) {
+        await visit(path.join(target, entry));
+      }
+    } else if (SUPPORTED_VIDEO_EXTENSIONS.includes(path.extname(target).toLowerCase())) {
+      found.add(target);
+    }
+  };
+
+  for (const target of paths) {
+    await visit(target);
+  }
+
+  return [...found].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Runs a set of conversions as one group of jobs: on the shared session queue when one is
+ * given, otherwise on a queue of its own with the given concurrency
+ */
+export class BatchConverter {
+  private readonly worker: BatchWorker;
+  private readonly queue: JobQueue;
+  private items: BatchItem[] = [];
+
+  constructor(worker: BatchWorker, queue: JobQueue | number) {
+    this.worker = worker;
+    this.queue = typeof queue === 'number' ? new JobQueue(queue) : queue;
+  }
+
+  public async run(
+    files: { inputPath: string; outputPath: string }[],
+    onUpdate: (items: BatchItem[]) => void
+  ): Promise<BatchSummary> {
+    const group = this.queue.createGroup();
+    const unsubscribe = this.queue.onDidChange(() => onUpdate(this.items));
+    try {
+      this.items = files.map(file => this.queue.add({
+        ...file,
+        label: path.basename(file.inputPath),
+        group,
+        run: (job, context) => this.worker(job, context.signal, context.progress, context)
+      }));
+      onUpdate(this.items);
+      await Promise.all(this.items.map(item => this.queue.wait(item)));
+    } finally {
+      unsubscribe();
+    }
+
+    return summarize(this.items);
+  }
+
+  /**
+   * Items that can still be cancelled
+   */
+  public getPending(): BatchItem[] {
+    return this.items.filter(isJobActive);
+  }
+
+  public cancel(item: BatchItem): void {
+    this.queue.cancel(item);
+  }
+
+  public cancelAll(): void {
+    for (const item of this.getPending()) {
+      this.cancel(item);
+    }
+  }
+}
+
+function summarize(items: BatchItem[]): BatchSummary {
+  const done = items.filter(item => item.state === 'done');
+  return {
+    items,
+    succeeded: done.length,
+    failed: items.filter(item => item.state === 'failed').length,
+    cancelled: items.filter(item => item.state === 'cancelled').length,
+    bytesSaved: done.reduce((sum, item) => sum + (item.inputSize - (item.outputSize ?? 0)), 0)
+  };
+}
@@ -0,0 +1,519 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+import { collectVideoFiles } from './batchConverter';
+import { ConversionPipeline, describeAttempt, formatMB } from './conversionPipeline';
+import { parseCrop } from './crop';
+import { FfmpegManager } from './ffmpegManager';
+import { collectSequenceFrames, getSequenceBasePath, isGlobPattern } from './imageSequence';
+import { OptimizationService } from './optimizationService';
+import { getFormatInfo, OUTPUT_FORMATS } from './outputFormats';
+import {
+  buildOutputPath,
+  COLLISION_POLICIES,
+  CollisionPolicy,
+  DEFAULT_OUTPUT_PATTERN,
+  formatTimestamp,
+  getOutputNaming,
+  getOutputTokens,
+  nextFreePath,
+  OutputNaming,
+  OutputTokens,
+  resolveCollision,
+  writeThroughPartial
+} from './outputPath';
+import { createFileSettingsPort, createNodeWorkspacePort, createStderrLogPort, createTerminalUiPort, loadConfigFile } from './platform/node';
+import { DITHER_ALGORITHMS, PALETTE_STATS_MODES } from './palette';
+import { MAX_SPEED, MIN_SPEED } from './playback';
+import { getDefaultOptions, normalizePreset, PresetStore } from './presets';
+import { isValidResolution, RESOLUTION_FORMAT_HINT } from './resolution';
+import { ConversionOptions, VideoMetadata } from './types';
+import { SettingsPort, UiPort } from './types/ports';
+import { VideoConverter } from './videoConverter';
+
+export const EXIT_OK = 0;
+export const EXIT_CONVERSION_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_FFMPEG_MISSING = 3;
+
+export const DEFAULT_CONFIG_FILE = '.magicvid2gif.json';
+
+const USAGE = `Usage: magicvid2gif <input...> [options]
+
+Converts videos (files or folders) to animated GIF, WebP, APNG or AVIF.
+With --frames, each input is a folder or quoted glob of numbered PNG/JPG/WebP images.
+
+Options:
+  -o, --output <path>      Output file (single input) or directory
+      --collision <policy> Existing output: ${COLLISION_POLICIES.join(', ')} (default: ask, skip when not interactive)
+      --fps <n>            Frames per second
+      --width <px>         Output width (height follows the aspect ratio)
+      --height <px>        Output height (width follows the aspect ratio)
+      --resolution <spec>  Output resolution: W:H, 800:-2, 50% or fit:W:H (no upscaling)
+      --start <s>          Start time in seconds
+      --duration <s>       Duration in seconds (0 = until the end)
+      --speed <x>          Playback speed (${MIN_SPEED}-${MAX_SPEED})
+      --reverse            Play backwards
+      --boomerang          Play forward then backward
+      --loop <n>           Number of plays (0 = forever)
+      --hold <s>           Keep the last frame on screen for extra seconds
+      --crop <W:H:X:Y>     Keep a region of the source frame, or "auto" to remove black bars
+      --frames <fps>       Treat inputs as image sequences shown at <fps> frames per second
+      --fit <mode>         Image sequences: pad (letterbox) or scale frames of another size
+      --format <fmt>       gif | webp | apng | avif
+      --colors <n>         GIF palette size (2-256)
+      --level <level>      fast | balanced | quality | ultra
+      --dither <mode>      GIF dithering: on, off, ${DITHER_ALGORITHMS.map(algorithm => algorithm.value).join(', ')}
+      --palette <mode>     GIF palette statistics: full, diff, single (per-frame palettes)
+      --lossy <n>          Gifsicle lossy compression level
+      --quality <n>        WebP/AVIF quality (0-100)
+      --lossless           Lossless WebP/AVIF
+      --budget <MB>        Retry with lower settings until the output fits
+      --preset <name>      Start from a preset of the config file
+  -c, --config <file>      Config file (default: ${DEFAULT_CONFIG_FILE} when present)
+      --json               Print results as JSON on stdout
+  -q, --quiet              Only print errors
+      --verbose            Print FFmpeg and Gifsicle command lines and output on stderr
+  -h, --help               Show this help
+  -v, --version            Show the version
+
+Exit codes: 0 success, 1 a conversion failed, 2 invalid usage, 3 FFmpeg unavailable`;
+
+export class CliUsageError extends Error {}
+
+export interface CliArgs {
+  inputs: string[];
+  /** Options given on the command line, applied over the preset and config defaults */
+  overrides: Partial<ConversionOptions>;
+  preset?: string;
+  /** Frame rate of image sequence inputs; unset for videos */
+  sequenceFps?: number;
+  config?: string;
+  output?: string;
+  /** Overrides the `collisionPolicy` setting */
+  collision?: CollisionPolicy;
+  json: boolean;
+  quiet: boolean;
+  /** Logs at `debug` level instead of warnings and errors only */
+  verbose: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+export interface CliResult {
+  input: string;
+  output: string;
+  success: boolean;
+  /** Set when the output already existed and the collision policy skipped it */
+  skipped?: boolean;
+  size?: number;
+  attempts?: number;
+  fitsBudget?: boolean;
+  seconds?: number;
+  error?: string;
+}
+
+/**
+ * Parses the command line; throws CliUsageError on invalid flags or values
+ */
+export function parseCliArgs(argv: string[]): CliArgs {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        collision: { type: 'string' },
+        fps: { type: 'string' },
+        width: { type: 'string' },
+        height: { type: 'string' },
+        resolution: { type: 'string' },
+        start: { type: 'string' },
+        duration: { type: 'string' },
+        crop: { type: 'string' },
+        frames: { type: 'string' },
+        fit: { type: 'string' },
+        speed: { type: 'string' },
+        reverse: { type: 'boolean' },
+        boomerang: { type: 'boolean' },
+        loop: { type: 'string' },
+        hold: { type: 'string' },
+        format: { type: 'string' },
+        colors: { type: 'string' },
+        level: { type: 'string' },
+        dither: { type: 'string' },
+        palette: { type: 'string' },
+        lossy: { type: 'string' },
+        quality: { type: 'string' },
+        lossless: { type: 'boolean' },
+        budget: { type: 'string' },
+        preset: { type: 'string' },
+        config: { type: 'string', short: 'c' },
+        json: { type: 'boolean' },
+        quiet: { type: 'boolean', short: 'q' },
+        verbose: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+        version: { type: 'boolean', short: 'v' }
+      }
+    });
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  const overrides: Partial<ConversionOptions> = {};
+
+  if (values.fps !== undefined) {overrides.fps = parseNumber('--fps', values.fps, 1, 100);}
+  if (values.start !== undefined) {overrides.startTime = parseNumber('--start', values.start, 0);}
+  if (values.duration !== undefined) {overrides.duration = parseNumber('--duration', values.duration, 0);}
+  if (values.colors !== undefined) {overrides.colorCount = Math.round(parseNumber('--colors', values.colors, 2, 256));}
+  if (values.lossy !== undefined) {overrides.lossyCompression = Math.round(parseNumber('--lossy', values.lossy, 0, 200));}
+  if (values.quality !== undefined) {overrides.quality = Math.round(parseNumber('--quality', values.quality, 0, 100));}
+  if (values.budget !== undefined) {overrides.maxOutputSizeMB = parseNumber('--budget', values.budget, 0);}
+  if (values.speed !== undefined) {overrides.speed = parseNumber('--speed', values.speed, MIN_SPEED, MAX_SPEED);}
+  if (values.loop !== undefined) {overrides.loopCount = Math.round(parseNumber('--loop', values.loop, 0));}
+  if (values.hold !== undefined) {overrides.holdLastFrame = parseNumber('--hold', values.hold, 0, 60);}
+  if (values.lossless) {overrides.lossless = true;}
+  if (values.reverse) {overrides.reverse = true;}
+  if (values.boomerang) {overrides.boomerang = true;}
+
+  if (values.dither !== undefined) {
+    const algorithm = DITHER_ALGORITHMS.find(candidate => candidate.value === values.dither);
+    if (algorithm) {
+      overrides.ditherAlgorithm = algorithm.value;
+      overrides.dithering = algorithm.value !== 'none';
+    } else if (values.dither === 'on' || values.dither === 'off') {
+      overrides.dithering = values.dither === 'on';
+    } else {
+      throw new CliUsageError(`--dither must be on, off or one of ${DITHER_ALGORITHMS.map(candidate => candidate.value).join(', ')}`);
+    }
+  }
+
+  if (values.palette !== undefined) {
+    const mode = PALETTE_STATS_MODES.find(candidate => candidate.value === values.palette);
+    if (!mode) {
+      throw new CliUsageError('--palette must be one of full, diff, single');
+    }
+    overrides.paletteStatsMode = mode.value;
+  }
+
+  if (values.crop === 'auto') {
+    overrides.autoCrop = true;
+  } else if (values.crop !== undefined) {
+    const crop = parseCrop(values.crop);
+    if (!crop) {
+      throw new CliUsageError(`--crop must look like 1280:720:0:40 or auto (got "${values.crop}")`);
+    }
+    overrides.crop = crop;
+  }
+
+  if (values.fit !== undefined) {
+    if (values.fit !== 'pad' && values.fit !== 'scale') {
+      throw new CliUsageError('--fit must be pad or scale');
+    }
+    overrides.frameFit = values.fit;
+  }
+
+  if (values.level !== undefined) {
+    const levels = ['fast', 'balanced', 'quality', 'ultra'];
+    if (!levels.includes(values.level)) {
+      throw new CliUsageError(`--level must be one of ${levels.join(', ')}`);
+    }
+    overrides.optimizationLevel = values.level as ConversionOptions['optimizationLevel'];
+  }
+
+  if (values.format !== undefined) {
+    if (!(values.format in OUTPUT_FORMATS)) {
+      throw new CliUsageError(`--format must be one of ${Object.keys(OUTPUT_FORMATS).join(', ')}`);
+    }
+    overrides.outputFormat = values.format as ConversionOptions['outputFormat'];
+  }
+
+  const resolution = parseResolution(values.resolution, values.width, values.height);
+  if (resolution) {overrides.resolution = resolution;}
+
+  if (values.collision !== undefined && !COLLISION_POLICIES.includes(values.collision as CollisionPolicy)) {
+    throw new CliUsageError(`--collision must be one of ${COLLISION_POLICIES.join(', ')}`);
+  }
+
+  return {
+    inputs: positionals,
+    overrides,
+    preset: values.preset,
+    sequenceFps: values.frames === undefined ? undefined : parseNumber('--frames', values.frames, 0.1, 120),
+    config: values.config,
+    output: values.output,
+    collision: values.collision as CollisionPolicy | undefined,
+    json: values.json ?? false,
+    quiet: values.quiet ?? false,
+    verbose: values.verbose ?? false,
+    help: values.help ?? false,
+    version: values.version ?? false
+  };
+}
+
+function parseNumber(flag: string, raw: string, min: number, max = Infinity): number {
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value) || value < min || value > max) {
+    const range = max === Infinity ? `>= ${min}` : `between ${min} and ${max}`;
+    throw new CliUsageError(`${flag} must be a number ${range} (got "${raw}")`);
+  }
+  return value;
+}
+
+function parseResolution(resolution?: string, width?: string, height?: string): string | undefined {
+  if (resolution !== undefined) {
+    if (width !== undefined || height !== undefined) {
+      throw new CliUsageError('--resolution cannot be combined with --width or --height');
+    }
+    if (!isValidResolution(resolution)) {
+      throw new CliUsageError(`--resolution must be original, ${RESOLUTION_FORMAT_HINT} (got "${resolution}")`);
+    }
+    return resolution;
+  }
+
+  if (width === undefined && height === undefined) {return undefined;}
+  const w = width === undefined ? -2 : Math.round(parseNumber('--width', width, 2));
+  const h = height === undefined ? -2 : Math.round(parseNumber('--height', height, 2));
+  return `${w}:${h}`;
+}
+
+/**
+ * Default settings from the config file, then the preset, then the command-line flags
+ */
+export function resolveOptions(args: CliArgs, settings: SettingsPort): ConversionOptions {
+  let base = getDefaultOptions(settings);
+  if (args.preset) {
+    const store = new PresetStore(settings);
+    const preset = store.get(args.preset);
+    if (!preset) {
+      const known = store.list();
+      throw new CliUsageError(`Unknown preset "${args.preset}"${known.length ? ` (available: ${known.join(', ')})` : ''}`);
+    }
+    base = preset;
+  }
+  return normalizePreset(args.overrides, base);
+}
+
+/**
+ * Where to write each converted file: named by the `outputPattern` setting, in the
+ * `outputDirectory` setting (next to the input when empty) or in `--output`, which may also be a file
+ */
+export function resolveOutputPaths(
+  inputs: string[],
+  output: string | undefined,
+  extension: string,
+  naming: Pick<OutputNaming, 'pattern' | 'directory'> = { pattern: DEFAULT_OUTPUT_PATTERN, directory: '' },
+  tokensFor: (input: string) => OutputTokens = defaultTokens
+): string[] {
+  if (output && inputs.length === 1 && path.extname(output) !== '' && !isDirectory(output)) {
+    return [path.resolve(output)];
+  }
+
+  const directory = output ? path.resolve(output) : naming.directory;
+  return inputs.map(input => buildOutputPath(input, extension, { pattern: naming.pattern, directory }, tokensFor(input)));
+}
+
+function defaultTokens(input: string): OutputTokens {
+  return { name: path.parse(input).name, preset: 'default', fps: 0, date: formatTimestamp(new Date()), workspaceFolder: process.cwd() };
+}
+
+/**
+ * Probes the sources only when a template uses `${width}`; image sequences are probed on their first frame
+ */
+async function probeSources(
+  converter: VideoConverter,
+  files: string[],
+  naming: OutputNaming,
+  sequence: boolean
+): Promise<(VideoMetadata | undefined)[]> {
+  if (!`${naming.pattern}${naming.directory}`.includes('${width}')) {
+    return files.map(() => undefined);
+  }
+  return Promise.all(files.map(async file => {
+    const probePath = sequence ? (await collectSequenceFrames(file).catch(() => []))[0] : file;
+    return probePath ? converter.getVideoInfo(probePath).catch(() => undefined) : undefined;
+  }));
+}
+
+/**
+ * Asks on an interactive terminal; skips otherwise
+ */
+function askCollision(ui: UiPort): (outputPath: string) => Promise<Exclude<CollisionPolicy, 'ask'>> {
+  return async (outputPath) => {
+    const choice = await ui.warn(`${outputPath} already exists.`, ['Overwrite', 'Keep both', 'Skip']);
+    return choice === 'Overwrite' ? 'overwrite' : choice === 'Keep both' ? 'increment' : 'skip';
+  };
+}
+
+function isDirectory(target: string): boolean {
+  try {
+    return fs.statSync(target).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function readVersion(): string {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
+    return String(pkg.version);
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Runs the CLI and resolves with the process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  let args: CliArgs;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    return usageError(error);
+  }
+
+  if (args.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return EXIT_OK;
+  }
+  if (args.version) {
+    process.stdout.write(`${readVersion()}\n`);
+    return EXIT_OK;
+  }
+  if (args.inputs.length === 0) {
+    return usageError(new CliUsageError('No input given'));
+  }
+
+  const ui = createTerminalUiPort({ quiet: args.quiet || args.json });
+  let options: ConversionOptions;
+  let files: string[];
+  let settings: SettingsPort;
+
+  try {
+    const configPath = args.config ?? (fs.existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+    settings = createFileSettingsPort(configPath ? loadConfigFile(configPath) : {}, configPath);
+    options = resolveOptions(args, settings);
+
+    // A glob only needs its folder to exist
+    const missing = args.inputs.filter(input => !fs.existsSync(args.sequenceFps && isGlobPattern(input) ? path.dirname(input) : input));
+    if (missing.length > 0) {
+      throw new CliUsageError(`Input not found: ${missing.join(', ')}`);
+    }
+    files = args.sequenceFps
+      ? args.inputs.map(input => path.resolve(input))
+      : await collectVideoFiles(args.inputs.map(input => path.resolve(input)));
+    if (files.length === 0) {
+      throw new CliUsageError('No supported video found in the given inputs');
+    }
+  } catch (error) {
+    return usageError(error);
+  }
+
+  const workspace = createNodeWorkspacePort();
+  const log = createStderrLogPort(args.verbose ? 'debug' : args.quiet || args.json ? 'error' : 'warn');
+  const ffmpegManager = FfmpegManager.getInstance({ ui, settings, workspace, log });
+  const converter = new VideoConverter(ffmpegManager, log);
+  if (!(await converter.initialize())) {
+    await ui.error('FFmpeg is not available. Install it and make sure it is on your PATH.');
+    return EXIT_FFMPEG_MISSING;
+  }
+
+  const pipeline = new ConversionPipeline(converter, new OptimizationService(settings, log));
+  const formatInfo = getFormatInfo(options);
+  const naming = getOutputNaming(settings);
+  // The output cannot have more frames per second than the sequence
+  const inputOptions = args.sequenceFps ? { ...options, fps: Math.min(options.fps, args.sequenceFps) } : options;
+  const sources = await probeSources(converter, files, naming, Boolean(args.sequenceFps));
+  const namedInputs = args.sequenceFps ? files.map(getSequenceBasePath) : files;
+  const outputs = resolveOutputPaths(namedInputs, args.output, formatInfo.extension, naming, input =>
+    getOutputTokens(input, inputOptions, { preset: args.preset ?? 'default', workspaceFolder: process.cwd(), source: sources[namedInputs.indexOf(input)] })
+  );
+  const collisionPolicy = args.collision ?? naming.collisionPolicy;
+  const claimed = new Set<string>();
+  const results: CliResult[] = [];
+
+  for (let i = 0; i < files.length; i++) {
+    const input = files[i];
+    const label = files.length > 1 ? `[${i + 1}/${files.length}] ${path.basename(input)}` : path.basename(input);
+    const started = Date.now();
+    let output = outputs[i];
+    let sequenceList: string | undefined;
+
+    try {
+      const resolved = await resolveCollision(output, collisionPolicy, askCollision(ui));
+      if (!resolved) {
+        await ui.warn(`${label}: skipped, ${output} already exists (see --collision)`);
+        results.push({ input, output, success: true, skipped: true });
+        continue;
+      }
+      // Two inputs of the same name (clip.mp4, clip.mov) would write the same file
+      output = claimed.has(resolved) ? nextFreePath(resolved, candidate => claimed.has(candidate) || fs.existsSync(candidate)) : resolved;
+      claimed.add(output);
+
+      let source = input;
+      if (args.sequenceFps) {
+        sequenceList = await pipeline.prepareSequence(input, args.sequenceFps, workspace.tmpPath());
+        source = sequenceList;
+      }
+
+      const budgetResult = await ui.withProgress(`${label} → ${formatInfo.label}`, update =>
+        writeThroughPartial(output, partialPath => pipeline.runWithinBudget(source, partialPath, inputOptions, update))
+      );
+      const seconds = Number(((Date.now() - started) / 1000).toFixed(1));
+
+      if (!budgetResult.fits) {
+        await ui.warn(
+          `${label}: could not fit the ${options.maxOutputSizeMB}MB budget after ${budgetResult.attempts} attempts. ` +
+          `Kept the smallest result (${formatMB(budgetResult.size)}: ${describeAttempt(budgetResult.options)}).`
+        );
+      }
+      await ui.info(`✔ ${output} (${formatMB(budgetResult.size)} in ${seconds}s)`);
+
+      results.push({
+        input,
+        output,
+        success: true,
+        size: budgetResult.size,
+        attempts: budgetResult.attempts,
+        fitsBudget: budgetResult.fits,
+        seconds
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await ui.error(`${label}: ${message}`);
+      results.push({ input, output, success: false, error: message });
+    } finally {
+      if (sequenceList && fs.existsSync(sequenceList)) {
+        fs.unlinkSync(sequenceList);
+      }
+    }
+  }
+
+  if (args.json) {
+    process.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+  }
+
+  return results.every(result => result.success) ? EXIT_OK : EXIT_CONVERSION_FAILED;
+}
+
+function usageError(error: unknown): number {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`magicvid2gif: ${message}\n`);
+  if (error instanceof CliUsageError) {
+    process.stderr.write('Run magicvid2gif --help for usage.\n');
+  }
+  return EXIT_USAGE;
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(
+    code => { process.exitCode = code; },
+    error => {
+      process.stderr.write(`magicvid2gif: ${error instanceof Error ? error.message : String(error)}\n`);
+      process.exitCode = EXIT_CONVERSION_FAILED;
+    }
+  );
+}
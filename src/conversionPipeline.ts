@@ -0,0 +1,235 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { formatProgressDetails } from './ffmpegProgress';
+import { collectSequenceFrames, writeSequenceList } from './imageSequence';
+import { formatOptimizeProgress, OptimizationService } from './optimizationService';
+import { DEFAULT_QUALITY, getFormatInfo } from './outputFormats';
+import { uniqueFileSuffix } from './outputPath';
+import { budgetToBytes, MAX_BUDGET_ATTEMPTS, nextBudgetAttempt } from './sizeBudget';
+import { ConversionOptions, ProgressDetails, VideoMetadata } from './types';
+import { LogLevel } from './types/ports';
+import { VideoConverter } from './videoConverter';
+
+export type PipelineProgress = (percent: number, message?: string) => void;
+
+// Overall percentage where the optimizer pass starts, when there is one
+const OPTIMIZE_START = 85;
+
+/**
+ * Optional observer of a run; the job queue context implements it
+ */
+export interface PipelineObserver {
+  /** FFmpeg and optimizer command lines and output */
+  log?(line: string, level?: LogLevel): void;
+  phase?(phase: 'converting' | 'optimizing'): void;
+}
+
+export interface BudgetResult {
+  /** Size of the file written to the output path, in bytes */
+  size: number;
+  /** Options that produced the kept result */
+  options: ConversionOptions;
+  attempts: number;
+  /** False when even the smallest attempt exceeds the budget */
+  fits: boolean;
+}
+
+/**
+ * Runs FFmpeg conversion followed by the optional optimizer pass (Gifsicle, gifski or built-in)
+ */
+export class ConversionPipeline {
+  private readonly converter: VideoConverter;
+  private readonly optimizer: OptimizationService;
+
+  constructor(converter: VideoConverter, optimizer: OptimizationService) {
+    this.converter = converter;
+    this.optimizer = optimizer;
+  }
+
+  /**
+   * Converts once and returns the output size in bytes
+   */
+  public async run(
+    inputPath: string,
+    outputPath: string,
+    options: ConversionOptions,
+    onProgress: PipelineProgress,
+    signal?: AbortSignal,
+    observer?: PipelineObserver
+  ): Promise<number> {
+    options = await this.resolveAutoCrop(inputPath, options, undefined, signal);
+    observer?.phase?.('converting');
+
+    // The optimizers only understand GIF; other formats are final after FFmpeg
+    const optimize = getFormatInfo(options).usesPalette && options.optimizationLevel !== 'fast' && await this.optimizer.isAvailable();
+    // The converter reports 0-100 for FFmpeg alone; this is the only place it is scaled
+    const ffmpegEnd = optimize ? OPTIMIZE_START : 100;
+
+    const progressCallback = (percent: number, details?: ProgressDetails) => {
+      const mapped = 5 + (Math.min(Math.max(percent, 0), 100) / 100) * (ffmpegEnd - 5);
+      onProgress(mapped, `Conversion... ${Math.round(mapped)}%${details ? ` · ${formatProgressDetails(details)}` : ''}`);
+    };
+
+    await this.converter.convert(inputPath, outputPath, options, progressCallback, signal, (line, level) => observer?.log?.(line, level));
+
+    if (optimize) {
+      onProgress(OPTIMIZE_START, 'Final optimization...');
+      observer?.phase?.('optimizing');
+      const optimizedPath = await this.optimizer.optimize(
+        outputPath,
+        options,
+        (line, level) => observer?.log?.(line, level),
+        (percent, estimated) => onProgress(
+          OPTIMIZE_START + (percent / 100) * (100 - OPTIMIZE_START),
+          `Final optimization... ${formatOptimizeProgress(percent, estimated)}`
+        ),
+        signal
+      );
+
+      if (optimizedPath !== outputPath && fs.existsSync(optimizedPath)) {
+        moveFile(optimizedPath, outputPath);
+      }
+    }
+
+    return fs.statSync(outputPath).size;
+  }
+
+  /**
+   * Re-runs the conversion with progressively lower settings until the output
+   * fits `options.maxOutputSizeMB`. Keeps the first attempt under the budget,
+   * or the smallest attempt when none fits.
+   */
+  public async runWithinBudget(
+    inputPath: string,
+    outputPath: string,
+    options: ConversionOptions,
+    onProgress: PipelineProgress,
+    signal?: AbortSignal,
+    observer?: PipelineObserver
+  ): Promise<BudgetResult> {
+    // Detect once so that every attempt keeps the same crop
+    options = await this.resolveAutoCrop(inputPath, options, undefined, signal);
+
+    const budget = budgetToBytes(options.maxOutputSizeMB ?? 0);
+    if (budget <= 0) {
+      const size = await this.run(inputPath, outputPath, options, onProgress, signal, observer);
+      return { size, options, attempts: 1, fits: true };
+    }
+
+    const source = await this.getSourceInfo(inputPath);
+    const budgetLabel = formatMB(budget);
+    const slice = 90 / MAX_BUDGET_ATTEMPTS;
+
+    let attemptOptions: ConversionOptions | null = options;
+    let smallest: { path: string; size: number; options: ConversionOptions } | null = null;
+    let attempt = 0;
+
+    try {
+      while (attemptOptions && attempt < MAX_BUDGET_ATTEMPTS) {
+        attempt++;
+        const current: ConversionOptions = attemptOptions;
+        const attemptPath = path.join(os.tmpdir(), `budget_${uniqueFileSuffix()}_${attempt}${path.extname(outputPath)}`);
+        const base = 5 + (attempt - 1) * slice;
+        const label = `Attempt ${attempt}/${MAX_BUDGET_ATTEMPTS} (${describeAttempt(current)})`;
+
+        onProgress(base, label);
+        const size = await this.run(inputPath, attemptPath, current, (percent) => {
+          onProgress(base + (percent / 100) * slice, `${label} ${Math.round(percent)}%`);
+        }, signal, observer);
+
+        if (!smallest || size < smallest.size) {
+          if (smallest) { safeUnlink(smallest.path); }
+          smallest = { path: attemptPath, size, options: current };
+        } else {
+          safeUnlink(attemptPath);
+        }
+
+        if (size <= budget) {
+          onProgress(95, `Attempt ${attempt}: ${formatMB(size)} fits the ${budgetLabel} budget`);
+          break;
+        }
+
+        onProgress(base + slice, `Attempt ${attempt}: ${formatMB(size)} exceeds ${budgetLabel}, lowering settings...`);
+        attemptOptions = nextBudgetAttempt(current, budget / size, source);
+      }
+
+      if (!smallest) {
+        throw new Error('No conversion attempt produced an output');
+      }
+
+      moveFile(smallest.path, outputPath);
+      return { size: smallest.size, options: smallest.options, attempts: attempt, fits: smallest.size <= budget };
+    } catch (error) {
+      if (smallest) { safeUnlink(smallest.path); }
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces `autoCrop` with the rectangle found by cropdetect (no crop when there are no black bars)
+   */
+  public async resolveAutoCrop(
+    inputPath: string,
+    options: ConversionOptions,
+    source?: VideoMetadata,
+    signal?: AbortSignal
+  ): Promise<ConversionOptions> {
+    if (!options.autoCrop || options.crop) {
+      return options;
+    }
+    const crop = await this.converter.detectCrop(inputPath, source ?? await this.getSourceInfo(inputPath), options, signal);
+    return { ...options, crop: crop ?? undefined, autoCrop: false };
+  }
+
+  /**
+   * Writes the concat list for a folder or glob of frames into `tmpDir`; the list is then
+   * converted like a video. The caller deletes it afterwards.
+   */
+  public async prepareSequence(target: string, fps: number, tmpDir: string): Promise<string> {
+    const frames = await collectSequenceFrames(target);
+    if (frames.length === 0) {
+      throw new Error(`No PNG, JPG or WebP frames found in ${target}`);
+    }
+    const first = await this.converter.getVideoInfo(frames[0]);
+    return writeSequenceList({ frames, fps, width: first.width, height: first.height }, tmpDir);
+  }
+
+  private async getSourceInfo(inputPath: string): Promise<VideoMetadata> {
+    try {
+      return await this.converter.getVideoInfo(inputPath);
+    } catch {
+      return { duration: 0, width: 1920, height: 1080, fps: 30 };
+    }
+  }
+}
+
+export function describeAttempt(options: ConversionOptions): string {
+  const detail = getFormatInfo(options).usesPalette
+    ? `${options.colorCount} colors`
+    : `quality ${options.lossless ? 'lossless' : options.quality ?? DEFAULT_QUALITY}`;
+  return `${options.fps} fps, ${options.resolution}, ${detail}`;
+}
+
+export function formatMB(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(2)}MB`;
+}
+
+// Copy + unlink instead of rename: the temp dir may live on another device
+function moveFile(from: string, to: string): void {
+  if (fs.existsSync(to)) {
+    fs.unlinkSync(to);
+  }
+  fs.copyFileSync(from, to);
+  fs.unlinkSync(from);
+}
+
+function safeUnlink(filePath: string): void {
+  try {
+    if (fs.existsSync(filePath)) {
+      fs.unlinkSync(filePath);
+    }
+  } catch {
+    // ignore cleanup failures
+  }
+}
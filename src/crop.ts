@@ -0,0 +1,78 @@
+import { CropRect, VideoMetadata } from './types';
+
+const CROP_PATTERN = /^(\d+):(\d+):(\d+):(\d+)$/;
+
+/**
+ * Parses a `width:height:x:y` crop (FFmpeg crop filter order)
+ */
+export function parseCrop(value: string): CropRect | null {
+  const match = CROP_PATTERN.exec(value.trim());
+  if (!match) {return null;}
+  const [width, height, x, y] = match.slice(1).map(part => Number.parseInt(part, 10));
+  return width >= 2 && height >= 2 ? { width, height, x, y } : null;
+}
+
+export function formatCrop(crop: CropRect): string {
+  return `${crop.width}:${crop.height}:${crop.x}:${crop.y}`;
+}
+
+/**
+ * Checks a crop read from settings or presets
+ */
+export function isValidCrop(value: unknown): value is CropRect {
+  if (!value || typeof value !== 'object') {return false;}
+  const crop = value as Record<string, unknown>;
+  const isInt = (key: string, min: number) => Number.isInteger(crop[key]) && (crop[key] as number) >= min;
+  return isInt('width', 2) && isInt('height', 2) && isInt('x', 0) && isInt('y', 0);
+}
+
+/**
+ * Checks that the crop lies inside the source frame; returns an error message otherwise
+ */
+export function validateCrop(crop: CropRect, source: Pick<VideoMetadata, 'width' | 'height'>): string | undefined {
+  if (crop.x + crop.width > source.width || crop.y + crop.height > source.height) {
+    return `The crop must fit inside the ${source.width}x${source.height} frame`;
+  }
+  return undefined;
+}
+
+/**
+ * Source metadata as seen by the scaler once the crop is applied
+ */
+export function croppedSize<T extends Pick<VideoMetadata, 'width' | 'height'>>(source: T, crop: CropRect | undefined): T {
+  return crop ? { ...source, width: crop.width, height: crop.height } : source;
+}
+
+/**
+ * Fits an explicit `width:height` box around the cropped region so it keeps its aspect ratio.
+ * Resolutions with a `-1`/`-2` component already follow the (cropped) input aspect.
+ */
+export function fitResolutionToCrop(resolution: string, crop: CropRect | undefined): string {
+  const match = /^(\d+):(\d+)$/.exec(resolution ?? '');
+  if (!crop || !match) {return resolution;}
+
+  const boxWidth = Number.parseInt(match[1], 10);
+  const boxHeight = Number.parseInt(match[2], 10);
+  const scale = Math.min(boxWidth / crop.width, boxHeight / crop.height);
+  const toEven = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+  return `${toEven(crop.width * scale)}:${toEven(crop.height * scale)}`;
+}
+
+/**
+ * Reads the last `crop=W:H:X:Y` suggestion from FFmpeg cropdetect output.
+ * With `reset=0` each line widens the previous one, so the last line covers the whole sample.
+ */
+export function parseCropDetect(lines: string[], source: Pick<VideoMetadata, 'width' | 'height'>): CropRect | null {
+  let detected: CropRect | null = null;
+  for (const line of lines) {
+    const match = /crop=(\d+:\d+:\d+:\d+)/.exec(line);
+    const crop = match ? parseCrop(match[1]) : null;
+    if (crop) {detected = crop;}
+  }
+
+  // A full-frame suggestion means there is nothing to crop
+  if (!detected || (detected.width >= source.width && detected.height >= source.height)) {
+    return null;
+  }
+  return detected;
+}
@@ -0,0 +1,90 @@
+import * as os from 'node:os';
+import { describeJob, Job } from './jobQueue';
+
+// Most recent jobs and log lines put in the report
+export const DIAGNOSTICS_JOB_COUNT = 10;
+export const DIAGNOSTICS_LOG_LINES = 300;
+
+export interface DiagnosticsInfo {
+  generatedAt: Date;
+  /** Extension, VS Code, FFmpeg, Gifsicle, … ('missing' when not found) */
+  versions: Record<string, string>;
+  platform: Record<string, string>;
+  /** Effective `magicvid2gif.*` values, without the prefix */
+  settings: Record<string, unknown>;
+  /** Session jobs, most recent first */
+  jobs: Job[];
+  /** Output channel lines, oldest first */
+  logLines: string[];
+}
+
+export function getPlatformInfo(): Record<string, string> {
+  return {
+    os: `${os.type()} ${os.release()}`,
+    arch: os.arch(),
+    node: process.versions.node,
+    cpus: String(os.cpus().length),
+    memory: `${Math.round(os.totalmem() / (1024 * 1024 * 1024))}GB`
+  };
+}
+
+/**
+ * Markdown report for bug reports. The home folder is replaced by `~` so paths do not
+ * give away the user name.
+ */
+export function buildDiagnosticsReport(info: DiagnosticsInfo, home = os.homedir()): string {
+  const table = (values: Record<string, string>) => [
+    '| | |',
+    '|---|---|',
+    ...Object.entries(values).map(([key, value]) => `| ${key} | ${value.replace(/\|/g, '\\|')} |`)
+  ];
+  const jobs = info.jobs.slice(0, DIAGNOSTICS_JOB_COUNT);
+
+  const lines = [
+    '# MagicVid2Gif diagnostics',
+    '',
+    `Generated ${info.generatedAt.toISOString()}`,
+    '',
+    '## Versions',
+    '',
+    ...table(info.versions),
+    '',
+    '## Platform',
+    '',
+    ...table(info.platform),
+    '',
+    '## Settings',
+    '',
+    '```json',
+    JSON.stringify(info.settings, null, 2),
+    '```',
+    '',
+    `## Last jobs (${jobs.length} of ${info.jobs.length})`,
+    ''
+  ];
+
+  for (const job of jobs) {
+    lines.push(
+      `### #${job.id} ${job.label}: ${describeJob(job)}`,
+      '',
+      `${job.inputPath} → ${job.outputPath}`,
+      '',
+      '```',
+      ...job.logs,
+      '```',
+      ''
+    );
+  }
+  if (jobs.length === 0) {
+    lines.push('No conversions in this session.', '');
+  }
+
+  lines.push('## Log', '', '```', ...info.logLines.slice(-DIAGNOSTICS_LOG_LINES), '```', '');
+  return redactHome(lines.join('\n'), home);
+}
+
+function redactHome(text: string, home: string): string {
+  if (home.length <= 1) {return text;}
+  // Windows paths appear with escaped backslashes in the settings JSON
+  return [home, JSON.stringify(home).slice(1, -1)].reduce((result, form) => result.split(form).join('~'), text);
+}
@@ -1,26 +1,69 @@
 import * as ffmpeg from 'fluent-ffmpeg';
 import * as fs from 'node:fs';
+import * as os from 'node:os';
 import * as path from 'node:path';
 import * as vscode from 'vscode';
+import { BatchConverter, BatchItem, collectVideoFiles } from './batchConverter';
+import { BudgetResult, ConversionPipeline, describeAttempt, formatMB } from './conversionPipeline';
+import { croppedSize, formatCrop, parseCrop, validateCrop } from './crop';
+import { buildDiagnosticsReport, getPlatformInfo } from './diagnostics';
 import { FfmpegManager } from './ffmpegManager';
+import { formatSizeChange, getReoptimizedPath, getVideoExportPath, GifTools, ReoptimizeOptions, SizeChange } from './gifTools';
+import { ConversionHistory, diffOptions, formatOptionValue } from './history';
+import { collectSequenceFrames, getSequenceBasePath, IMAGE_SEQUENCE_EXTENSIONS } from './imageSequence';
+import { describeJob, isJobActive, Job, JobQueue, JobState } from './jobQueue';
+import { getConversionWarnings, parseVideoMetadata } from './mediaInfo';
 import { OptimizationService } from './optimizationService';
-import { ConversionOptions, VideoMetadata } from './types';
+import { DEFAULT_QUALITY, getFormatInfo, OUTPUT_FORMATS, VIDEO_EXPORT_FORMATS } from './outputFormats';
+import { buildOutputPath, formatTimestamp, getOutputNaming, getOutputTokens, isOutputTaken, nextFreePath, resolveCollision, writeThroughPartial } from './outputPath';
+import { describeOverlay, OVERLAY_POSITIONS } from './overlays';
+import { DITHER_ALGORITHMS, PALETTE_STATS_MODES } from './palette';
+import { describePlayback, getOutputDuration, MAX_SPEED, MIN_SPEED } from './playback';
+import { getDefaultOptions, PresetStore } from './presets';
+import { PreviewService } from './previewService';
+import { getResolutionChoices, isValidResolution, RESOLUTION_FORMAT_HINT } from './resolution';
+import { CaptureSource, detectCaptureSource, ScreenRecorder } from './screenRecorder';
+import { budgetToBytes } from './sizeBudget';
+import { formatEstimate, SizeEstimate, SizeEstimator } from './sizeEstimator';
+import { correctedSize, isAnamorphic, needsSourceCorrection } from './sourceCorrection';
+import { ConversionOptions, ConversionResult, CropRect, FrameFit, ImageOverlay, OutputFormat, Overlay, OverlayPosition, TextOverlay, VideoExportFormat, VideoMetadata } from './types';
 import { VideoConverter } from './videoConverter';
-import { createSettingsPort, createUiPort, createWorkspacePort } from './platform/vscode';
+import { createOutputLogPort, createSettingsPort, createStatePort, createUiPort, createWorkspacePort, OutputLogPort } from './platform/vscode';
+import { SettingsPort, SettingsScope, WorkspacePort } from './types/ports';
+import { CropPanel } from './views/cropPanel';
+import { HistoryNode, HistoryTreeProvider } from './views/historyView';
+import { JobStatusBar } from './views/jobStatusBar';
+import { MediaInfoPanel } from './views/mediaInfoPanel';
+import { PreviewDecision, PreviewPanel } from './views/previewPanel';
+import { TrimmerPanel, TrimRange } from './views/trimmerPanel';
 
 let converter: VideoConverter;
 let optimizer: OptimizationService;
 let ffmpegManager: FfmpegManager;
+let pipeline: ConversionPipeline;
+let jobQueue: JobQueue;
+let workspacePort: WorkspacePort;
+let settings: SettingsPort;
+let log: OutputLogPort;
+let presetStore: PresetStore;
+let screenRecorder: ScreenRecorder;
+let gifTools: GifTools;
+let history: ConversionHistory;
+let historyView: HistoryTreeProvider;
 
-export async function activate(context: vscode.ExtensionContext): Promise<void> {
-  console.log('MagicVid2Gif extension is now active');
+// Outputs chosen for conversions that are not queued yet; queued and running jobs hold theirs
+const pendingOutputs = new Set<string>();
 
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
   const ui = createUiPort();
-  const settings = createSettingsPort('magicvid2gif');
-  const workspacePort = createWorkspacePort(context);
+  settings = createSettingsPort('magicvid2gif');
+  workspacePort = createWorkspacePort(context);
+  log = createOutputLogPort(settings);
+  context.subscriptions.push(log);
+  log.log('info', `MagicVid2Gif ${context.extension.packageJSON.version} activated (VS Code ${vscode.version}, ${process.platform}-${process.arch})`);
 
   // Initialize FFmpeg manager
-  ffmpegManager = FfmpegManager.getInstance({ ui, settings, workspace: workspacePort });
+  ffmpegManager = FfmpegManager.getInstance({ ui, settings, workspace: workspacePort, log });
 
   // Check/install FFmpeg at startup if needed
   const ffmpegPath = await ffmpegManager.getFfmpegPath();
@@ -44,8 +87,23 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     }
   }
 
-  converter = new VideoConverter(ffmpegManager);
-  optimizer = new OptimizationService(settings);
+  converter = new VideoConverter(ffmpegManager, log);
+  optimizer = new OptimizationService(settings, log);
+  pipeline = new ConversionPipeline(converter, optimizer);
+  screenRecorder = new ScreenRecorder(ffmpegManager);
+  gifTools = new GifTools(pipeline, converter, optimizer);
+  presetStore = new PresetStore(settings);
+  history = new ConversionHistory(createStatePort(context), settings);
+  historyView = new HistoryTreeProvider(history);
+  jobQueue = new JobQueue(settings.get('batchConcurrency', 2), log);
+  context.subscriptions.push(
+    new JobStatusBar(jobQueue, 'magicvid2gif.showJobs'),
+    vscode.workspace.onDidChangeConfiguration(event => {
+      if (event.affectsConfiguration('magicvid2gif.batchConcurrency')) {
+        jobQueue.setConcurrency(settings.get('batchConcurrency', 2));
+      }
+    })
+  );
 
   // Manual FFmpeg installation command
   const installCmd = vscode.commands.registerCommand(
@@ -56,7 +114,9 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         const version = await ffmpegManager.getVersion();
         vscode.window.showInformationMessage(`FFmpeg ${version} installed successfully!`);
         // Reinitialize the converter with the new path
-        converter = new VideoConverter(ffmpegManager);
+        converter = new VideoConverter(ffmpegManager, log);
+        pipeline = new ConversionPipeline(converter, optimizer);
+        gifTools = new GifTools(pipeline, converter, optimizer);
       }
     }
   );
@@ -64,7 +124,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   // Quick command with default parameters
   const disposableQuick = vscode.commands.registerCommand(
     'magicvid2gif.convert', 
-    async (uri: vscode.Uri) => {
+    async (uri: vscode.Uri, selected?: vscode.Uri[]) => {
       if (!uri) {
         const activeEditor = vscode.window.activeTextEditor;
         if (activeEditor) {
@@ -83,22 +143,21 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
           return;
         }
 
-        const config = vscode.workspace.getConfiguration('magicvid2gif');
-        const options: ConversionOptions = {
-          startTime: config.get('defaultStartTime', 0),
-          duration: config.get('defaultDuration', 0),
-          resolution: config.get('defaultResolution', '1920:1080'),
-          fps: config.get('defaultFps', 30),
-          colorCount: config.get('colorCount', 128),
-          optimizationLevel: config.get('optimizationLevel', 'ultra'),
-          dithering: config.get('dithering', true),
-          lossyCompression: config.get('lossyCompression', 80)
-        };
-
-        await executeConversion(uri.fsPath, options);
+        const options = getDefaultOptions(settings);
+
+        // Multi-selection and folders go through the batch queue
+        const targets = selected && selected.length > 1 ? selected : [uri];
+        const isFolder = (await vscode.workspace.fs.stat(uri)).type === vscode.FileType.Directory;
+        if (targets.length > 1 || isFolder) {
+          await executeBatchConversion(targets.map(target => target.fsPath), options, 'default');
+          return;
+        }
+
+        if (!(await confirmLongConversion(uri.fsPath, options))) {return;}
+        await executeConversion(uri.fsPath, options, { preset: 'default' });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
-        vscode.window.showErrorMessage(`Conversion error: ${message}`);
+        showError(`Conversion error: ${message}`);
       }
     }
   );
@@ -125,42 +184,492 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
           return;
         }
 
-        const options = await showOptionsDialog(uri.fsPath);
-        if (options) {
-          await executeConversion(uri.fsPath, options);
+        await runAdvancedFlow(uri.fsPath);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        showError(`Conversion error: ${message}`);
+      }
+    }
+  );
+
+  // Advanced flow with a visual trimmer for the time range
+  const trimmerCmd = vscode.commands.registerCommand(
+    'magicvid2gif.convertWithTrimmer',
+    async (uri: vscode.Uri) => {
+      if (!uri) {
+        vscode.window.showErrorMessage('Please select a video in the explorer');
+        return;
+      }
+
+      try {
+        const ready = await converter.initialize();
+        if (!ready) {
+          vscode.window.showErrorMessage('FFmpeg is not available. Installation required.');
+          return;
+        }
+
+        const videoInfo = await converter.getVideoInfo(uri.fsPath);
+        const range = await TrimmerPanel.show(converter, uri.fsPath, videoInfo, workspacePort.tmpPath());
+        if (!range) {return;}
+
+        await runAdvancedFlow(uri.fsPath, range);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        showError(`Conversion error: ${message}`);
+      }
+    }
+  );
+
+  // Quick conversion with a named preset from settings
+  const presetCmd = vscode.commands.registerCommand(
+    'magicvid2gif.convertWithPreset',
+    async (uri: vscode.Uri, selected?: vscode.Uri[]) => {
+      if (!uri) {
+        vscode.window.showErrorMessage('Please select a video in the explorer');
+        return;
+      }
+
+      try {
+        const ready = await converter.initialize();
+        if (!ready) {
+          vscode.window.showErrorMessage('FFmpeg is not available. Installation required.');
+          return;
+        }
+
+        const choice = await promptPreset();
+        if (!choice) {return;}
+
+        const targets = selected && selected.length > 1 ? selected : [uri];
+        const isFolder = (await vscode.workspace.fs.stat(uri)).type === vscode.FileType.Directory;
+        if (targets.length > 1 || isFolder) {
+          await executeBatchConversion(targets.map(target => target.fsPath), choice.options, choice.preset);
+          return;
         }
+
+        await executeConversion(uri.fsPath, choice.options, { preset: choice.preset });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
-        vscode.window.showErrorMessage(`Conversion error: ${message}`);
+        showError(`Conversion error: ${message}`);
       }
     }
   );
 
-  context.subscriptions.push(disposableQuick, disposableOptions, installCmd);
+  // Running, queued and finished conversions of the session
+  const showJobsCmd = vscode.commands.registerCommand('magicvid2gif.showJobs', () => showJobs());
+
+  // Versions, settings and the last job logs in one file for bug reports
+  const diagnosticsCmd = vscode.commands.registerCommand('magicvid2gif.collectDiagnostics', async () => {
+    try {
+      await collectDiagnostics(context);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      showError(`Diagnostics error: ${message}`);
+    }
+  });
+
+  // Screen capture converted with the default settings or a preset once stopped
+  const recordCmd = vscode.commands.registerCommand(
+    'magicvid2gif.recordScreen',
+    async () => {
+      try {
+        const ready = await converter.initialize();
+        if (!ready) {
+          vscode.window.showErrorMessage('FFmpeg is not available. Installation required.');
+          return;
+        }
+
+        await recordScreen();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        showError(`Recording error: ${message}`);
+      }
+    }
+  );
+
+  const stopRecordingCmd = vscode.commands.registerCommand('magicvid2gif.stopRecording', () => screenRecorder.stop());
+
+  // Folder (or a frame inside it) of numbered images converted at a chosen frame rate
+  const sequenceCmd = vscode.commands.registerCommand(
+    'magicvid2gif.convertImageSequence',
+    async (uri?: vscode.Uri) => {
+      try {
+        const ready = await converter.initialize();
+        if (!ready) {
+          vscode.window.showErrorMessage('FFmpeg is not available. Installation required.');
+          return;
+        }
+
+        let target = uri?.fsPath;
+        if (!target) {
+          const picked = await vscode.window.showOpenDialog({ canSelectFolders: true, canSelectFiles: false, openLabel: 'Convert frames' });
+          target = picked?.[0]?.fsPath;
+        } else if (IMAGE_SEQUENCE_EXTENSIONS.includes(path.extname(target).toLowerCase())) {
+          target = path.dirname(target);
+        }
+        if (!target) {return;}
+
+        await convertImageSequence(target);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        showError(`Conversion error: ${message}`);
+      }
+    }
+  );
+
+  // Shrink an existing GIF
+  const reoptimizeCmd = vscode.commands.registerCommand(
+    'magicvid2gif.reoptimizeGif',
+    async (uri?: vscode.Uri) => {
+      if (!uri) {
+        vscode.window.showErrorMessage('Please select a GIF in the explorer');
+        return;
+      }
+
+      try {
+        const options = await promptReoptimizeOptions();
+        if (!options) {return;}
+
+        if (options.repalette || options.dropFrames > 1) {
+          const ready = await converter.initialize();
+          if (!ready) {
+            vscode.window.showErrorMessage('FFmpeg is not available. Installation required.');
+            return;
+          }
+        }
+
+        const outputPath = await reserveOutputPath(getReoptimizedPath(uri.fsPath));
+        if (!outputPath) {return;}
+        const change = await runGifTask('🗜 Re-optimizing GIF', (onProgress, signal) =>
+          gifTools.reoptimize(uri.fsPath, outputPath, options, onProgress, signal)
+        ).finally(() => pendingOutputs.delete(outputPath));
+        await showGifTaskResult('GIF re-optimized', uri.fsPath, outputPath, change);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        showError(`Optimization error: ${message}`);
+      }
+    }
+  );
+
+  // Turn a GIF into a web video
+  const gifToVideoCmd = vscode.commands.registerCommand(
+    'magicvid2gif.gifToVideo',
+    async (uri?: vscode.Uri) => {
+      if (!uri) {
+        vscode.window.showErrorMessage('Please select a GIF in the explorer');
+        return;
+      }
+
+      try {
+        const ready = await converter.initialize();
+        if (!ready) {
+          vscode.window.showErrorMessage('FFmpeg is not available. Installation required.');
+          return;
+        }
+
+        const formats = Object.entries(VIDEO_EXPORT_FORMATS) as [VideoExportFormat, typeof VIDEO_EXPORT_FORMATS[VideoExportFormat]][];
+        const choice = await vscode.window.showQuickPick(
+          formats.map(([value, info]) => ({ label: info.label, description: info.extension, value })),
+          { placeHolder: 'Video format' }
+        );
+        if (!choice) {return;}
+
+        const outputPath = await reserveOutputPath(getVideoExportPath(uri.fsPath, choice.value));
+        if (!outputPath) {return;}
+
+        const change = await runGifTask(`🎞 GIF → ${VIDEO_EXPORT_FORMATS[choice.value].label}`, (onProgress, signal) =>
+          gifTools.toVideo(uri.fsPath, outputPath, choice.value, onProgress, signal)
+        ).finally(() => pendingOutputs.delete(outputPath));
+        await showGifTaskResult(`${VIDEO_EXPORT_FORMATS[choice.value].label} created`, uri.fsPath, outputPath, change);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        showError(`Conversion error: ${message}`);
+      }
+    }
+  );
+
+  context.subscriptions.push(disposableQuick, disposableOptions, trimmerCmd, presetCmd, installCmd, showJobsCmd, diagnosticsCmd, recordCmd, stopRecordingCmd, sequenceCmd);
+  // Everything ffprobe knows about a video, with what matters for GIF
+  const videoInfoCmd = vscode.commands.registerCommand(
+    'magicvid2gif.showVideoInfo',
+    async (uri?: vscode.Uri) => {
+      if (!uri) {
+        vscode.window.showErrorMessage('Please select a video in the explorer');
+        return;
+      }
+
+      try {
+        const ready = await converter.initialize();
+        if (!ready) {
+          vscode.window.showErrorMessage('FFmpeg is not available. Installation required.');
+          return;
+        }
+
+        const probe = await converter.probe(uri.fsPath);
+        MediaInfoPanel.show(uri.fsPath, parseVideoMetadata(probe), probe, fs.statSync(uri.fsPath).size);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(`Unable to read video info: ${message}`);
+      }
+    }
+  );
+
+  context.subscriptions.push(reoptimizeCmd, gifToVideoCmd, videoInfoCmd);
+  context.subscriptions.push(vscode.window.createTreeView('magicvid2gif.history', { treeDataProvider: historyView }));
+  registerHistoryCommands(context);
 
   // Export internals for tests
   (module as any).exports._getFfmpegManager = () => ffmpegManager;
 
   // Debug: log registered commands for test visibility
   vscode.commands.getCommands().then(cmds => {
-    console.log('Commands after activation:', cmds.filter(c => c.startsWith('magicvid2gif')));
+    log.log('debug', `Commands after activation: ${cmds.filter(c => c.startsWith('magicvid2gif')).join(', ')}`);
+  });
+}
+
+/**
+ * Advanced flow: options dialog, then convert directly or go through preview/tweak rounds.
+ * `previous` pre-fills the dialog from a history entry and offers a settings diff afterwards.
+ */
+async function runAdvancedFlow(videoPath: string, range?: TrimRange, previous?: ConversionResult): Promise<void> {
+  let options = await showOptionsDialog(videoPath, range, previous?.options);
+
+  while (options) {
+    const { estimate } = await estimateConversion(videoPath, options);
+    const step = await vscode.window.showQuickPick([
+      { label: '$(play) Convert', description: estimate ? formatEstimate(estimate) : undefined, value: 'convert' as const },
+      { label: '$(save-as) Convert and save as…', description: 'Choose the output file', value: 'saveAs' as const },
+      { label: '$(eye) Preview first', description: 'Quick low-resolution render of the selected range', value: 'preview' as const }
+    ], { placeHolder: estimate ? `Ready to convert: ${describeEstimate(estimate, options)}` : 'Ready to convert' });
+    if (!step) {return;}
+
+    const decision = step.value === 'preview' ? await previewConversion(videoPath, options) : 'accept';
+    if (decision === 'accept') {
+      const outputPath = step.value === 'saveAs' ? await promptSaveAs(videoPath, options) : undefined;
+      if (step.value === 'saveAs' && !outputPath) {return;}
+      await executeConversion(videoPath, options, { offerSavePreset: true, previous, outputPath });
+      return;
+    }
+    if (decision === 'cancel') {return;}
+
+    options = await showOptionsDialog(videoPath, range, options);
+  }
+}
+
+/**
+ * Save dialog opened on the file the naming settings would produce; it confirms overwrites itself
+ */
+async function promptSaveAs(videoPath: string, options: ConversionOptions): Promise<string | undefined> {
+  const formatInfo = getFormatInfo(options);
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(await getDefaultOutputPath(videoPath, options, 'custom')),
+    filters: { [formatInfo.label]: [formatInfo.extension.slice(1)] },
+    saveLabel: 'Convert'
   });
+  return target?.fsPath;
+}
+
+/**
+ * Output file from the `outputPattern` and `outputDirectory` settings. `probePath` is the file
+ * that gives the `${width}` token when `inputPath` is not a video (image sequences).
+ */
+async function getDefaultOutputPath(inputPath: string, options: ConversionOptions, preset: string, probePath = inputPath): Promise<string> {
+  const source = await converter.getVideoInfo(probePath).catch(() => undefined);
+  const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(inputPath)) ?? vscode.workspace.workspaceFolders?.[0];
+  const tokens = getOutputTokens(inputPath, options, { preset, workspaceFolder: folder?.uri.fsPath, source });
+  return buildOutputPath(inputPath, getFormatInfo(options).extension, getOutputNaming(settings), tokens);
+}
+
+/**
+ * Files that exist, and the outputs of the conversions of this session that are still to finish
+ */
+const isOutputInUse = isOutputTaken(() => [...pendingOutputs, ...jobQueue.getActive().map(job => job.outputPath)]);
+
+/**
+ * Default output file once the collision policy is applied; null when the user skips it. The
+ * path stays reserved in `pendingOutputs` until the caller queues its job or gives up.
+ */
+async function chooseOutputPath(
+  inputPath: string,
+  options: ConversionOptions,
+  preset: string,
+  probePath = inputPath,
+  batchOutputs?: ReadonlySet<string>
+): Promise<string | null> {
+  let outputPath = await getDefaultOutputPath(inputPath, options, preset, probePath);
+  // Two sources of the same name in a batch (clip.mp4, clip.mov) would write the same file
+  if (batchOutputs?.has(outputPath)) {
+    outputPath = nextFreePath(outputPath, isOutputInUse);
+  }
+  return reserveOutputPath(outputPath);
+}
+
+/**
+ * Applies the collision policy to `outputPath` and reserves the result in `pendingOutputs`;
+ * null when the user skips it
+ */
+async function reserveOutputPath(outputPath: string): Promise<string | null> {
+  const chosen = await resolveCollision(outputPath, getOutputNaming(settings).collisionPolicy, async (existing) => {
+    const choice = await vscode.window.showWarningMessage(
+      fs.existsSync(existing) ? `${path.basename(existing)} already exists.` : `${path.basename(existing)} is the output of another conversion.`,
+      { modal: true, detail: `Keep both writes ${path.basename(nextFreePath(existing, isOutputInUse))}.` },
+      'Overwrite',
+      'Keep both',
+      'Skip'
+    );
+    return choice === 'Overwrite' ? 'overwrite' : choice === 'Keep both' ? 'increment' : 'skip';
+  }, isOutputInUse);
+  if (chosen) {
+    pendingOutputs.add(chosen);
+  }
+  return chosen;
 }
 
-async function showOptionsDialog(videoPath: string): Promise<ConversionOptions | null> {
+/**
+ * Samples a few segments to project size and time. `estimate` is null for short selections,
+ * when sampling fails, or when the user cancels it (`cancelled` is then set).
+ */
+async function estimateConversion(videoPath: string, options: ConversionOptions): Promise<{ estimate: SizeEstimate | null; cancelled: boolean }> {
+  let source: VideoMetadata;
+  try {
+    source = await converter.getVideoInfo(videoPath);
+  } catch {
+    return { estimate: null, cancelled: false };
+  }
+
+  const estimator = new SizeEstimator(pipeline, workspacePort.tmpPath());
+  const controller = new AbortController();
+  try {
+    const estimate = await vscode.window.withProgress({
+      location: vscode.ProgressLocation.Notification,
+      title: '⏱ Estimating output size',
+      cancellable: true
+    }, (progress, token) => {
+      token.onCancellationRequested(() => controller.abort());
+      let displayedPercent = 0;
+      return estimator.estimate(videoPath, options, source, (percent, message) => {
+        const increment = Math.max(0, percent - displayedPercent);
+        displayedPercent += increment;
+        progress.report({ increment, message });
+      }, controller.signal);
+    });
+    return { estimate, cancelled: false };
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      log.log('warn', `Size estimate failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { estimate: null, cancelled: controller.signal.aborted };
+  }
+}
+
+function describeEstimate(estimate: SizeEstimate, options: ConversionOptions): string {
+  const budget = options.maxOutputSizeMB ?? 0;
+  const overBudget = budget > 0 && estimate.size > budgetToBytes(budget);
+  return `${formatEstimate(estimate)}${overBudget ? ` (over the ${budget}MB budget, settings will be lowered)` : ''}`;
+}
+
+/**
+ * Quick conversions estimated to take longer than `estimateThresholdSeconds` ask before starting
+ */
+async function confirmLongConversion(videoPath: string, options: ConversionOptions): Promise<boolean> {
+  const threshold = settings.get('estimateThresholdSeconds', 60);
+  if (threshold <= 0) {return true;}
+
+  const { estimate, cancelled } = await estimateConversion(videoPath, options);
+  if (cancelled) {return false;}
+  if (!estimate || estimate.seconds <= threshold) {return true;}
+
+  const choice = await vscode.window.showWarningMessage(
+    `${path.basename(videoPath)}: estimated ${describeEstimate(estimate, options)}. Convert anyway?`,
+    'Convert',
+    'Cancel'
+  );
+  return choice === 'Convert';
+}
+
+async function previewConversion(videoPath: string, options: ConversionOptions): Promise<PreviewDecision> {
   const videoInfo = await getVideoMetadataSafe(videoPath);
-  const startTime = await promptStartTime();
+  const previewService = new PreviewService(pipeline, workspacePort.tmpPath());
+
+  const preview = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: '👁 Rendering preview',
+    cancellable: true
+  }, async (progress, token) => {
+    const controller = new AbortController();
+    token.onCancellationRequested(() => controller.abort());
+
+    let displayedPercent = 0;
+    return previewService.render(videoPath, options, videoInfo, (percent, message) => {
+      const increment = Math.max(0, percent - displayedPercent);
+      displayedPercent += increment;
+      progress.report({ increment, message });
+    }, controller.signal);
+  });
+
+  try {
+    return await PreviewPanel.show(preview, options, videoPath);
+  } finally {
+    previewService.discard(preview);
+  }
+}
+
+async function showOptionsDialog(videoPath: string, range?: TrimRange, initial?: ConversionOptions): Promise<ConversionOptions | null> {
+  const videoInfo = await getVideoMetadataSafe(videoPath);
+  showSourceWarnings(videoPath, videoInfo);
+  const startTime = range ? range.startTime : await promptStartTime(initial?.startTime);
   if (startTime === null) {return null;}
 
-  const duration = await promptDuration(videoInfo);
+  const playback = await promptPlayback(initial);
+  if (!playback) {return null;}
+
+  const duration = range ? range.duration : await promptDuration(videoInfo, startTime, playback, initial?.duration);
   if (duration === null) {return null;}
 
-  const resolution = await promptResolution(videoInfo);
+  const correction = await promptSourceCorrection(videoInfo, initial);
+  if (!correction) {return null;}
+
+  // Crop and resolution work on the upright, square-pixel picture
+  const source = correctedSize(videoInfo, correction);
+  const crop = await promptCrop(videoPath, source, { startTime, duration }, initial?.crop);
+  if (crop === null) {return null;}
+
+  // Resolution choices refer to the cropped region
+  const resolution = await promptResolution(croppedSize(source, crop), initial?.resolution);
   if (!resolution) {return null;}
 
-  const fps = await promptFps(videoInfo);
+  const fps = await promptFps(videoInfo, initial?.fps);
   if (fps === null) {return null;}
 
+  const overlays = await promptOverlays(initial?.overlays ?? []);
+  if (!overlays) {return null;}
+
+  const outputFormat = await promptOutputFormat(initial?.outputFormat);
+  if (!outputFormat) {return null;}
+
+  const encoding = outputFormat === 'gif' ? await promptGifEncoding() : await promptEncoderSettings(outputFormat);
+  if (!encoding) {return null;}
+
+  const maxOutputSizeMB = await promptMaxOutputSize(initial?.maxOutputSizeMB);
+  if (maxOutputSizeMB === null) {return null;}
+
+  return {
+    startTime,
+    duration,
+    resolution,
+    crop,
+    fps,
+    ...playback,
+    ...encoding,
+    maxOutputSizeMB,
+    outputFormat,
+    overlays: overlays.length > 0 ? overlays : undefined,
+    ...correction
+  };
+}
+
+type EncodingChoice = Pick<ConversionOptions, 'colorCount' | 'optimizationLevel' | 'dithering' | 'lossyCompression' | 'quality' | 'lossless'> & PaletteChoice;
+
+async function promptGifEncoding(): Promise<EncodingChoice | null> {
   const profile = await promptOptimizationProfile();
   if (!profile) {return null;}
 
@@ -175,17 +684,29 @@ async function showOptionsDialog(videoPath: string): Promise<ConversionOptions |
   }
 
   return {
-    startTime,
-    duration,
-    resolution,
-    fps,
     colorCount: advanced.colorCount,
     optimizationLevel: advanced.optimizationLevel,
     dithering: advanced.dithering,
+    ...advanced.palette,
     lossyCompression
   };
 }
 
+/**
+ * Non-blocking notice about source properties that degrade the GIF (HDR, rotation, VFR, length)
+ */
+function showSourceWarnings(videoPath: string, videoInfo: VideoMetadata): void {
+  const warnings = getConversionWarnings(videoInfo).filter(warning => warning.severity === 'warning');
+  if (warnings.length === 0) {return;}
+
+  const summary = warnings.length === 1 ? warnings[0].message : `${warnings.length} issues: ${warnings.map(warning => warning.message.split(':')[0]).join(', ')}`;
+  vscode.window.showWarningMessage(`${path.basename(videoPath)}: ${summary}`, 'Show details').then(choice => {
+    if (choice === 'Show details') {
+      vscode.commands.executeCommand('magicvid2gif.showVideoInfo', vscode.Uri.file(videoPath));
+    }
+  });
+}
+
 async function getVideoMetadataSafe(videoPath: string): Promise<VideoMetadata> {
   try {
     return await converter.getVideoInfo(videoPath);
@@ -195,10 +716,10 @@ async function getVideoMetadataSafe(videoPath: string): Promise<VideoMetadata> {
   }
 }
 
-async function promptStartTime(): Promise<number | null> {
+async function promptStartTime(initial = 0): Promise<number | null> {
   const value = await vscode.window.showInputBox({
     prompt: 'Start time (seconds)',
-    value: '0',
+    value: String(initial),
     validateInput: (val: string) => {
       const num = Number.parseFloat(val);
       return (Number.isNaN(num) || num < 0) ? 'Please enter a positive number' : undefined;
@@ -207,31 +728,102 @@ async function promptStartTime(): Promise<number | null> {
   return value === undefined ? null : Number.parseFloat(value);
 }
 
-async function promptDuration(videoInfo: VideoMetadata): Promise<number | null> {
+async function promptDuration(
+  videoInfo: VideoMetadata,
+  startTime: number,
+  playback: PlaybackChoice,
+  initial = 0
+): Promise<number | null> {
+  const remaining = Math.max(0, videoInfo.duration - startTime);
   const value = await vscode.window.showInputBox({
-    prompt: `Duration (seconds, 0 = until the end). Total duration: ${videoInfo.duration.toFixed(1)}s`,
-    value: '0',
+    prompt: `Source duration (seconds, 0 = until the end). ${remaining.toFixed(1)}s left after the start time`,
+    value: String(initial),
     validateInput: (val: string) => {
       const num = Number.parseFloat(val);
       if (Number.isNaN(num) || num < 0) {return 'Please enter a positive number';}
-      if (num > videoInfo.duration) {return `Duration exceeds the video length (${videoInfo.duration.toFixed(1)}s)`;}
-      return undefined;
+      if (num > remaining + 0.05) {return `Duration exceeds the remaining video length (${remaining.toFixed(1)}s)`;}
+
+      // Speed and boomerang change the length of the animation itself
+      const output = getOutputDuration(num > 0 ? num : remaining, playback);
+      return {
+        message: `Animation length: ${output.toFixed(1)}s (${describePlayback(playback)})`,
+        severity: vscode.InputBoxValidationSeverity.Info
+      };
     }
   });
   return value === undefined ? null : Number.parseFloat(value);
 }
 
-async function promptResolution(videoInfo: VideoMetadata): Promise<string | null> {
+type PlaybackChoice = Pick<ConversionOptions, 'speed' | 'reverse' | 'boomerang' | 'loopCount' | 'holdLastFrame'>;
+
+async function promptPlayback(initial?: PlaybackChoice): Promise<PlaybackChoice | null> {
+  const speeds = [0.25, 0.5, 1, 1.5, 2, 4, 8];
+  const currentSpeed = initial?.speed ?? 1;
+  const speedPick = await vscode.window.showQuickPick([
+    ...speeds.map(speed => ({ label: `${speed}×`, description: speed === currentSpeed ? 'current' : undefined, value: speed })),
+    { label: 'Custom...', description: undefined, value: 0 }
+  ], { placeHolder: 'Playback speed' });
+  if (!speedPick) {return null;}
+
+  let speed = speedPick.value;
+  if (speed === 0) {
+    const custom = await vscode.window.showInputBox({
+      prompt: `Playback speed (${MIN_SPEED}-${MAX_SPEED})`,
+      value: String(currentSpeed),
+      validateInput: (val: string) => {
+        const num = Number.parseFloat(val);
+        return (Number.isNaN(num) || num < MIN_SPEED || num > MAX_SPEED) ? `Speed must be between ${MIN_SPEED} and ${MAX_SPEED}` : undefined;
+      }
+    });
+    if (custom === undefined) {return null;}
+    speed = Number.parseFloat(custom);
+  }
+
+  const modePick = await vscode.window.showQuickPick([
+    { label: 'Forward', value: { reverse: false, boomerang: false } },
+    { label: 'Reverse', value: { reverse: true, boomerang: false } },
+    { label: 'Boomerang', description: 'Forward then backward (doubles the length)', value: { reverse: false, boomerang: true } }
+  ], { placeHolder: 'Playback direction' });
+  if (!modePick) {return null;}
+
+  const currentLoop = initial?.loopCount ?? 0;
+  const loopPick = await vscode.window.showQuickPick([
+    { label: 'Loop forever', value: 0 },
+    { label: 'Play once', value: 1 },
+    { label: 'Play twice', value: 2 },
+    { label: 'Play 3 times', value: 3 },
+    { label: 'Play 5 times', value: 5 }
+  ].map(item => ({ ...item, description: item.value === currentLoop ? 'current' : undefined })), { placeHolder: 'Looping' });
+  if (!loopPick) {return null;}
+
+  const hold = await vscode.window.showInputBox({
+    prompt: 'Hold the last frame for (seconds, 0 = no pause)',
+    value: String(initial?.holdLastFrame ?? 0),
+    validateInput: (val: string) => {
+      const num = Number.parseFloat(val);
+      return (Number.isNaN(num) || num < 0 || num > 60) ? 'Please enter a number between 0 and 60' : undefined;
+    }
+  });
+  if (hold === undefined) {return null;}
+  const holdLastFrame = Number.parseFloat(hold);
+
+  return {
+    speed: speed === 1 ? undefined : speed,
+    reverse: modePick.value.reverse || undefined,
+    boomerang: modePick.value.boomerang || undefined,
+    loopCount: loopPick.value || undefined,
+    holdLastFrame: holdLastFrame > 0 ? holdLastFrame : undefined
+  };
+}
+
+async function promptResolution(videoInfo: VideoMetadata, current?: string): Promise<string | null> {
   const choice = await vscode.window.showQuickPick([
-    { label: `Original (${videoInfo.width}x${videoInfo.height})`, value: `${videoInfo.width}:${videoInfo.height}` },
-    { label: '4K Ultra HD (3840x2160)', value: '3840:2160' },
-    { label: '1080p Full HD (1920x1080)', value: '1920:1080' },
-    { label: '720p HD (1280:720)', value: '1280:720' },
-    { label: '480p SD (854:480)', value: '854:480' },
-    { label: '360p (640:360)', value: '640:360' },
-    { label: 'Custom (format: width:height)', value: 'custom' }
+    ...(current ? [{ label: `Current (${current})`, value: current }] : []),
+    { label: `Original (${videoInfo.width}x${videoInfo.height})`, value: 'original' },
+    ...getResolutionChoices(videoInfo),
+    { label: 'Custom…', description: RESOLUTION_FORMAT_HINT, value: 'custom' }
   ], {
-    placeHolder: 'Select output resolution',
+    placeHolder: 'Select output resolution (sizes keep the source aspect ratio)',
     canPickMany: false
   });
 
@@ -241,17 +833,108 @@ async function promptResolution(videoInfo: VideoMetadata): Promise<string | null
   }
 
   const customRes = await vscode.window.showInputBox({
-    prompt: 'Custom resolution (format: width:height or -1:height to keep aspect ratio)',
-    value: '1920:1080',
-    validateInput: (val: string) => /^\d+:\d+$/.test(val) ? undefined : 'Invalid format. Use width:height'
+    prompt: 'Custom resolution: width:height (exact), 800:-2 or -2:480 (keep aspect), 50% (of the source) or fit:1280:720 (inside the box, no upscaling)',
+    value: `fit:${videoInfo.width}:${videoInfo.height}`,
+    validateInput: (val: string) => isValidResolution(val) ? undefined : `Invalid format. Use ${RESOLUTION_FORMAT_HINT}`
+  });
+  return customRes?.trim() || null;
+}
+
+type CorrectionChoice = Pick<ConversionOptions, 'autoRotate' | 'squarePixels' | 'toneMap'>;
+
+/**
+ * Rotation, pixel aspect and HDR corrections, all on by default. Only asked when the source needs one;
+ * unticked corrections are stored as `false`.
+ */
+async function promptSourceCorrection(videoInfo: VideoMetadata, initial?: ConversionOptions): Promise<CorrectionChoice | null> {
+  if (!needsSourceCorrection(videoInfo)) {return {};}
+
+  const items: (vscode.QuickPickItem & { key: keyof CorrectionChoice })[] = [];
+  if (videoInfo.rotation) {
+    items.push({ label: '$(sync) Turn upright', description: `rotated ${videoInfo.rotation}° by metadata`, key: 'autoRotate', picked: initial?.autoRotate !== false });
+  }
+  if (isAnamorphic(videoInfo)) {
+    items.push({ label: '$(screen-full) Square pixels', description: `stretch to ${videoInfo.width}x${videoInfo.height}`, key: 'squarePixels', picked: initial?.squarePixels !== false });
+  }
+  if (videoInfo.hdr) {
+    items.push({ label: '$(color-mode) Tone map HDR to SDR', description: videoInfo.colorTransfer ?? videoInfo.colorPrimaries, key: 'toneMap', picked: initial?.toneMap !== false });
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    placeHolder: 'Source corrections (untick to keep the frames as stored)'
   });
-  return customRes || null;
+  if (!picked) {return null;}
+
+  const choice: CorrectionChoice = {};
+  for (const item of items) {
+    if (!picked.includes(item)) {
+      choice[item.key] = false;
+    }
+  }
+  return choice;
 }
 
-async function promptFps(videoInfo: VideoMetadata): Promise<number | null> {
+/**
+ * Resolves with the crop to apply, undefined for the full frame, or null when cancelled
+ */
+async function promptCrop(
+  videoPath: string,
+  videoInfo: VideoMetadata,
+  range: Pick<ConversionOptions, 'startTime' | 'duration'>,
+  initial?: CropRect
+): Promise<CropRect | undefined | null> {
+  const choice = await vscode.window.showQuickPick([
+    ...(initial ? [{ label: `Current (${formatCrop(initial)})`, value: 'current' as const }] : []),
+    { label: 'No crop', value: 'none' as const },
+    { label: '$(screen-normal) Auto-crop black bars', description: 'FFmpeg cropdetect', value: 'auto' as const },
+    { label: '$(edit) Draw on a frame', value: 'draw' as const },
+    { label: 'Enter rectangle (width:height:x:y)', value: 'manual' as const }
+  ], { placeHolder: `Crop (source is ${videoInfo.width}x${videoInfo.height})` });
+
+  if (!choice) {return null;}
+
+  switch (choice.value) {
+    case 'current':
+      return initial;
+    case 'none':
+      return undefined;
+    case 'auto': {
+      const detected = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Detecting black bars...' },
+        () => converter.detectCrop(videoPath, videoInfo, range)
+      );
+      if (!detected) {
+        vscode.window.showInformationMessage('No black bars detected, keeping the full frame');
+        return undefined;
+      }
+      vscode.window.showInformationMessage(`Cropping to ${detected.width}x${detected.height} at ${detected.x},${detected.y}`);
+      return detected;
+    }
+    case 'draw': {
+      const drawn = await CropPanel.show(converter, videoPath, videoInfo, range.startTime, workspacePort.tmpPath(), initial);
+      if (!drawn) {return null;}
+      const isFullFrame = drawn.width >= videoInfo.width - 1 && drawn.height >= videoInfo.height - 1;
+      return isFullFrame ? undefined : drawn;
+    }
+    case 'manual': {
+      const value = await vscode.window.showInputBox({
+        prompt: 'Crop rectangle in source pixels: width:height:x:y',
+        value: initial ? formatCrop(initial) : `${videoInfo.width}:${videoInfo.height}:0:0`,
+        validateInput: (val: string) => {
+          const crop = parseCrop(val);
+          return crop ? validateCrop(crop, videoInfo) : 'Invalid format. Use width:height:x:y';
+        }
+      });
+      return value === undefined ? null : parseCrop(value) ?? undefined;
+    }
+  }
+}
+
+async function promptFps(videoInfo: VideoMetadata, initial?: number): Promise<number | null> {
   const fpsStr = await vscode.window.showInputBox({
     prompt: "Frames per second (FPS, leave empty to keep original)",
-    value: videoInfo.fps.toFixed(0),
+    value: (initial ?? videoInfo.fps).toFixed(0),
     validateInput: (val: string) => {
       const num = Number.parseInt(val, 10);
       return (Number.isNaN(num) || num < 1 || num > 60) ? 'FPS must be between 1 and 60' : undefined;
@@ -260,7 +943,8 @@ async function promptFps(videoInfo: VideoMetadata): Promise<number | null> {
   return fpsStr === undefined ? null : Number.parseInt(fpsStr, 10);
 }
 
-type ResolvedProfile = { colorCount: number; optimizationLevel: 'fast' | 'balanced' | 'quality' | 'ultra'; dithering: boolean; custom?: false };
+type ResolvedProfile = { colorCount: number; optimizationLevel: 'fast' | 'balanced' | 'quality' | 'ultra'; dithering: boolean; palette?: PaletteChoice; custom?: false };
+type PaletteChoice = Pick<ConversionOptions, 'paletteStatsMode' | 'ditherAlgorithm' | 'bayerScale' | 'diffMode'>;
 type ProfileChoice = ResolvedProfile | { custom: true };
 
 async function promptOptimizationProfile(): Promise<ProfileChoice | null> {
@@ -300,125 +984,1039 @@ async function promptCustomOptimization(): Promise<ResolvedProfile | null> {
   ], { placeHolder: "Optimization level" });
   if (!optPick) {return null;}
 
-  const ditherRes = await vscode.window.showQuickPick([
-    { label: 'Yes (smoother gradients)', value: true, picked: true },
-    { label: 'No (fewer artifacts)', value: false }
-  ], { placeHolder: "Enable Bayer dithering?" });
-  if (!ditherRes) {return null;}
+  const palette = await promptPalette();
+  if (!palette) {return null;}
 
   return {
     colorCount: colorPick.value,
     optimizationLevel: optPick.value,
-    dithering: ditherRes.value
+    dithering: palette.ditherAlgorithm !== 'none',
+    palette
   };
 }
 
-async function executeConversion(inputPath: string, options: ConversionOptions): Promise<void> {
-  const progressOptions: vscode.ProgressOptions = {
+/**
+ * Palette page of the custom GIF flow: palette statistics, dither algorithm and diff mode
+ */
+async function promptPalette(): Promise<PaletteChoice | null> {
+  const statsPick = await vscode.window.showQuickPick(
+    PALETTE_STATS_MODES.map(mode => ({ label: mode.label, description: `stats_mode=${mode.value}`, value: mode.value })),
+    { placeHolder: 'Palette: how colours are chosen' }
+  );
+  if (!statsPick) {return null;}
+
+  const ditherPick = await vscode.window.showQuickPick(
+    DITHER_ALGORITHMS.map(algorithm => ({ label: algorithm.label, value: algorithm.value })),
+    { placeHolder: 'Palette: dither algorithm' }
+  );
+  if (!ditherPick) {return null;}
+
+  let bayerScale: number | undefined;
+  if (ditherPick.value === 'bayer') {
+    const scalePick = await vscode.window.showQuickPick(
+      [0, 1, 2, 3, 4, 5].map(scale => ({
+        label: String(scale),
+        description: scale === 0 ? 'strongest pattern' : scale === 2 ? 'FFmpeg default' : scale === 5 ? 'subtlest pattern' : undefined,
+        value: scale
+      })),
+      { placeHolder: 'Palette: Bayer scale' }
+    );
+    if (!scalePick) {return null;}
+    bayerScale = scalePick.value;
+  }
+
+  const diffPick = await vscode.window.showQuickPick([
+    { label: 'Whole frame', value: 'none' as const },
+    { label: 'Changed rectangle only', description: 'Smaller files for mostly static content', value: 'rectangle' as const }
+  ], { placeHolder: 'Palette: re-dither' });
+  if (!diffPick) {return null;}
+
+  return {
+    paletteStatsMode: statsPick.value,
+    ditherAlgorithm: ditherPick.value,
+    bayerScale,
+    diffMode: diffPick.value
+  };
+}
+
+async function promptOutputFormat(initial?: OutputFormat): Promise<OutputFormat | null> {
+  const config = vscode.workspace.getConfiguration('magicvid2gif');
+  const current = initial ?? config.get<OutputFormat>('outputFormat', 'gif');
+  const formats = Object.entries(OUTPUT_FORMATS) as [OutputFormat, typeof OUTPUT_FORMATS[OutputFormat]][];
+  const choice = await vscode.window.showQuickPick(
+    formats.map(([value, info]) => ({
+      label: `${info.label} (${info.extension})`,
+      description: value === current ? 'default' : undefined,
+      value
+    })),
+    { placeHolder: 'Output format' }
+  );
+  return choice ? choice.value : null;
+}
+
+async function promptEncoderSettings(format: OutputFormat): Promise<EncodingChoice | null> {
+  const config = vscode.workspace.getConfiguration('magicvid2gif');
+
+  const effortPick = await vscode.window.showQuickPick([
+    { label: 'Ultra (slowest, smallest file)', value: 'ultra' as const },
+    { label: 'Quality', value: 'quality' as const },
+    { label: 'Balanced', value: 'balanced' as const },
+    { label: 'Fast', value: 'fast' as const }
+  ], { placeHolder: `${OUTPUT_FORMATS[format].label} encoder effort` });
+  if (!effortPick) {return null;}
+
+  let quality: number | undefined;
+  let lossless: boolean | undefined;
+  if (OUTPUT_FORMATS[format].supportsQuality) {
+    const losslessPick = await vscode.window.showQuickPick([
+      { label: 'Lossy (smaller file)', value: false },
+      { label: 'Lossless (exact colors)', value: true }
+    ], { placeHolder: 'Compression mode' });
+    if (!losslessPick) {return null;}
+    lossless = losslessPick.value;
+
+    if (!lossless) {
+      const qualityStr = await vscode.window.showInputBox({
+        prompt: 'Encoder quality (0-100, higher = better quality)',
+        value: String(config.get('quality', DEFAULT_QUALITY)),
+        validateInput: (val: string) => {
+          const num = Number.parseInt(val, 10);
+          return (Number.isNaN(num) || num < 0 || num > 100) ? 'Quality must be between 0 and 100' : undefined;
+        }
+      });
+      if (qualityStr === undefined) {return null;}
+      quality = Number.parseInt(qualityStr, 10);
+    }
+  }
+
+  return {
+    colorCount: config.get('colorCount', 128),
+    optimizationLevel: effortPick.value,
+    dithering: config.get('dithering', true),
+    lossyCompression: config.get('lossyCompression', 80),
+    quality,
+    lossless
+  };
+}
+
+async function promptMaxOutputSize(initial?: number): Promise<number | null> {
+  const config = vscode.workspace.getConfiguration('magicvid2gif');
+  const value = await vscode.window.showInputBox({
+    prompt: 'Maximum output size in MB (0 = no limit). Settings are lowered until the output fits.',
+    value: String(initial ?? config.get('maxOutputSizeMB', 0)),
+    validateInput: (val: string) => {
+      const num = Number.parseFloat(val);
+      return (Number.isNaN(num) || num < 0) ? 'Please enter a positive number' : undefined;
+    }
+  });
+  return value === undefined ? null : Number.parseFloat(value);
+}
+
+async function promptOverlays(initial: Overlay[]): Promise<Overlay[] | null> {
+  const overlays = [...initial];
+
+  for (;;) {
+    const choice = await vscode.window.showQuickPick([
+      { label: overlays.length > 0 ? `$(check) Continue with ${overlays.length} overlay(s)` : '$(check) No overlay', value: 'done' as const },
+      { label: '$(text-size) Add text caption', value: 'text' as const },
+      { label: '$(file-media) Add image watermark', value: 'image' as const },
+      ...overlays.map((overlay, index) => ({ label: `$(trash) Remove ${describeOverlay(overlay)}`, value: index }))
+    ], { placeHolder: 'Captions and watermarks (drawn in list order)' });
+
+    if (!choice) {return null;}
+    if (choice.value === 'done') {return overlays;}
+
+    if (typeof choice.value === 'number') {
+      overlays.splice(choice.value, 1);
+      continue;
+    }
+
+    const overlay = choice.value === 'text' ? await promptTextOverlay() : await promptImageOverlay();
+    if (overlay) {
+      overlays.push(overlay);
+    }
+  }
+}
+
+async function promptTextOverlay(): Promise<TextOverlay | null> {
+  const text = await vscode.window.showInputBox({ prompt: 'Caption text', placeHolder: 'Step 1: open the command palette' });
+  if (!text) {return null;}
+
+  const position = await promptOverlayPosition('bottom');
+  if (!position) {return null;}
+
+  const fontSize = await vscode.window.showInputBox({
+    prompt: 'Font size (pixels at the output resolution)',
+    value: '24',
+    validateInput: (val: string) => {
+      const num = Number.parseInt(val, 10);
+      return (Number.isNaN(num) || num < 1) ? 'Please enter a positive number' : undefined;
+    }
+  });
+  if (fontSize === undefined) {return null;}
+
+  const color = await vscode.window.showInputBox({
+    prompt: 'Text colour, optionally with a background box colour (e.g. "white" or "white, black@0.5")',
+    value: 'white'
+  });
+  if (color === undefined) {return null;}
+  const [fontColor, background] = color.split(',').map(part => part.trim());
+
+  const font = await vscode.window.showInputBox({
+    prompt: 'Font family or font file path (empty = FFmpeg default)',
+    value: ''
+  });
+  if (font === undefined) {return null;}
+
+  const range = await promptOverlayTimeRange();
+  if (!range) {return null;}
+
+  return {
+    type: 'text',
+    text,
+    position,
+    fontSize: Number.parseInt(fontSize, 10),
+    color: fontColor || undefined,
+    background: background || undefined,
+    font: font.trim() || undefined,
+    ...range
+  };
+}
+
+async function promptImageOverlay(): Promise<ImageOverlay | null> {
+  const files = await vscode.window.showOpenDialog({
+    canSelectMany: false,
+    openLabel: 'Use as watermark',
+    filters: { images: ['png', 'jpg', 'jpeg', 'webp', 'gif'] }
+  });
+  if (!files || files.length === 0) {return null;}
+
+  const position = await promptOverlayPosition('bottom-right');
+  if (!position) {return null;}
+
+  const fraction = (prompt: string, value: string) => vscode.window.showInputBox({
+    prompt,
+    value,
+    validateInput: (val: string) => {
+      const num = Number.parseFloat(val);
+      return (Number.isNaN(num) || num <= 0 || num > 1) ? 'Please enter a number between 0 and 1' : undefined;
+    }
+  });
+
+  const scale = await fraction('Watermark width as a fraction of the output width (0-1)', '0.2');
+  if (scale === undefined) {return null;}
+
+  const opacity = await fraction('Opacity (0-1)', '0.8');
+  if (opacity === undefined) {return null;}
+
+  const range = await promptOverlayTimeRange();
+  if (!range) {return null;}
+
+  return {
+    type: 'image',
+    path: files[0].fsPath,
+    position,
+    scale: Number.parseFloat(scale),
+    opacity: Number.parseFloat(opacity),
+    ...range
+  };
+}
+
+async function promptOverlayPosition(initial: OverlayPosition): Promise<OverlayPosition | null> {
+  const choice = await vscode.window.showQuickPick(
+    OVERLAY_POSITIONS.map(position => ({
+      label: position,
+      description: position === initial ? 'default' : undefined
+    })),
+    { placeHolder: 'Position' }
+  );
+  return choice ? choice.label as OverlayPosition : null;
+}
+
+async function promptOverlayTimeRange(): Promise<Pick<Overlay, 'startTime' | 'endTime'> | null> {
+  const value = await vscode.window.showInputBox({
+    prompt: 'Visible between (seconds from the start of the clip, e.g. "1-4" or "2-"). Empty = whole clip.',
+    value: '',
+    validateInput: (val: string) => (val.trim() === '' || /^\d+(\.\d+)?-(\d+(\.\d+)?)?$/.test(val.trim()))
+      ? undefined
+      : 'Use "start-end" or "start-"'
+  });
+  if (value === undefined) {return null;}
+  if (value.trim() === '') {return {};}
+
+  const [start, end] = value.trim().split('-');
+  return {
+    startTime: Number.parseFloat(start),
+    endTime: end ? Number.parseFloat(end) : undefined
+  };
+}
+
+async function promptPreset(): Promise<{ preset: string; options: ConversionOptions } | null> {
+  const names = presetStore.list();
+  if (names.length === 0) {
+    const choice = await vscode.window.showInformationMessage(
+      'No presets defined yet. Save one after an advanced conversion or add them to the "magicvid2gif.presets" setting.',
+      'Open settings'
+    );
+    if (choice === 'Open settings') {
+      await vscode.commands.executeCommand('workbench.action.openSettings', 'magicvid2gif.presets');
+    }
+    return null;
+  }
+
+  const choice = await vscode.window.showQuickPick(
+    names.map(name => {
+      const options = presetStore.get(name);
+      return { label: name, description: options ? `${getFormatInfo(options).label} · ${describeAttempt(options)}` : undefined, name };
+    }),
+    { placeHolder: 'Select a preset' }
+  );
+  const options = choice ? presetStore.get(choice.name) : null;
+  return choice && options ? { preset: choice.name, options } : null;
+}
+
+async function recordScreen(): Promise<void> {
+  if (screenRecorder.isRecording()) {
+    vscode.window.showWarningMessage('A screen recording is already running');
+    return;
+  }
+  const source = detectCaptureSource(process.platform, process.env);
+  if (!source) {
+    vscode.window.showErrorMessage('Screen recording needs an X11 or Wayland session, macOS or Windows');
+    return;
+  }
+
+  const area = await promptRecordingArea(source);
+  if (!area) {return;}
+
+  const settingsChoice = await promptConversionSettings('Convert the recording with');
+  if (!settingsChoice) {return;}
+
+  const { options, preset } = settingsChoice;
+  const formatInfo = getFormatInfo(options);
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? workspacePort.tmpPath();
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(folder, `recording-${formatTimestamp(new Date())}${formatInfo.extension}`)),
+    filters: { [formatInfo.label]: [formatInfo.extension.slice(1)] },
+    saveLabel: 'Start recording'
+  });
+  if (!target) {return;}
+
+  const capturePath = path.join(workspacePort.tmpPath(), `magicvid2gif-recording-${Date.now()}.mkv`);
+  const stopItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 1000);
+  stopItem.command = 'magicvid2gif.stopRecording';
+  stopItem.tooltip = 'Stop the screen recording and convert it';
+  stopItem.backgroundColor = new vscode.ThemeColor('statusBarItem.errorBackground');
+  const startedAt = Date.now();
+  const tick = () => {
+    const seconds = Math.floor((Date.now() - startedAt) / 1000);
+    stopItem.text = `$(debug-stop) ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')} Stop recording`;
+  };
+  tick();
+  stopItem.show();
+  const timer = setInterval(tick, 1000);
+  await vscode.commands.executeCommand('setContext', 'magicvid2gif.recording', true);
+
+  // A failed recording can leave a large partial capture behind too
+  try {
+    try {
+      await screenRecorder.record(capturePath, {
+        source,
+        ...area,
+        // Capture at least 30 fps so speed changes still have frames to sample from
+        fps: Math.max(30, options.fps),
+        maxDuration: settings.get('recordMaxDuration', 300),
+        device: settings.get('captureDevice', '') || undefined
+      });
+    } finally {
+      clearInterval(timer);
+      stopItem.dispose();
+      await vscode.commands.executeCommand('setContext', 'magicvid2gif.recording', false);
+    }
+
+    // The whole capture is the clip, whatever the default range is
+    await executeConversion(capturePath, { ...options, startTime: 0, duration: 0 }, { outputPath: target.fsPath, preset });
+  } finally {
+    if (fs.existsSync(capturePath)) {
+      fs.unlinkSync(capturePath);
+    }
+  }
+}
+
+async function promptRecordingArea(source: CaptureSource): Promise<{ region?: CropRect; selectRegion?: boolean } | null> {
+  const choices = [
+    { label: '$(screen-full) Full screen', value: 'full' as const },
+    ...(source === 'x11grab' ? [{ label: '$(selection) Select with the mouse', description: 'Drag the area when recording starts', value: 'select' as const }] : []),
+    { label: '$(edit) Region…', description: 'width:height:x:y in screen pixels', value: 'region' as const }
+  ];
+  const choice = await vscode.window.showQuickPick(choices, { placeHolder: 'Area to record' });
+  if (!choice) {return null;}
+  if (choice.value === 'full') {return {};}
+  if (choice.value === 'select') {return { selectRegion: true };}
+
+  const value = await vscode.window.showInputBox({
+    prompt: 'Region (width:height:x:y)',
+    placeHolder: '1280:720:0:0',
+    validateInput: (val: string) => parseCrop(val) ? undefined : 'Use width:height:x:y, e.g. 1280:720:0:0'
+  });
+  const region = value ? parseCrop(value) : null;
+  return region ? { region } : null;
+}
+
+/**
+ * Default settings or one of the presets, for flows without the advanced dialog
+ */
+async function promptConversionSettings(placeHolder: string): Promise<{ preset: string; options: ConversionOptions } | null> {
+  const choice = await vscode.window.showQuickPick([
+    { label: '$(settings) Default settings', description: describeAttempt(getDefaultOptions(settings)), name: undefined },
+    ...presetStore.list().map(name => {
+      const options = presetStore.get(name);
+      return { label: `$(bookmark) ${name}`, description: options ? `${getFormatInfo(options).label} · ${describeAttempt(options)}` : undefined, name };
+    })
+  ], { placeHolder });
+  if (!choice) {return null;}
+  if (choice.name === undefined) {
+    return { preset: 'default', options: getDefaultOptions(settings) };
+  }
+  const options = presetStore.get(choice.name);
+  return options ? { preset: choice.name, options } : null;
+}
+
+async function convertImageSequence(target: string): Promise<void> {
+  const frames = await collectSequenceFrames(target);
+  if (frames.length === 0) {
+    vscode.window.showWarningMessage(`No PNG, JPG or WebP frames found in ${path.basename(target)}`);
+    return;
+  }
+
+  const fpsValue = await vscode.window.showInputBox({
+    prompt: `Frame rate of the ${frames.length} frames (${path.basename(frames[0])} … ${path.basename(frames[frames.length - 1])})`,
+    value: '12',
+    validateInput: (val: string) => {
+      const fps = Number(val);
+      return Number.isFinite(fps) && fps > 0 && fps <= 120 ? undefined : 'Enter a frame rate between 1 and 120';
+    }
+  });
+  if (!fpsValue) {return;}
+
+  const fit = await vscode.window.showQuickPick([
+    { label: 'Pad', description: 'Frames of another size keep their aspect ratio and are letterboxed', value: 'pad' as FrameFit },
+    { label: 'Stretch', description: 'Frames of another size are scaled to the first frame', value: 'scale' as FrameFit }
+  ], { placeHolder: 'Frames are fitted to the size of the first frame' });
+  if (!fit) {return;}
+
+  const settingsChoice = await promptConversionSettings('Convert the frames with');
+  if (!settingsChoice) {return;}
+
+  const fps = Number(fpsValue);
+  const options: ConversionOptions = {
+    ...settingsChoice.options,
+    startTime: 0,
+    duration: 0,
+    // The output cannot have more frames per second than the sequence
+    fps: Math.min(settingsChoice.options.fps, fps),
+    frameFit: fit.value
+  };
+  // Named after the folder (or the glob prefix); the first frame gives the size
+  const outputPath = await chooseOutputPath(getSequenceBasePath(target), options, settingsChoice.preset, frames[0]);
+  if (!outputPath) {return;}
+
+  let listPath: string | undefined;
+  try {
+    listPath = await pipeline.prepareSequence(target, fps, workspacePort.tmpPath());
+    await executeConversion(listPath, options, { outputPath, preset: settingsChoice.preset });
+  } finally {
+    pendingOutputs.delete(outputPath);
+    if (listPath && fs.existsSync(listPath)) {
+      fs.unlinkSync(listPath);
+    }
+  }
+}
+
+async function promptReoptimizeOptions(): Promise<ReoptimizeOptions | null> {
+  const strength = await vscode.window.showQuickPick([
+    { label: 'Light', description: '256 colors, lossy 30', colorCount: 256, lossyCompression: 30 },
+    { label: 'Medium', description: '128 colors, lossy 80', colorCount: 128, lossyCompression: 80 },
+    { label: 'Strong', description: '64 colors, lossy 150', colorCount: 64, lossyCompression: 150 },
+    { label: 'Lossless', description: 'Frame optimization only', colorCount: 256, lossyCompression: 0 }
+  ], { placeHolder: 'Compression strength' });
+  if (!strength) {return null;}
+
+  const palette = await vscode.window.showQuickPick([
+    { label: 'Keep the current palette', description: 'Optimizer only, frames untouched', value: false },
+    { label: 'Rebuild the palette', description: 'FFmpeg palettegen, then the optimizer', value: true }
+  ], { placeHolder: 'Palette' });
+  if (!palette) {return null;}
+
+  const frames = await vscode.window.showQuickPick([
+    { label: 'Keep every frame', value: 1 },
+    { label: 'Drop every other frame', description: 'Half the frame rate', value: 2 },
+    { label: 'Keep one frame in three', description: 'A third of the frame rate', value: 3 }
+  ], { placeHolder: 'Frames' });
+  if (!frames) {return null;}
+
+  return {
+    colorCount: strength.colorCount,
+    lossyCompression: strength.lossyCompression,
+    repalette: palette.value,
+    dropFrames: frames.value
+  };
+}
+
+/**
+ * Cancellable notification around a GIF re-optimization or export
+ */
+async function runGifTask(
+  title: string,
+  task: (onProgress: (percent: number, message?: string) => void, signal: AbortSignal) => Promise<SizeChange>
+): Promise<SizeChange> {
+  return vscode.window.withProgress({
     location: vscode.ProgressLocation.Notification,
-    title: "🎬 Video → GIF Conversion",
+    title,
     cancellable: true
-  };
+  }, async (progress, token) => {
+    const controller = new AbortController();
+    token.onCancellationRequested(() => controller.abort());
+
+    let displayedPercent = 0;
+    return task((percent, message) => {
+      const increment = Math.max(0, percent - displayedPercent);
+      displayedPercent += increment;
+      progress.report({ increment, message });
+    }, controller.signal);
+  });
+}
 
-  await vscode.window.withProgress(progressOptions, async (progress, token) => {
-    const startTime = Date.now();
+async function showGifTaskResult(title: string, inputPath: string, outputPath: string, change: SizeChange): Promise<void> {
+  const isGif = path.extname(outputPath).toLowerCase() === '.gif';
+  const result = await vscode.window.showInformationMessage(
+    `✨ ${title}: ${formatMB(change.before)} → ${formatMB(change.after)} (${formatSizeChange(change)})`,
+    'Open',
+    'Folder',
+    ...(isGif && change.after < change.before ? ['Replace original'] : [])
+  );
+
+  if (result === 'Open') {
+    await vscode.env.openExternal(vscode.Uri.file(outputPath));
+  } else if (result === 'Folder') {
+    await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(outputPath));
+  } else if (result === 'Replace original') {
+    fs.copyFileSync(outputPath, inputPath);
+    fs.unlinkSync(outputPath);
+    vscode.window.showInformationMessage(`✅ ${path.basename(inputPath)} replaced`);
+  }
+}
+
+async function savePreset(options: ConversionOptions): Promise<void> {
+  const name = await vscode.window.showInputBox({
+    prompt: 'Preset name',
+    placeHolder: 'e.g. README hero, PR demo, Slack',
+    validateInput: (val: string) => val.trim() ? undefined : 'Please enter a name'
+  });
+  if (!name) {return;}
+
+  const scopes: { label: string; value: SettingsScope }[] = [{ label: '$(account) User settings', value: 'global' }];
+  if (vscode.workspace.workspaceFolders?.length) {
+    scopes.push({ label: '$(folder) Workspace settings (shared with the repository)', value: 'workspace' });
+  }
+  const scope = scopes.length > 1 ? await vscode.window.showQuickPick(scopes, { placeHolder: 'Where should the preset be stored?' }) : scopes[0];
+  if (!scope) {return;}
+
+  if (presetStore.list().includes(name.trim())) {
+    const overwrite = await vscode.window.showWarningMessage(`Preset "${name.trim()}" already exists. Overwrite it?`, 'Overwrite', 'Cancel');
+    if (overwrite !== 'Overwrite') {return;}
+  }
+
+  await presetStore.save(name, options, scope.value);
+  vscode.window.showInformationMessage(`✅ Preset "${name.trim()}" saved`);
+}
+
+/**
+ * `flags.outputPath` is a file the user already picked (and confirmed); otherwise the naming
+ * settings and the collision policy decide, with `flags.preset` as the `${preset}` token
+ */
+async function executeConversion(
+  inputPath: string,
+  options: ConversionOptions,
+  flags: { offerSavePreset?: boolean; previous?: ConversionResult; outputPath?: string; preset?: string } = {}
+): Promise<void> {
+  const formatInfo = getFormatInfo(options);
+
+  // Final FFmpeg check
+  const ffmpegPath = await ffmpegManager.getFfmpegPath();
+  if (!ffmpegPath) {
+    throw new Error('FFmpeg not available. Installation required.');
+  }
+
+  const outputPath = flags.outputPath ?? await chooseOutputPath(inputPath, options, flags.preset ?? 'custom');
+  if (!outputPath) {return;}
+
+  let budgetResult: BudgetResult | undefined;
+  let entry: ConversionResult | undefined;
+  const job = jobQueue.add({
+    label: path.basename(outputPath),
+    inputPath,
+    outputPath,
+    run: async (_job, context) => {
+      const startTime = Date.now();
+      context.progress(5, 'Analyzing video...');
+
+      // Main conversion, repeated with lower settings when a size budget is set.
+      // An existing file is only replaced once the new one is complete.
+      budgetResult = await writeThroughPartial(outputPath, partialPath =>
+        pipeline.runWithinBudget(inputPath, partialPath, options, context.progress, context.signal, context)
+      );
+      entry = await recordConversion(inputPath, outputPath, options, budgetResult, Date.now() - startTime);
+      return budgetResult.size;
+    }
+  });
+  // The job holds the reservation from here on
+  pendingOutputs.delete(outputPath);
+
+  await followJob(job, `🎬 Video → ${formatInfo.label} Conversion`);
+  if (job.state !== 'done' || !budgetResult || !entry) {
+    throw new Error(job.error ?? 'Conversion cancelled by user');
+  }
+
+  const kept = budgetResult.options;
+  if (!budgetResult.fits) {
+    vscode.window.showWarningMessage(
+      `⚠️ Could not fit the ${options.maxOutputSizeMB}MB budget after ${budgetResult.attempts} attempts. ` +
+      `Kept the smallest result (${formatMB(budgetResult.size)}: ${describeAttempt(kept)}).`
+    );
+  }
+
+  const budgetNote = budgetResult.attempts > 1
+    ? ` | ${budgetResult.attempts} attempts (${describeAttempt(kept)})`
+    : '';
+
+  // Success message with actions
+  const result = await vscode.window.showInformationMessage(
+    `✨ ${formatInfo.label} created!\n📊 ${entry.sizeMB.toFixed(2)}MB in ${entry.elapsed.toFixed(1)}s | FFmpeg ${entry.ffmpegVersion}${budgetNote}`,
+    'Open',
+    'Folder',
+    'Copy path',
+    ...(flags.offerSavePreset ? ['Save as preset'] : []),
+    ...(flags.previous ? ['Compare settings'] : [])
+  );
+
+  if (result === 'Open') {
+    await vscode.env.openExternal(vscode.Uri.file(outputPath));
+  } else if (result === 'Folder') {
+    await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(outputPath));
+  } else if (result === 'Copy path') {
+    await vscode.env.clipboard.writeText(outputPath);
+    vscode.window.showInformationMessage('✅ Path copied');
+  } else if (result === 'Save as preset') {
+    await savePreset(options);
+  } else if (result === 'Compare settings' && flags.previous) {
+    await showSettingsDiff(flags.previous, entry);
+  }
+}
+
+/**
+ * Adds a finished conversion to the history view
+ */
+async function recordConversion(
+  inputPath: string,
+  outputPath: string,
+  options: ConversionOptions,
+  budgetResult: BudgetResult,
+  elapsedMs: number
+): Promise<ConversionResult> {
+  const kept = budgetResult.options;
+  const stats = fs.statSync(outputPath);
+  const ffmpegVersion = await converter.getFfmpegVersion();
+  const videoInfo = await getVideoMetadataSafe(inputPath);
+  const selected = kept.duration > 0 ? kept.duration : Math.max(0, videoInfo.duration - kept.startTime);
+  const outputDuration = getOutputDuration(selected, kept);
+  const entry = await history.add({
+    inputPath,
+    outputPath,
+    options,
+    sizeMB: stats.size / (1024 * 1024),
+    duration: outputDuration,
+    frameCount: Math.round(outputDuration * kept.fps),
+    elapsed: elapsedMs / 1000,
+    ffmpegVersion
+  });
+  historyView.refresh();
+  return entry;
+}
+
+/**
+ * Notification following a queued job until it finishes; cancelling it cancels that job only
+ */
+async function followJob(job: Job, title: string): Promise<void> {
+  await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title, cancellable: true }, async (progress, token) => {
+    token.onCancellationRequested(() => jobQueue.cancel(job));
 
     let displayedPercent = 0;
-    const updateProgress = (newPercent: number, message?: string) => {
-      const clamped = Math.min(100, Math.max(newPercent, displayedPercent));
-      const increment = clamped - displayedPercent;
-      if (increment > 0) {
+    let displayedMessage: string | undefined;
+    const update = () => {
+      const message = job.state === 'queued' ? `Queued behind ${jobQueue.getActive().indexOf(job)} job(s)...` : job.message;
+      const increment = Math.max(0, Math.min(100, job.percent) - displayedPercent);
+      if (increment > 0 || message !== displayedMessage) {
         progress.report({ increment, message });
-        displayedPercent = clamped;
-      } else if (message) {
-        progress.report({ message });
+        displayedPercent += increment;
+        displayedMessage = message;
       }
     };
 
-    updateProgress(0, "Preparing...");
-
-    // Final FFmpeg check
-    const ffmpegPath = await ffmpegManager.getFfmpegPath();
-    if (!ffmpegPath) {
-      throw new Error('FFmpeg not available. Installation required.');
+    const unsubscribe = jobQueue.onDidChange(update);
+    try {
+      update();
+      await jobQueue.wait(job);
+    } finally {
+      unsubscribe();
     }
+  });
+}
 
-    token.onCancellationRequested(() => {
-      converter.cancel();
-    });
+const JOB_ICONS: Record<JobState, string> = {
+  queued: '$(clock)',
+  running: '$(sync~spin)',
+  optimizing: '$(wand)',
+  done: '$(pass)',
+  failed: '$(error)',
+  cancelled: '$(circle-slash)'
+};
+
+/**
+ * Conversions of the session, then the actions available for the selected one
+ */
+async function showJobs(): Promise<void> {
+  const jobs = jobQueue.list();
+  if (jobs.length === 0) {
+    vscode.window.showInformationMessage('No conversions in this session');
+    return;
+  }
+
+  const choice = await vscode.window.showQuickPick([
+    ...jobs.map(job => ({ label: `${JOB_ICONS[job.state]} ${job.label}`, description: describeJob(job), detail: job.inputPath, job })),
+    ...(jobs.some(job => !isJobActive(job)) ? [{ label: '$(clear-all) Clear finished', description: undefined, detail: undefined, job: undefined }] : [])
+  ], { placeHolder: 'Conversions' });
+  if (!choice) {return;}
+  if (!choice.job) {
+    jobQueue.clearFinished();
+    return;
+  }
+
+  const job = choice.job;
+  type JobAction = 'cancel' | 'first' | 'up' | 'down' | 'retry' | 'open' | 'log';
+  const actions: { label: string; value: JobAction }[] = [
+    ...(isJobActive(job) ? [{ label: '$(close) Cancel', value: 'cancel' as const }] : []),
+    ...(job.state === 'queued' ? [
+      { label: '$(arrow-circle-up) Start next', value: 'first' as const },
+      { label: '$(arrow-up) Move up', value: 'up' as const },
+      { label: '$(arrow-down) Move down', value: 'down' as const }
+    ] : []),
+    ...(job.state === 'failed' || job.state === 'cancelled' ? [{ label: '$(debug-restart) Retry', value: 'retry' as const }] : []),
+    ...(job.state === 'done' && fs.existsSync(job.outputPath) ? [{ label: '$(file-media) Open output', value: 'open' as const }] : []),
+    { label: '$(output) Show log', value: 'log' }
+  ];
+  const action = await vscode.window.showQuickPick(actions, { placeHolder: `${job.label}: ${describeJob(job)}` });
 
-    // Generate output path
-    const parsedPath = path.parse(inputPath);
-    const outputPath = path.join(parsedPath.dir, `${parsedPath.name}_magic.gif`);
+  switch (action?.value) {
+    case 'cancel':
+      jobQueue.cancel(job);
+      break;
+    case 'first':
+    case 'up':
+    case 'down':
+      jobQueue.move(job, action.value);
+      break;
+    case 'retry':
+      jobQueue.retry(job);
+      await followJob(job, `🔁 ${job.label}`);
+      if (job.state === 'done') {
+        vscode.window.showInformationMessage(`✨ ${job.label} created (${formatMB(job.outputSize ?? 0)})`);
+      } else if (job.state === 'failed') {
+        showError(`Conversion error: ${job.error}`);
+      }
+      break;
+    case 'open':
+      await vscode.env.openExternal(vscode.Uri.file(job.outputPath));
+      break;
+    case 'log': {
+      const doc = await vscode.workspace.openTextDocument({
+        language: 'log',
+        content: `${job.inputPath} → ${job.outputPath}\n${describeJob(job)}\n\n${job.logs.join('\n')}\n`
+      });
+      await vscode.window.showTextDocument(doc);
+      break;
+    }
+  }
+}
 
-    // Remove if it already exists
-    if (fs.existsSync(outputPath)) {
-      fs.unlinkSync(outputPath);
+/**
+ * Error notification with a shortcut to the output channel, where the FFmpeg output is
+ */
+function showError(message: string): void {
+  log.log('error', message);
+  vscode.window.showErrorMessage(message, 'Show Log').then(choice => {
+    if (choice === 'Show Log') {
+      log.show();
     }
+  });
+}
 
-    // Progression
-    const progressCallback = (percent: number) => {
-      const adjusted = Math.min(Math.max(percent, 0), 100);
-      // Map FFmpeg 0-100 → overall 5-85 to leave room for post-processing steps.
-      const mapped = 5 + (adjusted * 0.8);
-      updateProgress(mapped, `Conversion... ${Math.round(mapped)}%`);
-    };
+/**
+ * Writes the diagnostics report where the user picks, then offers to open it
+ */
+async function collectDiagnostics(context: vscode.ExtensionContext): Promise<void> {
+  const packageJson = context.extension.packageJSON as { version: string; contributes: { configuration: { properties: Record<string, unknown> } } };
+  const keys = Object.keys(packageJson.contributes.configuration.properties).map(key => key.replace(/^magicvid2gif\./, ''));
+  const ffmpegPath = await ffmpegManager.getFfmpegPath();
 
-    updateProgress(5, "Analyzing video...");
+  const report = buildDiagnosticsReport({
+    generatedAt: new Date(),
+    versions: {
+      extension: packageJson.version,
+      vscode: vscode.version,
+      ffmpeg: ffmpegPath ? `${await ffmpegManager.getVersion()} (${ffmpegPath})` : 'missing',
+      ...await optimizer.getVersions()
+    },
+    platform: {
+      ...getPlatformInfo(),
+      remote: vscode.env.remoteName ?? 'local',
+      capture: detectCaptureSource(process.platform, process.env) ?? 'unavailable'
+    },
+    settings: Object.fromEntries(keys.map(key => [key, settings.get<unknown>(key, undefined)])),
+    jobs: [...jobQueue.list()].sort((a, b) => b.id - a.id),
+    logLines: log.recentLines()
+  });
 
-    try {
-      // Main conversion
-      await converter.convert(inputPath, outputPath, options, progressCallback);
-
-      // Additional optimization if Gifsicle is available
-      const gifsicleAvailable = await optimizer.checkGifsicle();
-      if (gifsicleAvailable && options.optimizationLevel !== 'fast') {
-        updateProgress(95, "Final optimization...");
-        const optimizedPath = await optimizer.optimize(outputPath, options);
-
-        if (optimizedPath !== outputPath && fs.existsSync(optimizedPath)) {
-          fs.unlinkSync(outputPath);
-          fs.renameSync(optimizedPath, outputPath);
-        }
-      }
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(folder, `magicvid2gif-diagnostics-${formatTimestamp(new Date())}.md`)),
+    filters: { markdown: ['md'] },
+    title: 'Save diagnostics'
+  });
+  if (!target) {return;}
 
-      const endTime = Date.now();
-      const duration = ((endTime - startTime) / 1000).toFixed(1);
+  fs.writeFileSync(target.fsPath, report);
+  const choice = await vscode.window.showInformationMessage(
+    `✅ Diagnostics saved to ${path.basename(target.fsPath)}. Check it before attaching it to an issue.`,
+    'Open'
+  );
+  if (choice === 'Open') {
+    await vscode.window.showTextDocument(await vscode.workspace.openTextDocument(target));
+  }
+}
 
-      // Final statistics
-      const stats = fs.statSync(outputPath);
-      const sizeMB = (stats.size / (1024 * 1024)).toFixed(2);
-      const ffmpegVersion = await converter.getFfmpegVersion();
+function registerHistoryCommands(context: vscode.ExtensionContext): void {
+  const withEntry = (command: string, action: (entry: ConversionResult) => Promise<void>) =>
+    vscode.commands.registerCommand(command, async (node?: HistoryNode) => {
+      const entry = node ? history.get(node.entry.id) : await pickHistoryEntry('Select a conversion');
+      if (!entry) {return;}
+      try {
+        await action(entry);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        showError(`Conversion error: ${message}`);
+      }
+    });
 
-      updateProgress(100, "Done!");
+  const ensureInput = async (entry: ConversionResult): Promise<boolean> => {
+    if (!fs.existsSync(entry.inputPath)) {
+      vscode.window.showErrorMessage(`Source video not found: ${entry.inputPath}`);
+      return false;
+    }
+    const ready = await converter.initialize();
+    if (!ready) {
+      vscode.window.showErrorMessage('FFmpeg is not available. Installation required.');
+    }
+    return ready;
+  };
 
-      // Success message with actions
-      const result = await vscode.window.showInformationMessage(
-        `✨ GIF created!\n📊 ${sizeMB}MB in ${duration}s | FFmpeg ${ffmpegVersion}`,
-        'Open',
-        'Folder',
-        'Copy path'
+  context.subscriptions.push(
+    withEntry('magicvid2gif.history.open', async (entry) => {
+      await vscode.env.openExternal(vscode.Uri.file(entry.outputPath));
+    }),
+    withEntry('magicvid2gif.history.reveal', async (entry) => {
+      await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(entry.outputPath));
+    }),
+    withEntry('magicvid2gif.history.rerun', async (entry) => {
+      if (await ensureInput(entry)) {
+        await executeConversion(entry.inputPath, entry.options);
+      }
+    }),
+    withEntry('magicvid2gif.history.rerunWithEdits', async (entry) => {
+      if (await ensureInput(entry)) {
+        await runAdvancedFlow(entry.inputPath, undefined, entry);
+      }
+    }),
+    withEntry('magicvid2gif.history.compare', async (entry) => {
+      const other = await pickHistoryEntry('Compare settings with…', entry.id);
+      if (other) {
+        await showSettingsDiff(other, entry);
+      }
+    }),
+    withEntry('magicvid2gif.history.deleteOutput', async (entry) => {
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete ${path.basename(entry.outputPath)} and remove it from the history?`,
+        { modal: true },
+        'Delete'
       );
-
-      if (result === 'Open') {
-        await vscode.env.openExternal(vscode.Uri.file(outputPath));
-      } else if (result === 'Folder') {
-        await vscode.commands.executeCommand('revealFileInOS', vscode.Uri.file(outputPath));
-      } else if (result === 'Copy path') {
-        await vscode.env.clipboard.writeText(outputPath);
-        vscode.window.showInformationMessage('✅ Path copied');
+      if (confirm !== 'Delete') {return;}
+      if (fs.existsSync(entry.outputPath)) {
+        fs.unlinkSync(entry.outputPath);
       }
-    } catch (error) {
-      // Cleanup on error
-      if (fs.existsSync(outputPath)) {
-        fs.unlinkSync(outputPath);
+      await history.remove(entry.id);
+      historyView.refresh();
+    }),
+    withEntry('magicvid2gif.history.remove', async (entry) => {
+      await history.remove(entry.id);
+      historyView.refresh();
+    }),
+    vscode.commands.registerCommand('magicvid2gif.history.clear', async () => {
+      const confirm = await vscode.window.showWarningMessage('Clear the conversion history? Output files are kept.', { modal: true }, 'Clear');
+      if (confirm === 'Clear') {
+        await history.clear();
+        historyView.refresh();
       }
-      throw error;
+    })
+  );
+}
+
+async function pickHistoryEntry(placeHolder: string, excludeId?: string): Promise<ConversionResult | undefined> {
+  const entries = history.list().filter(entry => entry.id !== excludeId);
+  if (entries.length === 0) {
+    vscode.window.showInformationMessage('No other conversion in the history');
+    return undefined;
+  }
+  const choice = await vscode.window.showQuickPick(
+    entries.map(entry => ({
+      label: path.basename(entry.outputPath),
+      description: `${entry.sizeMB.toFixed(2)}MB · ${new Date(entry.createdAt).toLocaleString()}`,
+      entry
+    })),
+    { placeHolder }
+  );
+  return choice?.entry;
+}
+
+/**
+ * Opens a markdown table of the options that differ between two conversions
+ */
+async function showSettingsDiff(before: ConversionResult, after: ConversionResult): Promise<void> {
+  const changes = diffOptions(before.options, after.options);
+  const rows = changes.map(change => `| ${change.key} | ${formatOptionValue(change.before)} | ${formatOptionValue(change.after)} |`);
+  const name = (entry: ConversionResult) => `${path.basename(entry.outputPath)} (${new Date(entry.createdAt).toLocaleString()})`;
+  const content = [
+    '# Conversion settings diff',
+    '',
+    `- **Before:** ${name(before)} · ${before.sizeMB.toFixed(2)}MB`,
+    `- **After:** ${name(after)} · ${after.sizeMB.toFixed(2)}MB`,
+    '',
+    ...(rows.length > 0
+      ? ['| Option | Before | After |', '| --- | --- | --- |', ...rows]
+      : ['Both conversions used the same settings.'])
+  ].join('\n');
+
+  const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: `${content}\n` });
+  await vscode.window.showTextDocument(doc);
+}
+
+async function executeBatchConversion(paths: string[], options: ConversionOptions, preset: string): Promise<void> {
+  const files = await collectVideoFiles(paths);
+  if (files.length === 0) {
+    // A folder of exported frames is an image sequence rather than a batch
+    const frames = paths.length === 1 ? await collectSequenceFrames(paths[0]).catch(() => []) : [];
+    if (frames.length > 0) {
+      const choice = await vscode.window.showInformationMessage(
+        `No video found, but ${frames.length} image frames. Convert them as an image sequence?`,
+        'Convert frames'
+      );
+      if (choice === 'Convert frames') {
+        await vscode.commands.executeCommand('magicvid2gif.convertImageSequence', vscode.Uri.file(paths[0]));
+      }
+      return;
+    }
+    vscode.window.showWarningMessage('No supported video found in the selection');
+    return;
+  }
+  // Resolved up front so collisions are settled before anything runs
+  const items: { inputPath: string; outputPath: string }[] = [];
+  const claimed = new Set<string>();
+  try {
+    for (const inputPath of files) {
+      const outputPath = await chooseOutputPath(inputPath, options, preset, inputPath, claimed);
+      if (!outputPath) {continue;}
+      claimed.add(outputPath);
+      items.push({ inputPath, outputPath });
     }
+    if (items.length === 0) {return;}
+
+    await runBatch(items, options);
+  } finally {
+    for (const outputPath of claimed) {
+      pendingOutputs.delete(outputPath);
+    }
+  }
+}
+
+/**
+ * Queues the batch items and shows the aggregated progress, then the summary
+ */
+async function runBatch(items: { inputPath: string; outputPath: string }[], options: ConversionOptions): Promise<void> {
+  const formatInfo = getFormatInfo(options);
+  // The files are jobs of the session queue: the status bar lists them and they share its concurrency
+  const batch = new BatchConverter(
+    (item, signal, onProgress, context) => writeThroughPartial(item.outputPath, partialPath =>
+      pipeline.runWithinBudget(item.inputPath, partialPath, options, onProgress, signal, context)
+    ).then(result => result.size),
+    jobQueue
+  );
+
+  const startTime = Date.now();
+  const summary = await vscode.window.withProgress({
+    location: vscode.ProgressLocation.Notification,
+    title: `🎬 Batch → ${formatInfo.label} (${items.length} files)`,
+    cancellable: true
+  }, async (progress, token) => {
+    token.onCancellationRequested(() => batch.cancelAll());
+
+    let displayedPercent = 0;
+    const onUpdate = (items: BatchItem[]) => {
+      const finished = items.filter(item => !isJobActive(item)).length;
+      const percent = items.reduce((sum, item) => sum + (isJobActive(item) ? item.percent : 100), 0) / items.length;
+      const running = items.filter(item => item.state === 'running' || item.state === 'optimizing').map(item => `${path.basename(item.inputPath)} ${Math.round(item.percent)}%`);
+      const increment = Math.max(0, percent - displayedPercent);
+      displayedPercent += increment;
+      progress.report({ increment, message: `${finished}/${items.length} done${running.length > 0 ? ` · ${running.join(', ')}` : ''}` });
+    };
+
+    return batch.run(items, onUpdate);
   });
+
+  const duration = ((Date.now() - startTime) / 1000).toFixed(1);
+  const message = `Batch finished in ${duration}s: ✅ ${summary.succeeded} succeeded, ❌ ${summary.failed} failed` +
+    (summary.cancelled > 0 ? `, ⏹ ${summary.cancelled} cancelled` : '') +
+    ` | 💾 ${formatMB(summary.bytesSaved)} saved`;
+  const choice = summary.failed > 0
+    ? await vscode.window.showWarningMessage(message, 'Show details')
+    : await vscode.window.showInformationMessage(message, 'Show details');
+
+  if (choice === 'Show details') {
+    const lines = summary.items.map(item => {
+      const name = path.basename(item.inputPath);
+      if (item.state === 'done') {
+        return `- ✅ ${name} → ${path.basename(item.outputPath)} (${formatMB(item.inputSize)} → ${formatMB(item.outputSize ?? 0)})`;
+      }
+      return `- ${item.state === 'failed' ? '❌' : '⏹'} ${name}: ${item.error ?? item.state}`;
+    });
+    const doc = await vscode.workspace.openTextDocument({
+      language: 'markdown',
+      content: `# Batch conversion summary\n\n${message}\n\n${lines.join('\n')}\n`
+    });
+    await vscode.window.showTextDocument(doc);
+  }
 }
 
 export function deactivate(): void {
+  jobQueue?.cancelAll();
   if (converter) {
     converter.destroy();
   }
@@ -4,7 +4,8 @@ import * as https from 'node:https';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { promisify } from 'node:util';
-import { SettingsPort, UiPort, WorkspacePort } from './types/ports';
+import { SILENT_LOG } from './logging';
+import { LogPort, SettingsPort, UiPort, WorkspacePort } from './types/ports';
 const unzipper = require('unzipper');
 
 const execAsync = promisify(exec);
@@ -22,6 +23,7 @@ export class FfmpegManager {
   private readonly ui: UiPort;
   private readonly settings: SettingsPort;
   private readonly workspace: WorkspacePort;
+  private readonly log: LogPort;
   private ffmpegPath: string | null = null;
   private isDownloading: boolean = false;
 
@@ -71,13 +73,14 @@ export class FfmpegManager {
     }
   };
 
-  constructor(deps: { ui: UiPort; settings: SettingsPort; workspace: WorkspacePort }) {
+  constructor(deps: { ui: UiPort; settings: SettingsPort; workspace: WorkspacePort; log?: LogPort }) {
     this.ui = deps.ui;
     this.settings = deps.settings;
     this.workspace = deps.workspace;
+    this.log = deps.log ?? SILENT_LOG;
   }
 
-  public static getInstance(deps: { ui: UiPort; settings: SettingsPort; workspace: WorkspacePort }): FfmpegManager {
+  public static getInstance(deps: { ui: UiPort; settings: SettingsPort; workspace: WorkspacePort; log?: LogPort }): FfmpegManager {
     if (!FfmpegManager.instance) {
       FfmpegManager.instance = new FfmpegManager(deps);
     }
@@ -164,6 +167,7 @@ export class FfmpegManager {
 
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown error';
+      this.log.log('error', `FFmpeg install failed: ${message}`);
       this.ui.error(`❌ FFmpeg install error: ${message}`);
       return false;
     } finally {
@@ -459,7 +463,8 @@ export class FfmpegManager {
       const installed = await this.installOsxArchive(osxArchive, ffmpegDir);
       return installed;
     } catch (err) {
-      console.error('Fallback Apple Silicon install error', err);
+      const message = err instanceof Error ? err.message : String(err);
+      this.log.log('error', `Apple Silicon fallback install failed: ${message}`);
       return false;
     }
   }
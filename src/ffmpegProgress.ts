@@ -0,0 +1,101 @@
+import { ProgressDetails } from './types';
+
+/**
+ * Options that make FFmpeg write `key=value` progress blocks to stderr instead of its status line
+ */
+export const PROGRESS_FLAGS = ['-progress', 'pipe:2', '-nostats'];
+
+/** One block of FFmpeg `-progress` output */
+export interface EncodeProgress {
+  /** Frames written so far */
+  frame: number;
+  /** Output time reached, in seconds */
+  outTime: number;
+  /** Encoding speed relative to real time, e.g. 2.5 for "2.5x"; unset while FFmpeg reports N/A */
+  speed?: number;
+  /** `progress=end`: FFmpeg finished writing */
+  done: boolean;
+}
+
+/**
+ * Collects the `key=value` lines of `-progress` output and reports each block once its
+ * closing `progress=continue|end` line arrives
+ */
+export class ProgressParser {
+  private readonly onReport: (report: EncodeProgress) => void;
+  private values = new Map<string, string>();
+
+  constructor(onReport: (report: EncodeProgress) => void) {
+    this.onReport = onReport;
+  }
+
+  /**
+   * Returns false for lines that are not part of a progress block (warnings, stream info, …)
+   */
+  public push(line: string): boolean {
+    const match = /^([a-z0-9_]+)=\s*(\S*)$/.exec(line.trim());
+    if (!match) {
+      return false;
+    }
+
+    this.values.set(match[1], match[2]);
+    if (match[1] === 'progress') {
+      this.onReport(this.toReport());
+      this.values = new Map();
+    }
+    return true;
+  }
+
+  private toReport(): EncodeProgress {
+    // out_time_ms is in microseconds too (long-standing FFmpeg quirk); out_time_us is the newer name
+    const micros = Number.parseFloat(this.values.get('out_time_us') ?? this.values.get('out_time_ms') ?? '');
+    const speed = Number.parseFloat((this.values.get('speed') ?? '').replace(/x$/, ''));
+    return {
+      frame: Number.parseInt(this.values.get('frame') ?? '0', 10) || 0,
+      outTime: Number.isFinite(micros) && micros > 0 ? micros / 1e6 : timeToSeconds(this.values.get('out_time')),
+      speed: Number.isFinite(speed) && speed > 0 ? speed : undefined,
+      done: this.values.get('progress') === 'end'
+    };
+  }
+}
+
+/**
+ * Share of `outputDuration` reached, 0-100; 0 while the duration is unknown
+ */
+export function progressPercent(report: EncodeProgress, outputDuration: number): number {
+  if (report.done) {return 100;}
+  if (outputDuration <= 0) {return 0;}
+  return Math.min(100, Math.max(0, (report.outTime / outputDuration) * 100));
+}
+
+/**
+ * Seconds left: from the encoding speed when FFmpeg reports it, otherwise from the elapsed time
+ */
+export function estimateRemaining(report: EncodeProgress, outputDuration: number, elapsedSeconds: number): number | undefined {
+  const left = outputDuration - report.outTime;
+  if (outputDuration <= 0 || report.outTime <= 0 || left <= 0) {
+    return report.done ? 0 : undefined;
+  }
+  return report.speed ? left / report.speed : (elapsedSeconds * left) / report.outTime;
+}
+
+/**
+ * e.g. "frame 240/571 · 2.5x · ETA 1m 05s"
+ */
+export function formatProgressDetails(details: ProgressDetails): string {
+  const parts = [details.totalFrames ? `frame ${details.frame}/${details.totalFrames}` : `frame ${details.frame}`];
+  if (details.speed) {
+    parts.push(`${details.speed.toFixed(details.speed < 10 ? 1 : 0)}x`);
+  }
+  if (details.eta !== undefined) {
+    const seconds = Math.ceil(details.eta);
+    parts.push(`ETA ${seconds >= 60 ? `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`}`);
+  }
+  return parts.join(' · ');
+}
+
+function timeToSeconds(time?: string): number {
+  if (!time) {return 0;}
+  const seconds = time.split(':').reduce((total, part) => total * 60 + Number.parseFloat(part), 0);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 0;
+}
@@ -0,0 +1,133 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ConversionPipeline, PipelineProgress } from './conversionPipeline';
+import { formatOptimizeProgress, OptimizationService } from './optimizationService';
+import { VIDEO_EXPORT_FORMATS } from './outputFormats';
+import { writeThroughPartial } from './outputPath';
+import { ConversionOptions, VideoExportFormat } from './types';
+import { VideoConverter } from './videoConverter';
+
+export interface ReoptimizeOptions {
+  colorCount: number;
+  /** Gifsicle --lossy level, 0 = lossless */
+  lossyCompression: number;
+  /** Rebuild the palette with FFmpeg palettegen before the optimizer */
+  repalette: boolean;
+  /** Keep one frame out of `dropFrames` (1 keeps every frame) */
+  dropFrames: number;
+}
+
+export interface SizeChange {
+  before: number;
+  after: number;
+}
+
+/**
+ * Options for running an existing GIF through the conversion pipeline again
+ */
+export function buildReoptimizeOptions(options: ReoptimizeOptions, sourceFps: number): ConversionOptions {
+  const dropFrames = Math.max(1, Math.round(options.dropFrames));
+  return {
+    startTime: 0,
+    duration: 0,
+    resolution: 'original',
+    fps: Number((sourceFps / dropFrames).toFixed(3)),
+    colorCount: options.colorCount,
+    // Anything but 'fast' lets the pipeline run the optimizer afterwards
+    optimizationLevel: 'ultra',
+    dithering: true,
+    lossyCompression: options.lossyCompression,
+    outputFormat: 'gif'
+  };
+}
+
+/**
+ * Post-processing of existing GIFs: shrinking them or turning them into web video
+ */
+export class GifTools {
+  private readonly pipeline: ConversionPipeline;
+  private readonly converter: VideoConverter;
+  private readonly optimizer: OptimizationService;
+
+  constructor(pipeline: ConversionPipeline, converter: VideoConverter, optimizer: OptimizationService) {
+    this.pipeline = pipeline;
+    this.converter = converter;
+    this.optimizer = optimizer;
+  }
+
+  /**
+   * The optimizer alone keeps every frame untouched; re-palette or frame dropping re-encodes with FFmpeg first.
+   * `outputPath` is only replaced once the new GIF is complete.
+   */
+  public async reoptimize(
+    gifPath: string,
+    outputPath: string,
+    options: ReoptimizeOptions,
+    onProgress: PipelineProgress,
+    signal?: AbortSignal
+  ): Promise<SizeChange> {
+    const before = fs.statSync(gifPath).size;
+    // gifski rebuilds the frames at a fixed rate: the source rate keeps the playback speed
+    const source = await this.converter.getVideoInfo(gifPath);
+    const conversion = buildReoptimizeOptions(options, source.fps || 10);
+
+    if (options.repalette || options.dropFrames > 1) {
+      const after = await writeThroughPartial(outputPath, partialPath => this.pipeline.run(gifPath, partialPath, conversion, onProgress, signal));
+      return { before, after };
+    }
+
+    if (!(await this.optimizer.isAvailable())) {
+      throw new Error('No optimizer is enabled in magicvid2gif.optimizers. Enable one or re-palette to optimize with FFmpeg.');
+    }
+    onProgress(10, 'Optimizing...');
+    const optimizedPath = await this.optimizer.optimize(gifPath, conversion, undefined, (percent, estimated) => {
+      onProgress(10 + percent * 0.9, `Optimizing... ${formatOptimizeProgress(percent, estimated)}`);
+    }, signal);
+    if (optimizedPath === gifPath) {
+      throw new Error('No optimizer could optimize this GIF');
+    }
+    await writeThroughPartial(outputPath, async partialPath => moveFile(optimizedPath, partialPath));
+    onProgress(100, 'Done');
+    return { before, after: fs.statSync(outputPath).size };
+  }
+
+  public async toVideo(
+    gifPath: string,
+    outputPath: string,
+    format: VideoExportFormat,
+    onProgress: PipelineProgress,
+    signal?: AbortSignal
+  ): Promise<SizeChange> {
+    const before = fs.statSync(gifPath).size;
+    await writeThroughPartial(outputPath, partialPath => this.converter.exportVideo(gifPath, partialPath, format, (percent) => {
+      onProgress(percent, `Encoding ${VIDEO_EXPORT_FORMATS[format].label}... ${Math.round(percent)}%`);
+    }, signal));
+    return { before, after: fs.statSync(outputPath).size };
+  }
+}
+
+/**
+ * Relative change as shown in result messages, e.g. "-67%"
+ */
+export function formatSizeChange(change: SizeChange): string {
+  if (change.before <= 0) {return '';}
+  const percent = Math.round(((change.after - change.before) / change.before) * 100);
+  return `${percent > 0 ? '+' : ''}${percent}%`;
+}
+
+// Optimizers write to the temp dir, which may live on another device
+function moveFile(from: string, to: string): void {
+  if (path.resolve(from) === path.resolve(to)) {return;}
+  fs.copyFileSync(from, to);
+  fs.unlinkSync(from);
+}
+
+export function getReoptimizedPath(gifPath: string): string {
+  const parsed = path.parse(gifPath);
+  return path.join(parsed.dir, `${parsed.name}_optimized.gif`);
+}
+
+export function getVideoExportPath(gifPath: string, format: VideoExportFormat): string {
+  const parsed = path.parse(gifPath);
+  return path.join(parsed.dir, `${parsed.name}${VIDEO_EXPORT_FORMATS[format].extension}`);
+}
@@ -0,0 +1,67 @@
+import * as crypto from 'node:crypto';
+import { ConversionOptions, ConversionResult } from './types';
+import { SettingsPort, StatePort } from './types/ports';
+
+export const HISTORY_KEY = 'magicvid2gif.history';
+export const DEFAULT_HISTORY_LIMIT = 50;
+
+export interface OptionChange {
+  key: keyof ConversionOptions;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Past conversions, newest first, persisted in global state
+ */
+export class ConversionHistory {
+  private readonly state: StatePort;
+  private readonly settings: SettingsPort;
+
+  constructor(state: StatePort, settings: SettingsPort) {
+    this.state = state;
+    this.settings = settings;
+  }
+
+  public list(): ConversionResult[] {
+    const entries = this.state.get<ConversionResult[]>(HISTORY_KEY, []);
+    return Array.isArray(entries) ? entries : [];
+  }
+
+  public get(id: string): ConversionResult | undefined {
+    return this.list().find(entry => entry.id === id);
+  }
+
+  /**
+   * Records a conversion and drops the oldest entries beyond `magicvid2gif.historyLimit`
+   */
+  public async add(result: Omit<ConversionResult, 'id' | 'createdAt'>): Promise<ConversionResult> {
+    const entry: ConversionResult = { ...result, id: crypto.randomUUID(), createdAt: Date.now() };
+    const limit = Math.max(1, this.settings.get('historyLimit', DEFAULT_HISTORY_LIMIT));
+    await this.state.update(HISTORY_KEY, [entry, ...this.list()].slice(0, limit));
+    return entry;
+  }
+
+  public async remove(id: string): Promise<void> {
+    await this.state.update(HISTORY_KEY, this.list().filter(entry => entry.id !== id));
+  }
+
+  public async clear(): Promise<void> {
+    await this.state.update(HISTORY_KEY, []);
+  }
+}
+
+/**
+ * Options that differ between two conversions, in the order they appear in `before`
+ */
+export function diffOptions(before: ConversionOptions, after: ConversionOptions): OptionChange[] {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])] as (keyof ConversionOptions)[];
+  return keys
+    .filter(key => formatOptionValue(before[key]) !== formatOptionValue(after[key]))
+    .map(key => ({ key, before: before[key], after: after[key] }));
+}
+
+export function formatOptionValue(value: unknown): string {
+  if (value === undefined) {return '—';}
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,138 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { uniqueFileSuffix } from './outputPath';
+import { FrameFit, VideoMetadata } from './types';
+
+export const IMAGE_SEQUENCE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp'];
+export const SEQUENCE_LIST_EXTENSION = '.ffconcat';
+
+// Written as a comment in the list so the converter can read the sequence back without probing it
+const HEADER_PATTERN = /^# magicvid2gif fps=([\d.]+) size=(\d+)x(\d+) frames=(\d+)$/m;
+
+export interface ImageSequence {
+  frames: string[];
+  fps: number;
+  /** Canvas every frame is fitted to (the size of the first frame) */
+  width: number;
+  height: number;
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Orders `frame2.png` before `frame10.png`
+ */
+export function naturalCompare(a: string, b: string): number {
+  return collator.compare(a, b);
+}
+
+export function isGlobPattern(target: string): boolean {
+  return /[*?[]/.test(target);
+}
+
+export function isSequenceList(inputPath: string): boolean {
+  return path.extname(inputPath).toLowerCase() === SEQUENCE_LIST_EXTENSION;
+}
+
+/**
+ * Lists the frames of a folder, or of a glob whose wildcards are in the file name
+ * (e.g. `export/shot_*.png`), in natural order
+ */
+export async function collectSequenceFrames(target: string): Promise<string[]> {
+  let dir = target;
+  let matches = (name: string) => IMAGE_SEQUENCE_EXTENSIONS.includes(path.extname(name).toLowerCase());
+
+  if (isGlobPattern(target)) {
+    dir = path.dirname(target);
+    if (isGlobPattern(dir)) {
+      throw new Error(`Wildcards are only supported in the file name: ${target}`);
+    }
+    const pattern = globToRegExp(path.basename(target));
+    const isImage = matches;
+    matches = (name: string) => isImage(name) && pattern.test(name);
+  }
+
+  const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile() && matches(entry.name))
+    .map(entry => entry.name)
+    .sort(naturalCompare)
+    .map(name => path.join(dir, name));
+}
+
+/**
+ * Path whose name is used for the output: the folder itself, or the glob without its wildcards
+ */
+export function getSequenceBasePath(target: string): string {
+  if (!isGlobPattern(target)) {
+    return target.replace(/[\\/]+$/, '');
+  }
+  const dir = path.dirname(target);
+  const stem = path.parse(path.basename(target)).name.replace(/[*?]|\[[^\]]*\]/g, '').replace(/[-_.\s]+$/, '');
+  return stem ? path.join(dir, stem) : dir;
+}
+
+/**
+ * FFmpeg concat demuxer script showing each frame for 1/fps seconds
+ */
+export function buildSequenceList(sequence: ImageSequence): string {
+  const duration = 1 / sequence.fps;
+  const lines = [
+    'ffconcat version 1.0',
+    `# magicvid2gif fps=${sequence.fps} size=${sequence.width}x${sequence.height} frames=${sequence.frames.length}`
+  ];
+  for (const frame of sequence.frames) {
+    lines.push(`file ${quote(frame)}`, `duration ${duration}`);
+  }
+  // The demuxer ignores the duration of the last entry unless the file is repeated
+  lines.push(`file ${quote(sequence.frames[sequence.frames.length - 1])}`);
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Metadata of a sequence list written by buildSequenceList; null for other inputs
+ */
+export function readSequenceInfo(listPath: string): VideoMetadata | null {
+  if (!isSequenceList(listPath)) {return null;}
+  const match = HEADER_PATTERN.exec(fs.readFileSync(listPath, 'utf8'));
+  if (!match) {return null;}
+
+  const fps = Number.parseFloat(match[1]);
+  const frames = Number.parseInt(match[4], 10);
+  return {
+    duration: frames / fps,
+    width: Number.parseInt(match[2], 10),
+    height: Number.parseInt(match[3], 10),
+    fps
+  };
+}
+
+export async function writeSequenceList(sequence: ImageSequence, dir: string): Promise<string> {
+  const listPath = path.join(dir, `magicvid2gif-sequence-${uniqueFileSuffix()}${SEQUENCE_LIST_EXTENSION}`);
+  await fs.promises.writeFile(listPath, buildSequenceList(sequence));
+  return listPath;
+}
+
+/**
+ * Brings every frame to the canvas size. The scaler reconfigures itself when the input size
+ * changes, so frames of another size never reach the rest of the graph.
+ */
+export function buildFrameFitFilter(canvas: Pick<VideoMetadata, 'width' | 'height'>, fit: FrameFit = 'pad'): string {
+  const { width, height } = canvas;
+  if (fit === 'scale') {
+    return `scale=${width}:${height}:flags=lanczos,setsar=1`;
+  }
+  return `scale=${width}:${height}:force_original_aspect_ratio=decrease:flags=lanczos,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1`;
+}
+
+/**
+ * Single-quoted concat script path; a quote inside is closed, escaped and reopened
+ */
+function quote(filePath: string): string {
+  return `'${filePath.replace(/'/g, "'\\''")}'`;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.replace(/[.+^${}()|\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${source}$`, process.platform === 'win32' ? 'i' : '');
+}
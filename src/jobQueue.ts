@@ -0,0 +1,309 @@
+import * as fs from 'node:fs';
+import { formatMB } from './conversionPipeline';
+import { SILENT_LOG } from './logging';
+import { LogLevel, LogPort } from './types/ports';
+
+export type JobState = 'queued' | 'running' | 'optimizing' | 'done' | 'failed' | 'cancelled';
+
+// Finished jobs kept for retry and logs
+export const MAX_FINISHED_JOBS = 50;
+const MAX_LOG_LINES = 500;
+
+export interface Job {
+  readonly id: number;
+  label: string;
+  inputPath: string;
+  outputPath: string;
+  state: JobState;
+  percent: number;
+  /** Latest progress message */
+  message?: string;
+  /** FFmpeg and Gifsicle command lines and output, oldest first */
+  logs: string[];
+  inputSize: number;
+  outputSize?: number;
+  error?: string;
+  /** Shared by the jobs of one batch */
+  group?: number;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  progress(percent: number, message?: string): void;
+  /** Kept with the job and forwarded to the log port, at `debug` unless told otherwise */
+  log(line: string, level?: LogLevel): void;
+  /** Switches between `running` (FFmpeg) and `optimizing` (post-processing optimizer) */
+  phase(phase: 'converting' | 'optimizing'): void;
+}
+
+/**
+ * Runs one job and resolves with the output size in bytes
+ */
+export type JobWorker = (job: Job, context: JobContext) => Promise<number>;
+
+export interface JobSpec {
+  label: string;
+  inputPath: string;
+  outputPath: string;
+  group?: number;
+  run: JobWorker;
+}
+
+export function isJobActive(job: Job): boolean {
+  return job.state === 'queued' || job.state === 'running' || job.state === 'optimizing';
+}
+
+/**
+ * One-line state for pickers and tooltips, e.g. "42% · Attempt 1/4..." or "done, 1.20MB"
+ */
+export function describeJob(job: Job): string {
+  switch (job.state) {
+    case 'queued':
+      return 'queued';
+    case 'running':
+      return `${Math.round(job.percent)}%${job.message ? ` · ${job.message}` : ''}`;
+    case 'optimizing':
+      return `${Math.round(job.percent)}% · optimizing`;
+    case 'done':
+      return `done, ${formatMB(job.outputSize ?? 0)}`;
+    default:
+      return `${job.state}${job.error ? `: ${job.error}` : ''}`;
+  }
+}
+
+/**
+ * Conversions of the whole session, started in queue order with bounded concurrency.
+ * Every job gets its own AbortController, so cancelling one never touches the others.
+ */
+export class JobQueue {
+  private readonly workers = new Map<Job, JobWorker>();
+  private readonly controllers = new Map<Job, AbortController>();
+  private readonly waiters = new Map<Job, (() => void)[]>();
+  private readonly listeners = new Set<(jobs: Job[]) => void>();
+  private readonly log: LogPort;
+  private jobs: Job[] = [];
+  private concurrency: number;
+  private nextId = 1;
+  private nextGroup = 1;
+
+  constructor(concurrency: number, log: LogPort = SILENT_LOG) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.log = log;
+  }
+
+  public setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  /**
+   * Id for jobs added together, e.g. the files of a batch
+   */
+  public createGroup(): number {
+    return this.nextGroup++;
+  }
+
+  public add(spec: JobSpec): Job {
+    const job: Job = {
+      id: this.nextId++,
+      label: spec.label,
+      inputPath: spec.inputPath,
+      outputPath: spec.outputPath,
+      state: 'queued',
+      percent: 0,
+      logs: [],
+      inputSize: safeSize(spec.inputPath),
+      group: spec.group
+    };
+    this.workers.set(job, spec.run);
+    this.jobs.push(job);
+    this.prune();
+    this.changed();
+    this.pump();
+    return job;
+  }
+
+  /**
+   * Running jobs first, then the queue in start order, then finished jobs
+   */
+  public list(): Job[] {
+    const rank = (job: Job) => (job.state === 'queued' ? 1 : isJobActive(job) ? 0 : 2);
+    return [...this.jobs].sort((a, b) => rank(a) - rank(b));
+  }
+
+  public get(id: number): Job | undefined {
+    return this.jobs.find(job => job.id === id);
+  }
+
+  public getActive(): Job[] {
+    return this.list().filter(isJobActive);
+  }
+
+  /**
+   * Resolves once the job is done, failed or cancelled
+   */
+  public wait(job: Job): Promise<Job> {
+    if (!isJobActive(job)) {
+      return Promise.resolve(job);
+    }
+    return new Promise(resolve => {
+      this.waiters.set(job, [...(this.waiters.get(job) ?? []), () => resolve(job)]);
+    });
+  }
+
+  public cancel(job: Job): void {
+    if (job.state === 'queued') {
+      job.state = 'cancelled';
+      job.error = 'Cancelled before it started';
+      this.finish(job);
+      return;
+    }
+    this.controllers.get(job)?.abort();
+  }
+
+  public cancelAll(): void {
+    for (const job of this.getActive()) {
+      this.cancel(job);
+    }
+  }
+
+  /**
+   * Queues a failed or cancelled job again, with the same worker and output
+   */
+  public retry(job: Job): void {
+    if (isJobActive(job) || job.state === 'done' || !this.workers.has(job)) {return;}
+    Object.assign(job, { state: 'queued', percent: 0, message: undefined, error: undefined, outputSize: undefined });
+    job.logs.push('--- retry ---');
+    // Behind the jobs already waiting
+    this.jobs = [...this.jobs.filter(other => other !== job), job];
+    this.changed();
+    this.pump();
+  }
+
+  /**
+   * Reorders a queued job among the other queued jobs
+   */
+  public move(job: Job, where: 'first' | 'up' | 'down'): void {
+    if (job.state !== 'queued') {return;}
+    const queued = this.jobs.filter(other => other.state === 'queued');
+    const index = queued.indexOf(job);
+    const target = where === 'first' ? 0 : where === 'up' ? Math.max(0, index - 1) : Math.min(queued.length - 1, index + 1);
+    queued.splice(index, 1);
+    queued.splice(target, 0, job);
+    this.jobs = [...this.jobs.filter(other => other.state !== 'queued'), ...queued];
+    this.changed();
+  }
+
+  public clearFinished(): void {
+    for (const job of this.jobs.filter(other => !isJobActive(other))) {
+      this.workers.delete(job);
+    }
+    this.jobs = this.jobs.filter(isJobActive);
+    this.changed();
+  }
+
+  /**
+   * Called with every job on each change; returns the unsubscribe function
+   */
+  public onDidChange(listener: (jobs: Job[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private pump(): void {
+    let running = this.jobs.filter(job => job.state === 'running' || job.state === 'optimizing').length;
+    for (const job of this.jobs) {
+      if (running >= this.concurrency) {break;}
+      if (job.state === 'queued') {
+        running++;
+        void this.start(job);
+      }
+    }
+  }
+
+  private async start(job: Job): Promise<void> {
+    const controller = new AbortController();
+    const worker = this.workers.get(job);
+    this.controllers.set(job, controller);
+    job.state = 'running';
+    this.changed();
+    this.log.log('info', `[#${job.id}] ${job.inputPath} → ${job.outputPath}`);
+
+    const context: JobContext = {
+      signal: controller.signal,
+      progress: (percent, message) => {
+        job.percent = Math.min(100, Math.max(job.percent, percent));
+        job.message = message ?? job.message;
+        this.changed();
+      },
+      log: (line, level = 'debug') => {
+        this.log.log(level, `[#${job.id}] ${line}`);
+        job.logs.push(line);
+        if (job.logs.length > MAX_LOG_LINES) {
+          job.logs.splice(0, job.logs.length - MAX_LOG_LINES);
+        }
+      },
+      phase: (phase) => {
+        if (!controller.signal.aborted) {
+          job.state = phase === 'optimizing' ? 'optimizing' : 'running';
+          this.changed();
+        }
+      }
+    };
+
+    try {
+      if (!worker) {
+        throw new Error('Job has no worker');
+      }
+      const outputSize = await worker(job, context);
+      // A step that ignored the signal (e.g. the optimizer) must not report a cancelled job as done
+      if (controller.signal.aborted) {
+        throw new Error('Conversion cancelled by user');
+      }
+      job.outputSize = outputSize;
+      job.state = 'done';
+      job.percent = 100;
+      this.log.log('info', `[#${job.id}] ${describeJob(job)}`);
+    } catch (error) {
+      job.state = controller.signal.aborted ? 'cancelled' : 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+      job.logs.push(`Error: ${job.error}`);
+      this.log.log(job.state === 'failed' ? 'error' : 'info', `[#${job.id}] ${describeJob(job)}`);
+    } finally {
+      this.controllers.delete(job);
+      this.finish(job);
+      this.pump();
+    }
+  }
+
+  private finish(job: Job): void {
+    this.changed();
+    for (const resolve of this.waiters.get(job) ?? []) {
+      resolve();
+    }
+    this.waiters.delete(job);
+  }
+
+  private prune(): void {
+    const finished = this.jobs.filter(job => !isJobActive(job));
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.workers.delete(job);
+      this.jobs = this.jobs.filter(other => other !== job);
+    }
+  }
+
+  private changed(): void {
+    const jobs = this.list();
+    for (const listener of this.listeners) {
+      listener(jobs);
+    }
+  }
+}
+
+function safeSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,22 @@
+import { LogLevel, LogPort } from './types/ports';
+
+/** Most severe first: a threshold keeps its own level and the ones before it */
+export const LOG_LEVELS: LogLevel[] = ['error', 'warn', 'info', 'debug'];
+
+/** Log of the services created without one, e.g. in tests */
+export const SILENT_LOG: LogPort = { log: () => undefined };
+
+export function parseLogLevel(value: unknown, fallback: LogLevel = 'info'): LogLevel {
+  return LOG_LEVELS.includes(value as LogLevel) ? value as LogLevel : fallback;
+}
+
+export function isLevelEnabled(level: LogLevel, threshold: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(threshold);
+}
+
+/**
+ * `[2026-10-19T14:32:05.123Z] [info] message`; continuation lines are indented under it
+ */
+export function formatLogLine(level: LogLevel, message: string, date = new Date()): string {
+  return `[${date.toISOString()}] [${level}] ${message.replace(/\r?\n/g, '\n    ')}`;
+}
@@ -0,0 +1,151 @@
+import { getDisplaySize, isAnamorphic } from './sourceCorrection';
+import { AudioStreamInfo, VideoMetadata } from './types';
+
+// Sources longer than this make very large GIFs unless trimmed
+export const LONG_DURATION_SECONDS = 60;
+// Transfer characteristics of PQ (HDR10/Dolby Vision) and HLG
+const HDR_TRANSFERS = ['smpte2084', 'arib-std-b67'];
+
+/** Subset of fluent-ffmpeg's FfprobeData that the parser reads */
+export interface ProbeData {
+  streams: Record<string, any>[];
+  format: Record<string, any>;
+}
+
+export interface MediaWarning {
+  severity: 'warning' | 'info';
+  message: string;
+}
+
+/**
+ * Builds VideoMetadata from ffprobe output; throws when there is no video stream
+ */
+export function parseVideoMetadata(data: ProbeData): VideoMetadata {
+  const video = data.streams.find(stream => stream.codec_type === 'video');
+  if (!video) {
+    throw new Error('No video stream found');
+  }
+
+  const realFps = parseRate(video.r_frame_rate);
+  const averageFps = parseRate(video.avg_frame_rate);
+  const transfer = text(video.color_transfer);
+  const primaries = text(video.color_primaries);
+  const coded = { width: toNumber(video.width) ?? 0, height: toNumber(video.height) ?? 0 };
+  const rotation = parseRotation(video);
+  const sampleAspectRatio = parseAspectRatio(video.sample_aspect_ratio);
+
+  return {
+    duration: toNumber(data.format.duration) ?? toNumber(video.duration) ?? 0,
+    ...getDisplaySize(coded, rotation, sampleAspectRatio),
+    fps: realFps ?? averageFps ?? 30,
+    codedWidth: coded.width,
+    codedHeight: coded.height,
+    sampleAspectRatio,
+    displayAspectRatio: parseAspectRatio(video.display_aspect_ratio) ? video.display_aspect_ratio : undefined,
+    codec: text(video.codec_name),
+    pixelFormat: text(video.pix_fmt),
+    rotation,
+    bitRate: toNumber(video.bit_rate) ?? toNumber(data.format.bit_rate),
+    // The nominal rate differs from the average when frame durations vary
+    variableFrameRate: realFps !== undefined && averageFps !== undefined && Math.abs(realFps - averageFps) / realFps > 0.01,
+    frameCount: toNumber(video.nb_frames),
+    colorSpace: text(video.color_space),
+    colorTransfer: transfer,
+    colorPrimaries: primaries,
+    hdr: (transfer !== undefined && HDR_TRANSFERS.includes(transfer)) || primaries === 'bt2020',
+    container: text(data.format.format_long_name) ?? text(data.format.format_name),
+    audioStreams: data.streams
+      .filter(stream => stream.codec_type === 'audio')
+      .map((stream): AudioStreamInfo => ({
+        codec: text(stream.codec_name) ?? 'unknown',
+        channels: toNumber(stream.channels) ?? 0,
+        sampleRate: toNumber(stream.sample_rate) ?? 0,
+        language: text(stream.tags?.language)
+      }))
+  };
+}
+
+/**
+ * Source properties that affect the GIF result, most important first
+ */
+export function getConversionWarnings(metadata: VideoMetadata): MediaWarning[] {
+  const warnings: MediaWarning[] = [];
+
+  if (metadata.hdr) {
+    warnings.push({ severity: 'warning', message: `HDR video (${metadata.colorTransfer ?? metadata.colorPrimaries}): tone mapped to SDR, so colours and highlights will differ from the original` });
+  }
+  if (metadata.rotation) {
+    warnings.push({ severity: 'info', message: `Rotated ${metadata.rotation}° by metadata: frames are turned upright before scaling` });
+  }
+  if (isAnamorphic(metadata)) {
+    warnings.push({ severity: 'info', message: `Non-square pixels (SAR ${metadata.sampleAspectRatio?.toFixed(3)}): stretched to ${metadata.width}x${metadata.height}` });
+  }
+  if (metadata.variableFrameRate) {
+    warnings.push({ severity: 'warning', message: 'Variable frame rate (typical of phone and screen recordings): frames are resampled to a constant rate, so motion may stutter' });
+  }
+  if (metadata.duration > LONG_DURATION_SECONDS) {
+    warnings.push({ severity: 'warning', message: `Long video (${formatDuration(metadata.duration)}): trim it or set a size budget to keep the GIF small` });
+  }
+  if (metadata.width * metadata.height > 1920 * 1080) {
+    warnings.push({ severity: 'info', message: `${metadata.width}x${metadata.height} source: scaling down is recommended for GIF` });
+  }
+  if (metadata.audioStreams && metadata.audioStreams.length > 0) {
+    warnings.push({ severity: 'info', message: 'Audio is dropped: animated images have no sound' });
+  }
+
+  return warnings;
+}
+
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return minutes > 0 ? `${minutes}m ${rest.toFixed(0).padStart(2, '0')}s` : `${rest.toFixed(1)}s`;
+}
+
+export function formatBitRate(bitsPerSecond: number | undefined): string {
+  if (!bitsPerSecond) {return 'unknown';}
+  return bitsPerSecond >= 1e6 ? `${(bitsPerSecond / 1e6).toFixed(1)} Mb/s` : `${Math.round(bitsPerSecond / 1e3)} kb/s`;
+}
+
+/**
+ * Clockwise display rotation in degrees. Newer FFmpeg reports a display matrix (counter-clockwise),
+ * older versions a `rotate` tag (clockwise).
+ */
+function parseRotation(video: Record<string, any>): number {
+  const sideData = Array.isArray(video.side_data_list)
+    ? video.side_data_list.find((entry: Record<string, any>) => entry.rotation !== undefined)
+    : undefined;
+  const matrix = toNumber(sideData?.rotation) ?? toNumber(video.rotation);
+  const degrees = matrix !== undefined ? -matrix : toNumber(video.tags?.rotate) ?? 0;
+  return ((Math.round(degrees / 90) * 90) % 360 + 360) % 360;
+}
+
+/**
+ * Parses an ffprobe aspect ratio such as "64:45"; undefined for "0:1" (unknown) or missing values
+ */
+function parseAspectRatio(value: unknown): number | undefined {
+  if (typeof value !== 'string') {return undefined;}
+  const [num, den] = value.split(':').map(Number);
+  const ratio = num / den;
+  return Number.isFinite(ratio) && ratio > 0 ? ratio : undefined;
+}
+
+/**
+ * Parses an ffprobe rate such as "30000/1001"; undefined for "0/0" or missing values
+ */
+function parseRate(value: unknown): number | undefined {
+  if (typeof value !== 'string') {return undefined;}
+  const [num, den] = value.split('/').map(Number);
+  const rate = den ? num / den : num;
+  return Number.isFinite(rate) && rate > 0 ? rate : undefined;
+}
+
+// ffprobe prints "N/A" and "unknown" for missing values
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'number' ? value : Number.parseFloat(String(value));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function text(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' && value !== 'N/A' && value !== 'unknown' ? value : undefined;
+}
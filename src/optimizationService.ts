@@ -3,100 +3,175 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { promisify } from 'node:util';
+import { SILENT_LOG } from './logging';
+import {
+  CommandRunner,
+  FrameDiffOptimizer,
+  GifOptimizer,
+  GifsicleOptimizer,
+  GifskiOptimizer,
+  OPTIMIZER_IDS,
+  OptimizerId,
+  parseGif
+} from './optimizers';
+import { uniqueFileSuffix } from './outputPath';
 import { ConversionOptions } from './types';
-import { SettingsPort } from './types/ports';
+import { LogLevel, LogPort, SettingsPort } from './types/ports';
 
 const execFileAsync = promisify(execFile);
 
+// Rough throughput of the native tools; --lossy and gifski are several times slower
+const OPTIMIZE_BYTES_PER_SECOND = 4 * 1024 * 1024;
+const SLOW_BYTES_PER_SECOND = 1024 * 1024;
+const PROGRESS_INTERVAL_MS = 250;
+
+/**
+ * Native tools print no progress, so their phase follows the elapsed time against the time
+ * expected for the file size: linear to 90% at the expected time, then slower and slower so a
+ * long run keeps moving without reaching 100% before the tool exits
+ */
+export function estimateOptimizeProgress(elapsedMs: number, inputBytes: number, slow: boolean): number {
+  const expectedMs = Math.max(500, (inputBytes / (slow ? SLOW_BYTES_PER_SECOND : OPTIMIZE_BYTES_PER_SECOND)) * 1000);
+  const ratio = Math.max(0, elapsedMs) / expectedMs;
+  return ratio <= 1 ? ratio * 90 : 90 + 9 * (1 - Math.exp(1 - ratio));
+}
+
+/**
+ * e.g. "42%", or "42% (estimated)" while a native tool runs
+ */
+export function formatOptimizeProgress(percent: number, estimated: boolean): string {
+  return `${Math.round(percent)}%${estimated ? ' (estimated)' : ''}`;
+}
+
+/**
+ * Backends of `magicvid2gif.optimizers`, in the order they are tried; unknown names and
+ * duplicates are dropped, and an empty list turns post-processing off
+ */
+export function getOptimizerOrder(settings: SettingsPort): OptimizerId[] {
+  const order = settings.get<unknown>('optimizers', OPTIMIZER_IDS);
+  if (!Array.isArray(order)) {
+    return [...OPTIMIZER_IDS];
+  }
+  return order.filter((id, index): id is OptimizerId => OPTIMIZER_IDS.includes(id) && order.indexOf(id) === index);
+}
+
+/**
+ * Post-processing of finished GIFs: the first available backend of `magicvid2gif.optimizers`
+ * runs, and the next one takes over when it fails
+ */
 export class OptimizationService {
   private readonly settings: SettingsPort;
-  private gifsiclePath: string | null = null;
+  private readonly log: LogPort;
+  private readonly gifsicle: GifsicleOptimizer;
+  private readonly backends: Map<OptimizerId, GifOptimizer>;
 
-  constructor(settings: SettingsPort) {
+  constructor(settings: SettingsPort, log: LogPort = SILENT_LOG, backends?: GifOptimizer[]) {
     this.settings = settings;
+    this.log = log;
+    const run: CommandRunner = (file, args, signal) => (signal ? execFileAsync(file, args, { signal }) : execFileAsync(file, args));
+    this.gifsicle = new GifsicleOptimizer(settings, run, log);
+    const all = backends ?? [this.gifsicle, new GifskiOptimizer(settings, run, log), new FrameDiffOptimizer()];
+    this.backends = new Map(all.map(backend => [backend.id, backend]));
   }
 
   public async checkGifsicle(): Promise<boolean> {
-    const customPath = this.settings.get<string | undefined>('gifsiclePath', undefined);
+    return this.gifsicle.isAvailable();
+  }
 
-    if (customPath && fs.existsSync(customPath)) {
-      this.gifsiclePath = customPath;
-      return true;
+  /**
+   * Installed backends, in the configured order
+   */
+  public async getAvailable(): Promise<GifOptimizer[]> {
+    const available: GifOptimizer[] = [];
+    for (const id of getOptimizerOrder(this.settings)) {
+      const backend = this.backends.get(id);
+      if (backend && (await backend.isAvailable())) {
+        available.push(backend);
+      }
     }
+    return available;
+  }
 
-    try {
-      await execFileAsync('gifsicle', ['--version']);
-      this.gifsiclePath = 'gifsicle';
-      return true;
-    } catch (error) {
-      console.error(`Gifsicle not found in PATH : ${error}`);
-      return false;
-    }
+  public async isAvailable(): Promise<boolean> {
+    return (await this.getAvailable()).length > 0;
   }
 
-  public async optimize(inputPath: string, options: ConversionOptions): Promise<string> {
-    if (!this.gifsiclePath) {
-      await this.checkGifsicle();
+  /**
+   * Version of every backend, e.g. { gifsicle: "LCDF Gifsicle 1.94", gifski: "missing", … }
+   */
+  public async getVersions(): Promise<Record<string, string>> {
+    const versions: Record<string, string> = {};
+    for (const backend of this.backends.values()) {
+      versions[backend.id] = (await backend.getVersion()) ?? 'missing';
     }
+    return versions;
+  }
 
-    if (!this.gifsiclePath) {
-        throw new Error('Gifsicle not available');
+  /**
+   * Resolves with a temporary file holding the optimized GIF, or `inputPath` when every backend
+   * failed. `onLog` receives the command lines and errors of this run; they go to the log port
+   * otherwise. `onProgress` gets the 0-100 share of the run; `estimated` is set while it comes from
+   * the elapsed time, as native tools print no progress. Aborting `signal` stops the running backend
+   * and rejects instead of trying the next one.
+   */
+  public async optimize(
+    inputPath: string,
+    options: ConversionOptions,
+    onLog?: (line: string, level: LogLevel) => void,
+    onProgress?: (percent: number, estimated: boolean) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const backends = await this.getAvailable();
+    if (backends.length === 0) {
+      throw new Error('No GIF optimizer available');
     }
-    const gifsiclePath = this.gifsiclePath;
-
-    const tempPath = path.join(os.tmpdir(), `optimized_${Date.now()}.gif`);
-
-      // Build Gifsicle command
-    const args: string[] = [
-      '--optimize=3',
-      `--colors=${options.colorCount}`,
-      ...(options.lossyCompression > 0 ? [`--lossy=${options.lossyCompression}`] : []),
-      '--no-warnings',
-      '--no-interlace',
-      '--careful',
-      '-o',
-      tempPath,
-      inputPath
-    ];
 
-    try {
-      await execFileAsync(gifsiclePath, args);
-      return tempPath;
-    } catch (error) {
-        console.error(`Gifsicle error: ${error}`);
-      // If optimization fails, return the original path
-      return inputPath;
+    const log = onLog ?? ((line: string, level: LogLevel) => this.log.log(level, line));
+    const inputBytes = fs.statSync(inputPath).size;
+
+    for (const backend of backends) {
+      const tempPath = path.join(os.tmpdir(), `optimized_${uniqueFileSuffix()}.gif`);
+      const started = Date.now();
+      const slow = backend.id === 'gifski' || options.lossyCompression > 0;
+      const timer = onProgress && !backend.reportsProgress
+        ? setInterval(() => onProgress(estimateOptimizeProgress(Date.now() - started, inputBytes, slow), true), PROGRESS_INTERVAL_MS)
+        : undefined;
+
+      try {
+        await backend.optimize(inputPath, tempPath, options, { log, progress: percent => onProgress?.(percent, false), signal });
+        if (signal?.aborted) {
+          throw new Error('Conversion cancelled by user');
+        }
+        onProgress?.(100, false);
+        return tempPath;
+      } catch (error) {
+        fs.rmSync(tempPath, { force: true });
+        if (signal?.aborted) {
+          throw new Error('Conversion cancelled by user');
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        log(`${backend.label} error: ${message}`, 'warn');
+      } finally {
+        clearInterval(timer);
+      }
     }
+
+    log('Every optimizer failed, keeping the unoptimized file', 'warn');
+    return inputPath;
   }
 
   public async getGifInfo(gifPath: string): Promise<{ size: number; frames: number }> {
-    if (!this.gifsiclePath) {
-      await this.checkGifsicle();
-    }
-
-    if (!this.gifsiclePath) {
-        throw new Error('Gifsicle not available');
-    }
-    const gifsiclePath = this.gifsiclePath;
-
+    const size = fs.statSync(gifPath).size;
     try {
-      const stats = fs.statSync(gifPath);
-
-        // Count frames with gifsicle
-      const { stdout } = await execFileAsync(gifsiclePath, ['--info', gifPath]);
-      const frameMatch = new RegExp(/(\d+) images/).exec(stdout);
-      const frames = frameMatch ? Number.parseInt(frameMatch[1], 10) : 0;
-
-      return {
-        size: stats.size,
-        frames: frames
-      };
+      // Without Gifsicle the built-in reader counts the frames
+      const frames = await this.gifsicle.isAvailable()
+        ? await this.gifsicle.countFrames(gifPath)
+        : parseGif(fs.readFileSync(gifPath)).frames.length;
+      return { size, frames };
     } catch (error) {
-      console.error(`Gifsicle info error: ${error}`);
-      return {
-        size: fs.statSync(gifPath).size,
-        frames: 0
-      };
+      const message = error instanceof Error ? error.message : String(error);
+      this.log.log('warn', `GIF info error: ${message}`);
+      return { size, frames: 0 };
     }
   }
 }
@@ -0,0 +1,138 @@
+import * as fs from 'node:fs';
+import { ConversionOptions } from '../types';
+import { GifFrameOutput, GifWriter, parseGif, renderFrames } from './gifCodec';
+import { GifOptimizer, OptimizerRun } from './types';
+
+// Palette slot of the pixels left as they were in the previous frame
+const UNCHANGED = 0;
+
+/**
+ * Rewrites an animation so each frame only stores the rectangle that changed, with unchanged
+ * pixels inside it transparent, and merges identical frames into one longer frame.
+ * Resolves with the new file, or null when it would not be smaller.
+ */
+export async function optimizeFrameDiff(
+  input: Uint8Array,
+  onProgress?: (percent: number) => void,
+  signal?: AbortSignal
+): Promise<Buffer | null> {
+  const gif = parseGif(input);
+  const { width, height } = gif;
+  const writer = new GifWriter(width, height, gif.loopCount);
+  // What a viewer shows after the frames written so far
+  const shown = new Uint32Array(width * height);
+  let pending: GifFrameOutput | null = null;
+
+  for (const { canvas, frame, index } of renderFrames(gif)) {
+    if (signal?.aborted) {
+      throw new Error('Conversion cancelled by user');
+    }
+    const rect = changedRect(canvas, shown, width, height);
+    if (!rect && pending) {
+      pending.delay += frame.delay;
+    } else {
+      if (pending) {writer.addFrame(pending);}
+      pending = encodeRect(canvas, shown, width, rect ?? { left: 0, top: 0, width: 1, height: 1 }, frame.delay);
+      shown.set(canvas);
+    }
+
+    onProgress?.(((index + 1) / gif.frames.length) * 100);
+    // Large files take a while: let progress and cancellation through
+    await new Promise(resolve => setImmediate(resolve));
+  }
+  if (pending) {writer.addFrame(pending);}
+
+  const output = writer.toBuffer();
+  return output.length < input.length ? output : null;
+}
+
+/**
+ * Built-in backend: always available, no native tool
+ */
+export class FrameDiffOptimizer implements GifOptimizer {
+  public readonly id = 'js';
+  public readonly label = 'Built-in (frame diff)';
+  public readonly reportsProgress = true;
+
+  public async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  public async getVersion(): Promise<string | null> {
+    return 'built-in';
+  }
+
+  public async optimize(inputPath: string, outputPath: string, _options: ConversionOptions, run: OptimizerRun): Promise<void> {
+    const input = fs.readFileSync(inputPath);
+    run.log(`Frame diff optimization of ${inputPath}`, 'info');
+    const output = await optimizeFrameDiff(input, run.progress, run.signal);
+    if (!output) {
+      run.log('Frame diff would not make the file smaller; keeping it as is', 'info');
+    }
+    fs.writeFileSync(outputPath, output ?? input);
+  }
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bounding box of the pixels that differ from what is shown; null when nothing changed
+ */
+function changedRect(canvas: Uint32Array, shown: Uint32Array, width: number, height: number): Rect | null {
+  let top = height;
+  let bottom = -1;
+  let left = width;
+  let right = -1;
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (canvas[row + x] !== shown[row + x]) {
+        top = Math.min(top, y);
+        bottom = y;
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+      }
+    }
+  }
+  return bottom < 0 ? null : { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+function encodeRect(canvas: Uint32Array, shown: Uint32Array, width: number, rect: Rect, delay: number): GifFrameOutput {
+  const colors = new Map<number, number>();
+  const indices = new Uint8Array(rect.width * rect.height);
+
+  for (let y = 0; y < rect.height; y++) {
+    for (let x = 0; x < rect.width; x++) {
+      const position = (rect.top + y) * width + rect.left + x;
+      const color = canvas[position];
+      if (color === shown[position]) {
+        indices[y * rect.width + x] = UNCHANGED;
+        continue;
+      }
+      // Frames only draw over the previous one, so a pixel cannot turn transparent again
+      if (color === 0) {
+        throw new Error('Animations that clear pixels back to transparent are not supported');
+      }
+      let index = colors.get(color);
+      if (index === undefined) {
+        index = colors.size + 1;
+        if (index > 255) {
+          throw new Error('Frame uses more than 255 colors');
+        }
+        colors.set(color, index);
+      }
+      indices[y * rect.width + x] = index;
+    }
+  }
+
+  const palette = new Uint8Array(3 * (colors.size + 1));
+  for (const [color, index] of colors) {
+    palette.set([color & 0xff, (color >>> 8) & 0xff, (color >>> 16) & 0xff], index * 3);
+  }
+  return { ...rect, palette, indices, delay, disposal: 1, transparentIndex: UNCHANGED };
+}
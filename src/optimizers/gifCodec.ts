@@ -0,0 +1,401 @@
+// Minimal GIF89a reader and writer for the built-in optimizer: enough to composite the frames
+// of an animation and write them back with LZW, without any native tool.
+
+// Largest LZW code; the table is reset once it is full
+const MAX_CODE = 4096;
+
+/** One image of the file, still LZW-compressed */
+export interface GifFrameRecord {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  interlaced: boolean;
+  /** Local color table (RGB triplets), null when the frame uses the global one */
+  palette: Uint8Array | null;
+  minCodeSize: number;
+  /** LZW stream with the sub-block lengths removed */
+  data: Uint8Array;
+  /** Hundredths of a second */
+  delay: number;
+  /** 0-1 keep, 2 clear to background, 3 restore the previous image */
+  disposal: number;
+  transparentIndex: number | null;
+}
+
+export interface GifFile {
+  width: number;
+  height: number;
+  globalPalette: Uint8Array | null;
+  /** NETSCAPE2.0 repetitions (0 forever); null when the file plays once */
+  loopCount: number | null;
+  frames: GifFrameRecord[];
+}
+
+/** Frame to write: palette indices of a rectangle of the canvas */
+export interface GifFrameOutput {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  /** RGB triplets; padded to a power of two when written */
+  palette: Uint8Array;
+  indices: Uint8Array;
+  delay: number;
+  disposal: number;
+  transparentIndex: number | null;
+}
+
+export function parseGif(buffer: Uint8Array): GifFile {
+  const signature = String.fromCharCode(...buffer.subarray(0, 6));
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') {
+    throw new Error('Not a GIF file');
+  }
+
+  let offset = 6;
+  const u8 = () => {
+    if (offset >= buffer.length) {throw new Error('Truncated GIF file');}
+    return buffer[offset++];
+  };
+  const u16 = () => u8() | (u8() << 8);
+  const bytes = (length: number) => {
+    if (offset + length > buffer.length) {throw new Error('Truncated GIF file');}
+    offset += length;
+    return buffer.subarray(offset - length, offset);
+  };
+  const subBlocks = () => {
+    const chunks: Uint8Array[] = [];
+    for (let length = u8(); length > 0; length = u8()) {
+      chunks.push(bytes(length));
+    }
+    return concat(chunks);
+  };
+
+  const width = u16();
+  const height = u16();
+  const screenFlags = u8();
+  offset += 2; // background color index and pixel aspect ratio
+  const globalPalette = screenFlags & 0x80 ? bytes(3 * (1 << ((screenFlags & 0x07) + 1))) : null;
+
+  const gif: GifFile = { width, height, globalPalette, loopCount: null, frames: [] };
+  let control = { delay: 0, disposal: 0, transparentIndex: null as number | null };
+
+  for (;;) {
+    const block = u8();
+    if (block === 0x3b) {
+      break;
+    }
+    if (block === 0x21) {
+      const label = u8();
+      if (label === 0xf9) {
+        u8(); // block size
+        const flags = u8();
+        const delay = u16();
+        const transparent = u8();
+        u8(); // terminator
+        control = { delay, disposal: (flags >> 2) & 0x07, transparentIndex: flags & 0x01 ? transparent : null };
+      } else if (label === 0xff) {
+        const identifier = String.fromCharCode(...bytes(u8()));
+        const data = subBlocks();
+        if ((identifier === 'NETSCAPE2.0' || identifier === 'ANIMEXTS1.0') && data.length >= 3 && data[0] === 1) {
+          gif.loopCount = data[1] | (data[2] << 8);
+        }
+      } else {
+        subBlocks();
+      }
+    } else if (block === 0x2c) {
+      const left = u16();
+      const top = u16();
+      const frameWidth = u16();
+      const frameHeight = u16();
+      const flags = u8();
+      const palette = flags & 0x80 ? bytes(3 * (1 << ((flags & 0x07) + 1))) : null;
+      const minCodeSize = u8();
+      gif.frames.push({
+        left, top, width: frameWidth, height: frameHeight,
+        interlaced: Boolean(flags & 0x40), palette, minCodeSize, data: subBlocks(), ...control
+      });
+      control = { delay: 0, disposal: 0, transparentIndex: null };
+    } else {
+      throw new Error(`Invalid GIF block 0x${block.toString(16)}`);
+    }
+  }
+  return gif;
+}
+
+/**
+ * Decompresses a frame; missing pixels of a short stream stay 0
+ */
+export function lzwDecode(data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array {
+  const output = new Uint8Array(pixelCount);
+  const prefix = new Int16Array(MAX_CODE);
+  const suffix = new Uint8Array(MAX_CODE);
+  const length = new Uint16Array(MAX_CODE);
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  for (let code = 0; code < clear; code++) {
+    suffix[code] = code;
+    length[code] = 1;
+  }
+
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let previous = -1;
+  let written = 0;
+  let bits = 0;
+  let bitCount = 0;
+  let position = 0;
+
+  while (written < pixelCount) {
+    while (bitCount < codeSize && position < data.length) {
+      bits |= data[position++] << bitCount;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) {break;}
+    const code = bits & ((1 << codeSize) - 1);
+    bits >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+      previous = -1;
+      continue;
+    }
+    if (code === end) {break;}
+
+    if (previous === -1) {
+      output[written++] = code;
+      previous = code;
+      continue;
+    }
+
+    // The code may be the entry about to be added (the KwKwK case)
+    const known = code < next;
+    if (!known && code !== next) {break;}
+    const entry = known ? code : previous;
+    const entryLength = length[entry];
+    const start = written;
+    let cursor = entry;
+    for (let i = entryLength - 1; i >= 0; i--) {
+      if (start + i < pixelCount) {output[start + i] = suffix[cursor];}
+      cursor = prefix[cursor];
+    }
+    written = Math.min(pixelCount, start + entryLength);
+    const first = output[Math.min(start, pixelCount - 1)];
+    if (!known && written < pixelCount) {
+      output[written++] = first;
+    }
+
+    if (next < MAX_CODE) {
+      prefix[next] = previous;
+      suffix[next] = first;
+      length[next] = length[previous] + 1;
+      next++;
+      if (next === 1 << codeSize && codeSize < 12) {codeSize++;}
+    }
+    previous = code;
+  }
+  return output;
+}
+
+/**
+ * Compresses palette indices into an LZW stream (without sub-block lengths)
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const writer = new BitWriter();
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const table = new Map<number, number>();
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+
+  writer.write(clear, codeSize);
+  if (indices.length === 0) {
+    writer.write(end, codeSize);
+    return writer.finish();
+  }
+
+  let current = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (current << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      current = code;
+      continue;
+    }
+
+    writer.write(current, codeSize);
+    if (next === MAX_CODE) {
+      writer.write(clear, codeSize);
+      table.clear();
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+    } else {
+      if (next >= 1 << codeSize) {codeSize++;}
+      table.set(key, next++);
+    }
+    current = indices[i];
+  }
+  writer.write(current, codeSize);
+  writer.write(end, codeSize);
+  return writer.finish();
+}
+
+/**
+ * Displayed image after each frame, as packed RGBA (0 is transparent). The same canvas is
+ * yielded every time: copy it to keep a frame.
+ */
+export function* renderFrames(gif: GifFile): Generator<{ canvas: Uint32Array; frame: GifFrameRecord; index: number }> {
+  const canvas = new Uint32Array(gif.width * gif.height);
+  let saved: Uint32Array | null = null;
+  let previous: GifFrameRecord | null = null;
+
+  for (const [index, frame] of gif.frames.entries()) {
+    if (previous?.disposal === 2) {
+      fillRect(canvas, gif.width, gif.height, previous, 0);
+    } else if (previous?.disposal === 3 && saved) {
+      canvas.set(saved);
+    }
+    saved = frame.disposal === 3 ? canvas.slice() : null;
+
+    drawFrame(canvas, gif, frame);
+    yield { canvas, frame, index };
+    previous = frame;
+  }
+}
+
+/**
+ * Writes frames as local-palette images; each frame keeps the previous one underneath
+ * unless its disposal says otherwise
+ */
+export class GifWriter {
+  private readonly chunks: Uint8Array[] = [];
+
+  constructor(width: number, height: number, loopCount: number | null) {
+    // GIF89a, no global color table, 8 bits of color resolution
+    this.chunks.push(
+      Uint8Array.from([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, ...le16(width), ...le16(height), 0x70, 0, 0])
+    );
+    if (loopCount !== null) {
+      const netscape = [...'NETSCAPE2.0'].map(char => char.charCodeAt(0));
+      this.chunks.push(Uint8Array.from([0x21, 0xff, 0x0b, ...netscape, 0x03, 0x01, ...le16(loopCount), 0x00]));
+    }
+  }
+
+  public addFrame(frame: GifFrameOutput): void {
+    const colors = frame.palette.length / 3;
+    const bits = Math.max(1, Math.ceil(Math.log2(Math.max(2, colors))));
+    const palette = new Uint8Array(3 * (1 << bits));
+    palette.set(frame.palette);
+
+    const transparent = frame.transparentIndex !== null;
+    this.chunks.push(Uint8Array.from([
+      0x21, 0xf9, 0x04, ((frame.disposal & 0x07) << 2) | (transparent ? 1 : 0),
+      ...le16(Math.min(0xffff, Math.max(0, Math.round(frame.delay)))), transparent ? frame.transparentIndex ?? 0 : 0, 0x00
+    ]));
+    this.chunks.push(Uint8Array.from([
+      0x2c, ...le16(frame.left), ...le16(frame.top), ...le16(frame.width), ...le16(frame.height), 0x80 | (bits - 1)
+    ]));
+    this.chunks.push(palette);
+
+    const minCodeSize = Math.max(2, bits);
+    const data = lzwEncode(frame.indices, minCodeSize);
+    const blocks = [Uint8Array.of(minCodeSize)];
+    for (let start = 0; start < data.length; start += 255) {
+      const block = data.subarray(start, start + 255);
+      blocks.push(Uint8Array.of(block.length), block);
+    }
+    blocks.push(Uint8Array.of(0));
+    this.chunks.push(concat(blocks));
+  }
+
+  public toBuffer(): Buffer {
+    return Buffer.concat([...this.chunks, Uint8Array.of(0x3b)]);
+  }
+}
+
+/**
+ * Packs an RGB palette entry as opaque RGBA, the canvas format
+ */
+export function packColor(palette: Uint8Array, index: number): number {
+  return (palette[index * 3] | (palette[index * 3 + 1] << 8) | (palette[index * 3 + 2] << 16) | 0xff000000) >>> 0;
+}
+
+function drawFrame(canvas: Uint32Array, gif: GifFile, frame: GifFrameRecord): void {
+  const palette = frame.palette ?? gif.globalPalette;
+  if (!palette) {
+    throw new Error('GIF frame without a color table');
+  }
+  const pixels = lzwDecode(frame.data, frame.minCodeSize, frame.width * frame.height);
+  const rows = frame.interlaced ? interlacedRows(frame.height) : null;
+  const colors = palette.length / 3;
+
+  for (let row = 0; row < frame.height; row++) {
+    const y = frame.top + (rows ? rows[row] : row);
+    if (y >= gif.height) {continue;}
+    for (let column = 0; column < frame.width; column++) {
+      const x = frame.left + column;
+      const index = pixels[row * frame.width + column];
+      if (x < gif.width && index !== frame.transparentIndex && index < colors) {
+        canvas[y * gif.width + x] = packColor(palette, index);
+      }
+    }
+  }
+}
+
+/**
+ * Canvas row of each stored row of an interlaced image (passes of 8, 8, 4 and 2 rows)
+ */
+function interlacedRows(height: number): number[] {
+  const rows: number[] = [];
+  for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+    for (let y = start; y < height; y += step) {
+      rows.push(y);
+    }
+  }
+  return rows;
+}
+
+function fillRect(canvas: Uint32Array, width: number, height: number, rect: { left: number; top: number; width: number; height: number }, value: number): void {
+  for (let y = rect.top; y < Math.min(height, rect.top + rect.height); y++) {
+    canvas.fill(value, y * width + rect.left, y * width + Math.min(width, rect.left + rect.width));
+  }
+}
+
+class BitWriter {
+  private readonly bytes: number[] = [];
+  private bits = 0;
+  private count = 0;
+
+  public write(code: number, size: number): void {
+    this.bits |= code << this.count;
+    this.count += size;
+    while (this.count >= 8) {
+      this.bytes.push(this.bits & 0xff);
+      this.bits >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  public finish(): Uint8Array {
+    if (this.count > 0) {
+      this.bytes.push(this.bits & 0xff);
+    }
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+function le16(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,78 @@
+import { getGifLoopValue } from '../outputFormats';
+import { ConversionOptions } from '../types';
+import { LogPort, SettingsPort } from '../types/ports';
+import { getToolVersion, locateTool } from './nativeTool';
+import { CommandRunner, GifOptimizer, OptimizerRun } from './types';
+
+/**
+ * Gifsicle: lossless frame optimization, palette reduction and optional lossy LZW
+ */
+export class GifsicleOptimizer implements GifOptimizer {
+  public readonly id = 'gifsicle';
+  public readonly label = 'Gifsicle';
+  public readonly reportsProgress = false;
+  private readonly settings: SettingsPort;
+  private readonly run: CommandRunner;
+  private readonly log: LogPort;
+  private path: string | null = null;
+
+  constructor(settings: SettingsPort, run: CommandRunner, log: LogPort) {
+    this.settings = settings;
+    this.run = run;
+    this.log = log;
+  }
+
+  public async isAvailable(): Promise<boolean> {
+    this.path = await locateTool('gifsicle', this.settings, this.run, this.log);
+    return this.path !== null;
+  }
+
+  public async getVersion(): Promise<string | null> {
+    return getToolVersion(await this.isAvailable() ? this.path : null, this.run);
+  }
+
+  public async optimize(inputPath: string, outputPath: string, options: ConversionOptions, run: OptimizerRun): Promise<void> {
+    const gifsiclePath = await this.requirePath();
+    const args = [...getGifsicleFlags(options), '-o', outputPath, inputPath];
+
+    run.log(`${gifsiclePath} ${args.join(' ')}`, 'info');
+    await this.run(gifsiclePath, args, run.signal);
+  }
+
+  /**
+   * Frame count from `gifsicle --info`
+   */
+  public async countFrames(gifPath: string): Promise<number> {
+    const { stdout } = await this.run(await this.requirePath(), ['--info', gifPath]);
+    const frameMatch = /(\d+) images/.exec(stdout);
+    return frameMatch ? Number.parseInt(frameMatch[1], 10) : 0;
+  }
+
+  private async requirePath(): Promise<string> {
+    if (!this.path) {
+      await this.isAvailable();
+    }
+    if (!this.path) {
+      throw new Error('Gifsicle not available');
+    }
+    return this.path;
+  }
+}
+
+/**
+ * Gifsicle options for `options`. `--colors` builds one global palette, so it is left out when
+ * FFmpeg wrote a palette per frame (`paletteStatsMode: 'single'`)
+ */
+export function getGifsicleFlags(options: ConversionOptions): string[] {
+  const loop = getGifLoopValue(options);
+  return [
+    '--optimize=3',
+    ...(options.paletteStatsMode === 'single' ? [] : [`--colors=${options.colorCount}`]),
+    ...(options.lossyCompression > 0 ? [`--lossy=${options.lossyCompression}`] : []),
+    // Gifsicle counts repetitions like the GIF format itself
+    loop < 0 ? '--no-loopcount' : `--loopcount=${loop === 0 ? 'forever' : loop}`,
+    '--no-warnings',
+    '--no-interlace',
+    '--careful'
+  ];
+}
@@ -0,0 +1,94 @@
+import ffmpeg from 'fluent-ffmpeg';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { getGifLoopValue } from '../outputFormats';
+import { ConversionOptions } from '../types';
+import { LogPort, SettingsPort } from '../types/ports';
+import { getToolVersion, locateTool } from './nativeTool';
+import { CommandRunner, GifOptimizer, OptimizerRun } from './types';
+
+/**
+ * gifski: rebuilds the GIF from its frames with its own cross-frame palettes and dithering.
+ * The frames are extracted with FFmpeg, so every frame lasts 1/fps seconds afterwards.
+ */
+export class GifskiOptimizer implements GifOptimizer {
+  public readonly id = 'gifski';
+  public readonly label = 'gifski';
+  public readonly reportsProgress = false;
+  private readonly settings: SettingsPort;
+  private readonly run: CommandRunner;
+  private readonly log: LogPort;
+  private path: string | null = null;
+
+  constructor(settings: SettingsPort, run: CommandRunner, log: LogPort) {
+    this.settings = settings;
+    this.run = run;
+    this.log = log;
+  }
+
+  public async isAvailable(): Promise<boolean> {
+    this.path = await locateTool('gifski', this.settings, this.run, this.log);
+    return this.path !== null;
+  }
+
+  public async getVersion(): Promise<string | null> {
+    return getToolVersion(await this.isAvailable() ? this.path : null, this.run);
+  }
+
+  public async optimize(inputPath: string, outputPath: string, options: ConversionOptions, run: OptimizerRun): Promise<void> {
+    if (!this.path) {
+      await this.isAvailable();
+    }
+    if (!this.path) {
+      throw new Error('gifski not available');
+    }
+    const gifskiPath = this.path;
+
+    const frameDir = fs.mkdtempSync(path.join(os.tmpdir(), 'magicvid2gif_gifski_'));
+    try {
+      await extractFrames(inputPath, frameDir, run.signal);
+      const frames = fs.readdirSync(frameDir).filter(name => name.endsWith('.png')).sort().map(name => path.join(frameDir, name));
+      if (frames.length === 0) {
+        throw new Error('No frames extracted for gifski');
+      }
+
+      const args = [...getGifskiFlags(options), '-o', outputPath, ...frames];
+      run.log(`${gifskiPath} ${[...getGifskiFlags(options), '-o', outputPath].join(' ')} <${frames.length} frames>`, 'info');
+      await this.run(gifskiPath, args, run.signal);
+    } finally {
+      fs.rmSync(frameDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * gifski quality follows the Gifsicle lossy level: 0 → 100, 80 → 80, 200 → 50
+ */
+export function getGifskiFlags(options: ConversionOptions): string[] {
+  const quality = Math.round(100 - Math.min(200, Math.max(0, options.lossyCompression)) / 4);
+  return ['--fps', String(options.fps), '--quality', String(quality), '--repeat', String(getGifLoopValue(options))];
+}
+
+function extractFrames(gifPath: string, frameDir: string, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new Error('Conversion cancelled by user'));
+  }
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(gifPath)
+      // One PNG per GIF frame, without duplicating or dropping any
+      .outputOptions(['-vsync', 'passthrough'])
+      .on('end', () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      })
+      .on('error', (err: Error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(err.message.includes('ffmpeg was killed') ? new Error('Conversion cancelled by user') : err);
+      });
+
+    const onAbort = () => command.kill('SIGTERM');
+    signal?.addEventListener('abort', onAbort, { once: true });
+    command.save(path.join(frameDir, 'frame_%06d.png'));
+  });
+}
@@ -0,0 +1,5 @@
+export { FrameDiffOptimizer, optimizeFrameDiff } from './frameDiff';
+export { parseGif } from './gifCodec';
+export { getGifsicleFlags, GifsicleOptimizer } from './gifsicle';
+export { GifskiOptimizer } from './gifski';
+export { CommandRunner, GifOptimizer, OPTIMIZER_IDS, OptimizerId, OptimizerRun } from './types';
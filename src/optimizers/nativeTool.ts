@@ -0,0 +1,36 @@
+import * as fs from 'node:fs';
+import { LogPort, SettingsPort } from '../types/ports';
+import { CommandRunner } from './types';
+
+/**
+ * Path of a native tool: the `<tool>Path` setting when the file exists, otherwise the command
+ * on the PATH when `--version` runs; null when neither works
+ */
+export async function locateTool(tool: string, settings: SettingsPort, run: CommandRunner, log: LogPort): Promise<string | null> {
+  const customPath = settings.get<string | undefined>(`${tool}Path`, undefined);
+  if (customPath && fs.existsSync(customPath)) {
+    return customPath;
+  }
+
+  try {
+    await run(tool, ['--version']);
+    return tool;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.log('debug', `${tool} not found in PATH: ${message}`);
+    return null;
+  }
+}
+
+/**
+ * First line of `<tool> --version`, or null
+ */
+export async function getToolVersion(toolPath: string | null, run: CommandRunner): Promise<string | null> {
+  if (!toolPath) {return null;}
+  try {
+    const { stdout } = await run(toolPath, ['--version']);
+    return stdout.split('\n')[0].trim() || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,38 @@
+import { ConversionOptions } from '../types';
+import { LogLevel } from '../types/ports';
+
+export type OptimizerId = 'gifsicle' | 'gifski' | 'js';
+
+/** Default order of `magicvid2gif.optimizers` */
+export const OPTIMIZER_IDS: OptimizerId[] = ['gifsicle', 'gifski', 'js'];
+
+/**
+ * Runs a native tool and resolves with its output; `execFile` in production, a stub in tests.
+ * Aborting `signal` kills the tool.
+ */
+export type CommandRunner = (file: string, args: string[], signal?: AbortSignal) => Promise<{ stdout: string; stderr: string }>;
+
+/** Reporting of one optimizer run */
+export interface OptimizerRun {
+  /** Command lines and errors of this run */
+  log(line: string, level: LogLevel): void;
+  /** 0-100, only called by backends that measure their own progress */
+  progress(percent: number): void;
+  /** Aborted when the job is cancelled */
+  signal?: AbortSignal;
+}
+
+/**
+ * Post-processing pass over a finished GIF
+ */
+export interface GifOptimizer {
+  readonly id: OptimizerId;
+  readonly label: string;
+  /** False for native tools without progress output; they get a time-based estimate */
+  readonly reportsProgress: boolean;
+  isAvailable(): Promise<boolean>;
+  /** e.g. "LCDF Gifsicle 1.94"; null when the backend is missing */
+  getVersion(): Promise<string | null>;
+  /** Writes the optimized GIF to `outputPath`, or throws */
+  optimize(inputPath: string, outputPath: string, options: ConversionOptions, run: OptimizerRun): Promise<void>;
+}
@@ -0,0 +1,114 @@
+import { ConversionOptions, OutputFormat, VideoExportFormat } from './types';
+
+export interface OutputFormatInfo {
+  label: string;
+  extension: string;
+  /** Uses the palettegen/paletteuse path and can be post-processed by Gifsicle */
+  usesPalette: boolean;
+  /** Honors the quality/lossless encoder settings */
+  supportsQuality: boolean;
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatInfo> = {
+  gif: { label: 'GIF', extension: '.gif', usesPalette: true, supportsQuality: false },
+  webp: { label: 'Animated WebP', extension: '.webp', usesPalette: false, supportsQuality: true },
+  apng: { label: 'APNG', extension: '.png', usesPalette: false, supportsQuality: false },
+  avif: { label: 'Animated AVIF', extension: '.avif', usesPalette: false, supportsQuality: true }
+};
+
+export const DEFAULT_QUALITY = 75;
+
+export const VIDEO_EXPORT_FORMATS: Record<VideoExportFormat, { label: string; extension: string }> = {
+  mp4: { label: 'MP4 (H.264)', extension: '.mp4' },
+  webm: { label: 'WebM (VP9)', extension: '.webm' }
+};
+
+// yuv420p subsamples chroma by 2 in both directions, so odd GIF sizes must be rounded down
+export const EVEN_DIMENSIONS_FILTER = 'scale=trunc(iw/2)*2:trunc(ih/2)*2:flags=lanczos,format=yuv420p';
+
+export function getOutputFormat(options: Pick<ConversionOptions, 'outputFormat'>): OutputFormat {
+  const format = options.outputFormat ?? 'gif';
+  return format in OUTPUT_FORMATS ? format : 'gif';
+}
+
+export function getFormatInfo(options: Pick<ConversionOptions, 'outputFormat'>): OutputFormatInfo {
+  return OUTPUT_FORMATS[getOutputFormat(options)];
+}
+
+/**
+ * Encoder arguments for the selected output format
+ */
+export function getEncoderFlags(options: ConversionOptions): string[] {
+  const quality = clampQuality(options.quality ?? DEFAULT_QUALITY);
+  const level = options.optimizationLevel;
+  const plays = getPlayCount(options);
+
+  switch (getOutputFormat(options)) {
+    case 'webp': {
+      const compression = { fast: 2, balanced: 4, quality: 5, ultra: 6 }[level] ?? 4;
+      return [
+        '-c:v', 'libwebp_anim',
+        '-lossless', options.lossless ? '1' : '0',
+        '-quality', String(quality),
+        '-compression_level', String(compression),
+        '-loop', String(plays)
+      ];
+    }
+    case 'apng':
+      return [
+        '-c:v', 'apng',
+        '-f', 'apng',
+        '-pred', level === 'fast' || level === 'balanced' ? 'paeth' : 'mixed',
+        '-plays', String(plays)
+      ];
+    case 'avif': {
+      const cpuUsed = { fast: 8, balanced: 6, quality: 4, ultra: 4 }[level] ?? 6;
+      // Map quality 0-100 onto libaom's CRF scale 63-0
+      const crf = options.lossless ? 0 : Math.round((100 - quality) * 0.63);
+      return [
+        '-c:v', 'libaom-av1',
+        '-crf', String(crf),
+        '-b:v', '0',
+        '-cpu-used', String(cpuUsed),
+        '-pix_fmt', 'yuv420p',
+        ...(options.lossless ? ['-aom-params', 'lossless=1'] : []),
+        // Older FFmpeg builds lack the AVIF loop option, so only pass it when needed
+        ...(plays > 0 ? ['-loop', String(plays)] : []),
+        '-f', 'avif'
+      ];
+    }
+    default:
+      return ['-loop', String(getGifLoopValue(options))];
+  }
+}
+
+/**
+ * Total number of plays, 0 = forever (WebP, APNG and AVIF store this value directly)
+ */
+export function getPlayCount(options: Pick<ConversionOptions, 'loopCount'>): number {
+  const count = options.loopCount ?? 0;
+  return Number.isFinite(count) && count > 0 ? Math.round(count) : 0;
+}
+
+/**
+ * GIF stores repetitions after the first play: FFmpeg uses -1 for "play once" and 0 for forever
+ */
+export function getGifLoopValue(options: Pick<ConversionOptions, 'loopCount'>): number {
+  const plays = getPlayCount(options);
+  if (plays === 0) {return 0;}
+  return plays === 1 ? -1 : plays - 1;
+}
+
+/**
+ * Encoder arguments for web video; the GIF has no audio and browsers need faststart MP4s
+ */
+export function getVideoExportFlags(format: VideoExportFormat): string[] {
+  if (format === 'webm') {
+    return ['-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-row-mt', '1', '-pix_fmt', 'yuv420p', '-an'];
+  }
+  return ['-c:v', 'libx264', '-preset', 'slow', '-crf', '23', '-pix_fmt', 'yuv420p', '-movflags', '+faststart', '-an'];
+}
+
+function clampQuality(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
@@ -0,0 +1,184 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { resolveConversionSize } from './resolution';
+import { correctedSize } from './sourceCorrection';
+import { ConversionOptions, VideoMetadata } from './types';
+import { SettingsPort } from './types/ports';
+
+/** What to do when the output file already exists */
+export type CollisionPolicy = 'overwrite' | 'increment' | 'ask' | 'skip';
+
+export const COLLISION_POLICIES: CollisionPolicy[] = ['overwrite', 'increment', 'ask', 'skip'];
+
+export const DEFAULT_OUTPUT_PATTERN = '${name}_magic';
+
+/**
+ * Values of the `${token}` placeholders of `outputPattern` and `outputDirectory`
+ */
+export interface OutputTokens {
+  /** Source file name without its extension */
+  name: string;
+  /** Preset name, `default` for the default settings and `custom` for the advanced dialog */
+  preset: string;
+  fps: number;
+  /** Output width in pixels; empty when the source could not be probed */
+  width?: number;
+  /** Local time of the conversion, e.g. 20261019-143205 */
+  date: string;
+  /** Workspace folder of the source (the source folder outside a workspace) */
+  workspaceFolder: string;
+}
+
+const OUTPUT_TOKENS: (keyof OutputTokens)[] = ['name', 'preset', 'fps', 'width', 'date', 'workspaceFolder'];
+
+export interface OutputNaming {
+  pattern: string;
+  /** Folder for converted files; empty writes next to the source */
+  directory: string;
+  collisionPolicy: CollisionPolicy;
+}
+
+/** Answer of the user when the policy is `ask` */
+export type CollisionPrompt = (outputPath: string) => Promise<Exclude<CollisionPolicy, 'ask'>>;
+
+export function getOutputNaming(settings: SettingsPort): OutputNaming {
+  const policy = settings.get<string>('collisionPolicy', 'ask');
+  return {
+    pattern: settings.get('outputPattern', DEFAULT_OUTPUT_PATTERN).trim() || DEFAULT_OUTPUT_PATTERN,
+    directory: settings.get('outputDirectory', '').trim(),
+    collisionPolicy: COLLISION_POLICIES.includes(policy as CollisionPolicy) ? policy as CollisionPolicy : 'ask'
+  };
+}
+
+/**
+ * Token values for one conversion; `source` gives the output width once crop and scale are applied
+ */
+export function getOutputTokens(
+  inputPath: string,
+  options: ConversionOptions,
+  context: { preset: string; workspaceFolder?: string; source?: VideoMetadata; date?: Date }
+): OutputTokens {
+  return {
+    name: path.parse(inputPath).name,
+    preset: context.preset,
+    fps: options.fps,
+    width: context.source ? resolveConversionSize(options, correctedSize(context.source, options)).width : undefined,
+    date: formatTimestamp(context.date ?? new Date()),
+    workspaceFolder: context.workspaceFolder ?? path.dirname(inputPath)
+  };
+}
+
+/**
+ * Replaces the known `${token}` placeholders; unknown ones are kept so a typo shows up in the
+ * file name. With `fileName`, values cannot introduce folders or characters Windows rejects.
+ */
+export function expandOutputTemplate(template: string, tokens: OutputTokens, fileName = true): string {
+  return template.replace(/\$\{(\w+)\}/g, (placeholder, key: string) => {
+    if (!OUTPUT_TOKENS.includes(key as keyof OutputTokens)) {
+      return placeholder;
+    }
+    const value = String(tokens[key as keyof OutputTokens] ?? '');
+    return fileName ? value.replace(/[<>:"/\\|?*]/g, '-') : value;
+  });
+}
+
+/**
+ * Output file of a conversion; a relative `directory` is resolved from the source folder
+ */
+export function buildOutputPath(inputPath: string, extension: string, naming: Pick<OutputNaming, 'pattern' | 'directory'>, tokens: OutputTokens): string {
+  const sourceFolder = path.dirname(inputPath);
+  const folder = naming.directory
+    ? path.resolve(sourceFolder, expandOutputTemplate(naming.directory, tokens, false))
+    : sourceFolder;
+  const name = expandOutputTemplate(naming.pattern, tokens).trim() || tokens.name;
+  return path.join(folder, `${name}${extension}`);
+}
+
+/**
+ * Local date and time as YYYYMMDD-HHMMSS
+ */
+export function formatTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+/**
+ * `exists` test for resolveCollision and nextFreePath that also counts `reserved()` as taken:
+ * the outputs of queued and running conversions, whose files only appear once they finish
+ */
+export function isOutputTaken(
+  reserved: () => Iterable<string>,
+  exists: (candidate: string) => boolean = fs.existsSync
+): (candidate: string) => boolean {
+  return (candidate) => {
+    const resolved = path.resolve(candidate);
+    return [...reserved()].some(reservedPath => path.resolve(reservedPath) === resolved) || exists(candidate);
+  };
+}
+
+/**
+ * First of `clip_2.gif`, `clip_3.gif`, … that does not exist yet
+ */
+export function nextFreePath(filePath: string, exists: (candidate: string) => boolean = fs.existsSync): string {
+  const parsed = path.parse(filePath);
+  for (let index = 2; ; index++) {
+    const candidate = path.join(parsed.dir, `${parsed.name}_${index}${parsed.ext}`);
+    if (!exists(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Applies the collision policy; resolves with the path to write, or null when the file is skipped
+ */
+export async function resolveCollision(
+  outputPath: string,
+  policy: CollisionPolicy,
+  ask: CollisionPrompt,
+  exists: (candidate: string) => boolean = fs.existsSync
+): Promise<string | null> {
+  if (!exists(outputPath)) {
+    return outputPath;
+  }
+
+  switch (policy === 'ask' ? await ask(outputPath) : policy) {
+    case 'overwrite':
+      return outputPath;
+    case 'increment':
+      return nextFreePath(outputPath, exists);
+    default:
+      return null;
+  }
+}
+
+// Numbers the temporary files of this process
+let tempFileCount = 0;
+
+/**
+ * Suffix for temporary file names that no other write of this process or of another one uses,
+ * even in the same millisecond: conversions run side by side in the shared temp folder
+ */
+export function uniqueFileSuffix(): string {
+  return `${process.pid}-${++tempFileCount}`;
+}
+
+/**
+ * Runs `write` against a hidden sibling of `outputPath` and moves the result in place once it
+ * succeeds, so a failed or cancelled conversion leaves an existing file untouched. Every call
+ * gets its own sibling: two conversions to the same path never write the same partial file.
+ */
+export async function writeThroughPartial<T>(outputPath: string, write: (partialPath: string) => Promise<T>): Promise<T> {
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  const parsed = path.parse(outputPath);
+  // Same extension: FFmpeg picks the muxer from it
+  const partialPath = path.join(parsed.dir, `.${parsed.name}.${uniqueFileSuffix()}.partial${parsed.ext}`);
+  try {
+    const result = await write(partialPath);
+    fs.renameSync(partialPath, outputPath);
+    return result;
+  } finally {
+    fs.rmSync(partialPath, { force: true });
+  }
+}
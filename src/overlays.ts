@@ -0,0 +1,167 @@
+import { ImageOverlay, Overlay, OverlayPosition, TextOverlay } from './types';
+
+export const OVERLAY_POSITIONS: OverlayPosition[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right'
+];
+
+const DEFAULT_MARGIN = 10;
+const DEFAULT_FONT_SIZE = 24;
+const DEFAULT_FONT_COLOR = 'white';
+const DEFAULT_IMAGE_SCALE = 0.2;
+const COLOR_PATTERN = /^(#[0-9a-fA-F]{6}([0-9a-fA-F]{2})?|[a-zA-Z]+)(@(0(\.\d+)?|1(\.0+)?))?$/;
+
+/**
+ * Checks an overlay read from settings or presets
+ */
+export function isValidOverlay(value: unknown): value is Overlay {
+  if (!value || typeof value !== 'object') {return false;}
+  const overlay = value as Record<string, unknown>;
+
+  const optionalNumber = (key: string, max = Infinity) =>
+    overlay[key] === undefined || (typeof overlay[key] === 'number' && (overlay[key] as number) >= 0 && (overlay[key] as number) <= max);
+  const optionalColor = (key: string) => overlay[key] === undefined || (typeof overlay[key] === 'string' && COLOR_PATTERN.test(overlay[key] as string));
+
+  const common = OVERLAY_POSITIONS.includes(overlay.position as OverlayPosition)
+    && optionalNumber('margin') && optionalNumber('startTime') && optionalNumber('endTime');
+  if (!common) {return false;}
+
+  if (overlay.type === 'text') {
+    return typeof overlay.text === 'string' && overlay.text.length > 0
+      && (overlay.font === undefined || typeof overlay.font === 'string')
+      && optionalNumber('fontSize') && optionalColor('color') && optionalColor('background');
+  }
+  if (overlay.type === 'image') {
+    return typeof overlay.path === 'string' && overlay.path.length > 0
+      && optionalNumber('opacity', 1) && optionalNumber('scale', 1);
+  }
+  return false;
+}
+
+/**
+ * Extra FFmpeg inputs needed by the overlays, in the order the filter graph expects them (input 1, 2, ...)
+ */
+export function getOverlayInputs(overlays: Overlay[] | undefined): string[] {
+  return (overlays ?? []).filter((overlay): overlay is ImageOverlay => overlay.type === 'image').map(overlay => overlay.path);
+}
+
+/**
+ * Appends the overlays to an already scaled video chain.
+ * Text only needs drawtext segments; image watermarks switch to a labelled graph on extra inputs.
+ * The returned graph ends with an unlabelled output so further filters can be chained with ','.
+ */
+export function appendOverlays(chain: string, overlays: Overlay[] | undefined): string {
+  if (!overlays || overlays.length === 0) {return chain;}
+
+  if (overlays.every(overlay => overlay.type === 'text')) {
+    const texts = overlays.map(overlay => buildDrawtext(overlay as TextOverlay));
+    return chain === 'null' ? texts.join(',') : [chain, ...texts].join(',');
+  }
+
+  const graph: string[] = [];
+  let current = 'ov0';
+  let inputIndex = 1;
+  let pending = `[0:v]${chain}`;
+
+  overlays.forEach((overlay, i) => {
+    if (overlay.type === 'text') {
+      pending += `,${buildDrawtext(overlay)}`;
+      return;
+    }
+
+    const next = `ov${i + 1}`;
+    graph.push(`${pending}[${current}]`);
+    graph.push(buildImageInput(overlay, inputIndex, i, current));
+    pending = `[base${i}][wm${i}]overlay=${position(overlay, 'W', 'H', 'w', 'h')}${enableExpr(overlay)}`;
+    current = next;
+    inputIndex++;
+  });
+
+  graph.push(pending);
+  return graph.join(';');
+}
+
+/**
+ * Resizes pixel-based overlay settings, e.g. for a downscaled preview
+ */
+export function scaleOverlays(overlays: Overlay[] | undefined, factor: number): Overlay[] | undefined {
+  if (!overlays || factor === 1) {return overlays;}
+  return overlays.map(overlay => {
+    const margin = Math.round((overlay.margin ?? DEFAULT_MARGIN) * factor);
+    if (overlay.type === 'image') {
+      return { ...overlay, margin };
+    }
+    return { ...overlay, margin, fontSize: Math.max(6, Math.round((overlay.fontSize ?? DEFAULT_FONT_SIZE) * factor)) };
+  });
+}
+
+/**
+ * Short human-readable label, used in the options dialog
+ */
+export function describeOverlay(overlay: Overlay): string {
+  const range = overlay.startTime !== undefined || overlay.endTime !== undefined
+    ? ` ${overlay.startTime ?? 0}s–${overlay.endTime === undefined ? 'end' : `${overlay.endTime}s`}`
+    : '';
+  const what = overlay.type === 'text' ? `"${overlay.text}"` : overlay.path.split(/[\\/]/).pop();
+  return `${what} (${overlay.position}${range})`;
+}
+
+function buildDrawtext(overlay: TextOverlay): string {
+  const params = [
+    `text=${escapeValue(overlay.text)}`,
+    'expansion=none',
+    `fontsize=${overlay.fontSize ?? DEFAULT_FONT_SIZE}`,
+    `fontcolor=${overlay.color ?? DEFAULT_FONT_COLOR}`
+  ];
+
+  if (overlay.font) {
+    // A path selects a font file; anything else is a fontconfig family name
+    const isFile = /[\\/]|\.(ttf|otf|ttc)$/i.test(overlay.font);
+    params.push(`${isFile ? 'fontfile' : 'font'}=${escapeValue(overlay.font)}`);
+  }
+  if (overlay.background) {
+    params.push('box=1', `boxcolor=${overlay.background}`, 'boxborderw=6');
+  }
+
+  params.push(position(overlay, 'w', 'h', 'tw', 'th'));
+  return `drawtext=${params.join(':')}${enableExpr(overlay)}`;
+}
+
+function buildImageInput(overlay: ImageOverlay, inputIndex: number, i: number, base: string): string {
+  const opacity = overlay.opacity ?? 1;
+  const alpha = opacity < 1 ? `,colorchannelmixer=aa=${opacity}` : '';
+  // scale2ref sizes the logo relative to the video width and keeps the logo's aspect ratio
+  return `[${inputIndex}:v]format=rgba${alpha}[logo${i}];` +
+    `[logo${i}][${base}]scale2ref=w=iw*${overlay.scale ?? DEFAULT_IMAGE_SCALE}:h=ow/mdar[wm${i}][base${i}]`;
+}
+
+function position(overlay: Overlay, mainW: string, mainH: string, w: string, h: string): string {
+  const margin = overlay.margin ?? DEFAULT_MARGIN;
+  const pos = overlay.position;
+
+  let x = `(${mainW}-${w})/2`;
+  if (pos.endsWith('left')) {x = `${margin}`;}
+  if (pos.endsWith('right')) {x = `${mainW}-${w}-${margin}`;}
+
+  let y = `(${mainH}-${h})/2`;
+  if (pos.startsWith('top')) {y = `${margin}`;}
+  if (pos.startsWith('bottom')) {y = `${mainH}-${h}-${margin}`;}
+
+  return `x=${x}:y=${y}`;
+}
+
+function enableExpr(overlay: Overlay): string {
+  const { startTime, endTime } = overlay;
+  if (startTime === undefined && endTime === undefined) {return '';}
+  if (endTime === undefined) {return `:enable='gte(t,${startTime})'`;}
+  return `:enable='between(t,${startTime ?? 0},${endTime})'`;
+}
+
+/**
+ * Escapes a free-text option value for both the filter option parser and the filtergraph parser
+ */
+function escapeValue(value: string): string {
+  const optionLevel = value.replace(/[\\':]/g, '\\$&');
+  return optionLevel.replace(/[\\'[\],;]/g, '\\$&');
+}
@@ -0,0 +1,50 @@
+import { ConversionOptions, DitherAlgorithm, PaletteStatsMode } from './types';
+
+export const DITHER_ALGORITHMS: { value: DitherAlgorithm; label: string }[] = [
+  { value: 'bayer', label: 'Bayer (ordered pattern, compresses well)' },
+  { value: 'sierra2_4a', label: 'Sierra-2-4A (error diffusion, FFmpeg default)' },
+  { value: 'floyd_steinberg', label: 'Floyd-Steinberg (error diffusion, smoothest)' },
+  { value: 'heckbert', label: 'Heckbert (simple error diffusion)' },
+  { value: 'none', label: 'None (flat colours, fewest artifacts)' }
+];
+
+export const PALETTE_STATS_MODES: { value: PaletteStatsMode; label: string }[] = [
+  { value: 'full', label: 'One palette for the whole clip' },
+  { value: 'diff', label: 'One palette favouring moving areas' },
+  { value: 'single', label: 'New palette for every frame (scene changes)' }
+];
+
+type PaletteOptions = Pick<ConversionOptions, 'colorCount' | 'dithering' | 'ditherAlgorithm' | 'bayerScale' | 'paletteStatsMode' | 'diffMode'>;
+
+/**
+ * Explicit algorithm when set, otherwise the legacy on/off switch (on = Bayer)
+ */
+export function getDitherAlgorithm(options: Pick<ConversionOptions, 'dithering' | 'ditherAlgorithm'>): DitherAlgorithm {
+  if (DITHER_ALGORITHMS.some(algorithm => algorithm.value === options.ditherAlgorithm)) {
+    return options.ditherAlgorithm as DitherAlgorithm;
+  }
+  return options.dithering ? 'bayer' : 'none';
+}
+
+/**
+ * palettegen/paletteuse pair for GIF output. Per-frame palettes (`stats_mode=single`) need
+ * `new=1` so each frame is mapped with its own palette.
+ */
+export function buildPaletteFilter(options: PaletteOptions): string {
+  const statsMode = options.paletteStatsMode ?? 'full';
+  const dither = getDitherAlgorithm(options);
+
+  const use = [`dither=${dither}`];
+  // FFmpeg's default Bayer scale is 2; only pass it when chosen explicitly
+  if (dither === 'bayer' && options.bayerScale !== undefined) {
+    use.push(`bayer_scale=${Math.min(5, Math.max(0, Math.round(options.bayerScale)))}`);
+  }
+  if (options.diffMode === 'rectangle') {
+    use.push('diff_mode=rectangle');
+  }
+  if (statsMode === 'single') {
+    use.push('new=1');
+  }
+
+  return `split[s0][s1];[s0]palettegen=max_colors=${options.colorCount}:stats_mode=${statsMode}[p];[s1][p]paletteuse=${use.join(':')}`;
+}
@@ -0,0 +1,4 @@
+export { createTerminalUiPort } from './uiPort';
+export { createFileSettingsPort, loadConfigFile } from './settingsPort';
+export { createNodeWorkspacePort } from './workspacePort';
+export { createStderrLogPort } from './logPort';
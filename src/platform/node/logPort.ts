@@ -0,0 +1,23 @@
+import { formatLogLine, isLevelEnabled } from '../../logging';
+import { LogLevel, LogPort } from '../../types/ports';
+
+/**
+ * Writes log lines to stderr, next to the progress output, so stdout stays machine-readable
+ */
+class StderrLogPort implements LogPort {
+  private readonly level: LogLevel;
+
+  constructor(level: LogLevel) {
+    this.level = level;
+  }
+
+  log(level: LogLevel, message: string): void {
+    if (isLevelEnabled(level, this.level)) {
+      process.stderr.write(`${formatLogLine(level, message)}\n`);
+    }
+  }
+}
+
+export function createStderrLogPort(level: LogLevel): LogPort {
+  return new StderrLogPort(level);
+}
@@ -0,0 +1,105 @@
+import * as fs from 'node:fs';
+import { SettingsPort, SettingsScope } from '../../types/ports';
+
+const SECTION_PREFIX = 'magicvid2gif.';
+
+/**
+ * Reads a JSON (or JSONC, e.g. `.vscode/settings.json`) config file into a flat settings map.
+ * Keys may be written with or without the `magicvid2gif.` prefix.
+ */
+export function loadConfigFile(filePath: string): Record<string, unknown> {
+  const raw = fs.readFileSync(filePath, 'utf8');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripJsonComments(raw));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid config file ${filePath}: ${message}`);
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Invalid config file ${filePath}: expected a JSON object`);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    if (key.startsWith(SECTION_PREFIX)) {
+      values[key.slice(SECTION_PREFIX.length)] = value;
+    } else if (!key.includes('.')) {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+/**
+ * Removes comments and trailing commas outside of strings
+ */
+function stripJsonComments(text: string): string {
+  let result = '';
+  let inString = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const next = text[i + 1];
+
+    if (inString) {
+      result += char;
+      if (char === '\\') {
+        result += next ?? '';
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') { i++; }
+      result += '\n';
+    } else if (char === '/' && next === '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i === -1) { break; }
+      i++;
+    } else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      // Trailing comma: drop it
+    } else {
+      result += char;
+    }
+  }
+
+  return result;
+}
+
+class FileSettingsPort implements SettingsPort {
+  private readonly values: Record<string, unknown>;
+  private readonly filePath: string | undefined;
+
+  constructor(values: Record<string, unknown>, filePath?: string) {
+    this.values = values;
+    this.filePath = filePath;
+  }
+
+  get<T>(key: string, fallback: T): T {
+    const value = this.values[key];
+    return value === undefined ? fallback : value as T;
+  }
+
+  // The CLI has a single settings level: the config file
+  inspect<T>(key: string, scope: SettingsScope): T | undefined {
+    return scope === 'global' ? this.values[key] as T | undefined : undefined;
+  }
+
+  async update<T>(key: string, value: T, _scope: SettingsScope): Promise<void> {
+    this.values[key] = value;
+    if (!this.filePath) {
+      throw new Error('No config file to save settings to. Pass --config <file>.');
+    }
+    const existing = fs.existsSync(this.filePath) ? loadConfigFile(this.filePath) : {};
+    fs.writeFileSync(this.filePath, JSON.stringify({ ...existing, [key]: value }, null, 2));
+  }
+}
+
+export function createFileSettingsPort(values: Record<string, unknown> = {}, filePath?: string): SettingsPort {
+  return new FileSettingsPort(values, filePath);
+}
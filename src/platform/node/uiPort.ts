@@ -0,0 +1,109 @@
+import * as readline from 'node:readline';
+import { UiPort } from '../../types/ports';
+
+/**
+ * Terminal implementation: messages and progress go to stderr so stdout stays machine-readable.
+ * Prompts only work on an interactive terminal; otherwise they resolve as "cancelled".
+ */
+class TerminalUiPort implements UiPort {
+  private readonly quiet: boolean;
+  private readonly interactive: boolean;
+
+  constructor(opts: { quiet?: boolean; interactive?: boolean }) {
+    this.quiet = opts.quiet ?? false;
+    this.interactive = opts.interactive ?? Boolean(process.stdin.isTTY && process.stderr.isTTY);
+  }
+
+  async pick<T extends { label: string; value: any }>(items: T[], placeholder?: string): Promise<T | null> {
+    if (!this.interactive || items.length === 0) {return null;}
+
+    const lines = items.map((item, index) => `  ${index + 1}) ${item.label}`).join('\n');
+    const answer = await this.ask(`${placeholder ?? 'Select an option'}\n${lines}\n> `);
+    const index = Number.parseInt(answer ?? '', 10) - 1;
+    return items[index] ?? null;
+  }
+
+  async input(opts: { prompt: string; value?: string; validate?: (val: string) => string | undefined }): Promise<string | null> {
+    if (!this.interactive) {return null;}
+
+    for (;;) {
+      const suffix = opts.value === undefined ? '' : ` [${opts.value}]`;
+      const answer = await this.ask(`${opts.prompt}${suffix}: `);
+      if (answer === null) {return null;}
+
+      const value = answer === '' && opts.value !== undefined ? opts.value : answer;
+      const problem = opts.validate?.(value);
+      if (!problem) {return value;}
+      this.write(`✖ ${problem}`);
+    }
+  }
+
+  async info(msg: string, actions?: string[]): Promise<string | undefined> {
+    // Always shown when the user has to answer it
+    if (!this.quiet || actions?.length) {this.write(msg);}
+    return this.chooseAction(actions);
+  }
+
+  async warn(msg: string, actions?: string[]): Promise<string | undefined> {
+    this.write(`⚠ ${msg}`);
+    return this.chooseAction(actions);
+  }
+
+  async error(msg: string, actions?: string[]): Promise<string | undefined> {
+    this.write(`✖ ${msg}`);
+    return this.chooseAction(actions);
+  }
+
+  async withProgress<T>(title: string, task: (update: (percent: number, msg?: string) => void) => Promise<T>): Promise<T> {
+    let lastLine = '';
+    const update = (percent: number, message?: string) => {
+      if (this.quiet) {return;}
+      const clamped = Math.min(100, Math.max(0, Math.round(percent)));
+      const line = `${title}: ${clamped}%${message ? ` - ${message}` : ''}`;
+      if (line === lastLine) {return;}
+      lastLine = line;
+      if (process.stderr.isTTY) {
+        process.stderr.write(`\r\x1b[2K${line}`);
+      } else {
+        this.write(line);
+      }
+    };
+
+    try {
+      return await task(update);
+    } finally {
+      if (!this.quiet && process.stderr.isTTY && lastLine) {
+        process.stderr.write('\n');
+      }
+    }
+  }
+
+  private async chooseAction(actions?: string[]): Promise<string | undefined> {
+    if (!actions || actions.length === 0 || !this.interactive) {return undefined;}
+    const choice = await this.pick(actions.map(action => ({ label: action, value: action })));
+    return choice?.value;
+  }
+
+  private ask(question: string): Promise<string | null> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stderr });
+    return new Promise(resolve => {
+      let answered = false;
+      rl.question(question, answer => {
+        answered = true;
+        rl.close();
+        resolve(answer.trim());
+      });
+      rl.on('close', () => {
+        if (!answered) {resolve(null);}
+      });
+    });
+  }
+
+  private write(line: string): void {
+    process.stderr.write(`${line}\n`);
+  }
+}
+
+export function createTerminalUiPort(opts: { quiet?: boolean; interactive?: boolean } = {}): UiPort {
+  return new TerminalUiPort(opts);
+}
@@ -0,0 +1,28 @@
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { WorkspacePort } from '../../types/ports';
+
+class NodeWorkspacePort implements WorkspacePort {
+  private readonly storageDir: string;
+
+  constructor(storageDir: string) {
+    this.storageDir = storageDir;
+  }
+
+  toFsPath(uri: string): string {
+    return uri.startsWith('file://') ? fileURLToPath(uri) : path.resolve(uri);
+  }
+
+  storagePath(): string {
+    return this.storageDir;
+  }
+
+  tmpPath(): string {
+    return os.tmpdir();
+  }
+}
+
+export function createNodeWorkspacePort(storageDir = path.join(os.homedir(), '.magicvid2gif')): WorkspacePort {
+  return new NodeWorkspacePort(storageDir);
+}
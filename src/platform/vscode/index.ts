@@ -1,3 +1,5 @@
 export { createUiPort } from './uiPort';
 export { createSettingsPort } from './settingsPort';
+export { createStatePort } from './statePort';
 export { createWorkspacePort } from './workspacePort';
+export { createOutputLogPort, OutputLogPort } from './logPort';
@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import { formatLogLine, isLevelEnabled, parseLogLevel } from '../../logging';
+import { LogLevel, LogPort, SettingsPort } from '../../types/ports';
+
+// Lines kept for the diagnostics report
+const MAX_RECENT_LINES = 1000;
+
+export interface OutputLogPort extends LogPort, vscode.Disposable {
+  /** Reveals the output channel without taking the focus */
+  show(): void;
+  /** Latest lines written to the channel, oldest first */
+  recentLines(): string[];
+}
+
+/**
+ * "MagicVid2Gif" output channel; `magicvid2gif.logLevel` is read on every line so a change
+ * applies at once
+ */
+class OutputChannelLogPort implements OutputLogPort {
+  private readonly channel: vscode.OutputChannel;
+  private readonly settings: SettingsPort;
+  private readonly recent: string[] = [];
+
+  constructor(name: string, settings: SettingsPort) {
+    this.channel = vscode.window.createOutputChannel(name);
+    this.settings = settings;
+  }
+
+  log(level: LogLevel, message: string): void {
+    if (!isLevelEnabled(level, parseLogLevel(this.settings.get('logLevel', 'info')))) {return;}
+
+    const line = formatLogLine(level, message);
+    this.channel.appendLine(line);
+    this.recent.push(line);
+    if (this.recent.length > MAX_RECENT_LINES) {
+      this.recent.splice(0, this.recent.length - MAX_RECENT_LINES);
+    }
+  }
+
+  show(): void {
+    this.channel.show(true);
+  }
+
+  recentLines(): string[] {
+    return [...this.recent];
+  }
+
+  dispose(): void {
+    this.channel.dispose();
+  }
+}
+
+export function createOutputLogPort(settings: SettingsPort, name = 'MagicVid2Gif'): OutputLogPort {
+  return new OutputChannelLogPort(name, settings);
+}
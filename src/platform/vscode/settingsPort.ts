@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { SettingsPort } from '../../types/ports';
+import { SettingsPort, SettingsScope } from '../../types/ports';
 
 class VsCodeSettingsPort implements SettingsPort {
   private readonly section: string;
@@ -12,6 +12,17 @@ class VsCodeSettingsPort implements SettingsPort {
     const config = vscode.workspace.getConfiguration(this.section);
     return config.get<T>(key, fallback);
   }
+
+  inspect<T>(key: string, scope: SettingsScope): T | undefined {
+    const inspected = vscode.workspace.getConfiguration(this.section).inspect<T>(key);
+    return scope === 'workspace' ? inspected?.workspaceValue : inspected?.globalValue;
+  }
+
+  async update<T>(key: string, value: T, scope: SettingsScope): Promise<void> {
+    const config = vscode.workspace.getConfiguration(this.section);
+    const target = scope === 'workspace' ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    await config.update(key, value, target);
+  }
 }
 
 export function createSettingsPort(section?: string): SettingsPort {
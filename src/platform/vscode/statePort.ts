@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+import { StatePort } from '../../types/ports';
+
+class VsCodeStatePort implements StatePort {
+  private readonly memento: vscode.Memento;
+
+  constructor(memento: vscode.Memento) {
+    this.memento = memento;
+  }
+
+  get<T>(key: string, fallback: T): T {
+    return this.memento.get<T>(key, fallback);
+  }
+
+  async update<T>(key: string, value: T): Promise<void> {
+    await this.memento.update(key, value);
+  }
+}
+
+/**
+ * State shared by every workspace (`context.globalState`)
+ */
+export function createStatePort(context: vscode.ExtensionContext): StatePort {
+  return new VsCodeStatePort(context.globalState);
+}
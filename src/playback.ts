@@ -0,0 +1,73 @@
+import { ConversionOptions } from './types';
+
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 8;
+
+type PlaybackOptions = Pick<ConversionOptions, 'speed' | 'reverse' | 'boomerang' | 'holdLastFrame'>;
+
+/**
+ * Playback speed clamped to the supported range (1 when unset)
+ */
+export function getSpeed(options: PlaybackOptions): number {
+  const speed = options.speed ?? 1;
+  return Number.isFinite(speed) && speed > 0 ? Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed)) : 1;
+}
+
+/**
+ * Length of the animation produced from `selectedDuration` seconds of source
+ */
+export function getOutputDuration(selectedDuration: number, options: PlaybackOptions): number {
+  return (selectedDuration / getSpeed(options)) * (options.boomerang ? 2 : 1) + getHold(options);
+}
+
+/**
+ * Source seconds needed to produce `outputDuration` seconds of animation (inverse of getOutputDuration)
+ */
+export function getSourceDuration(outputDuration: number, options: PlaybackOptions): number {
+  return (Math.max(0, outputDuration - getHold(options)) * getSpeed(options)) / (options.boomerang ? 2 : 1);
+}
+
+function getHold(options: PlaybackOptions): number {
+  const hold = options.holdLastFrame ?? 0;
+  return Number.isFinite(hold) && hold > 0 ? hold : 0;
+}
+
+/**
+ * Retimes the stream; placed before `fps` so frames are sampled from the retimed video
+ */
+export function buildSpeedFilter(options: PlaybackOptions): string | null {
+  const speed = getSpeed(options);
+  return speed === 1 ? null : `setpts=PTS/${speed}`;
+}
+
+/**
+ * Appends reverse, boomerang and the final-frame hold to a filter chain. Boomerang plays the chain
+ * forward then backward; the first reversed frame duplicates the last forward one, so it is trimmed.
+ */
+export function appendPlayback(chain: string, options: PlaybackOptions): string {
+  let result = chain;
+  if (options.reverse) {
+    result = result === 'null' ? 'reverse' : `${result},reverse`;
+  }
+  if (options.boomerang) {
+    const head = result === 'null' ? '' : `${result},`;
+    result = `${head}split[fwd][bwd];[bwd]reverse,trim=start_frame=1,setpts=PTS-STARTPTS[rev];[fwd][rev]concat=n=2:v=1:a=0`;
+  }
+  const hold = getHold(options);
+  if (hold > 0) {
+    // Clones the last frame; the identical repeats compress to almost nothing. Only works because
+    // the conversion bounds its input: an output -t would cut the padding off
+    result = `${result === 'null' ? '' : `${result},`}tpad=stop_mode=clone:stop_duration=${hold}`;
+  }
+  return result;
+}
+
+export function describePlayback(options: PlaybackOptions): string {
+  const parts: string[] = [];
+  const speed = getSpeed(options);
+  if (speed !== 1) {parts.push(`${speed}×`);}
+  if (options.reverse) {parts.push('reversed');}
+  if (options.boomerang) {parts.push('boomerang');}
+  if (getHold(options) > 0) {parts.push(`${getHold(options)}s hold`);}
+  return parts.length > 0 ? parts.join(', ') : 'normal';
+}
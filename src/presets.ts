@@ -0,0 +1,132 @@
+import { DEFAULT_QUALITY, OUTPUT_FORMATS } from './outputFormats';
+import { isValidCrop } from './crop';
+import { isValidOverlay } from './overlays';
+import { DITHER_ALGORITHMS, PALETTE_STATS_MODES } from './palette';
+import { MAX_SPEED, MIN_SPEED } from './playback';
+import { isValidResolution } from './resolution';
+import { ConversionOptions } from './types';
+import { SettingsPort, SettingsScope } from './types/ports';
+
+export const PRESETS_KEY = 'presets';
+
+export type PresetMap = Record<string, Partial<ConversionOptions>>;
+
+const OPTIMIZATION_LEVELS = ['fast', 'balanced', 'quality', 'ultra'];
+
+type FieldCheck = (value: unknown) => boolean;
+
+const isNumber: FieldCheck = value => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isBoolean: FieldCheck = value => typeof value === 'boolean';
+const isString: FieldCheck = value => typeof value === 'string' && value.length > 0;
+const oneOf = (values: string[]): FieldCheck => value => typeof value === 'string' && values.includes(value);
+
+// Known ConversionOptions fields and how to validate them when read from settings
+const FIELD_CHECKS: Record<keyof ConversionOptions, FieldCheck> = {
+  startTime: isNumber,
+  duration: isNumber,
+  resolution: isValidResolution,
+  fps: value => isNumber(value) && (value as number) >= 1,
+  colorCount: value => isNumber(value) && (value as number) >= 2 && (value as number) <= 256,
+  optimizationLevel: oneOf(OPTIMIZATION_LEVELS),
+  dithering: isBoolean,
+  lossyCompression: isNumber,
+  ditherAlgorithm: oneOf(DITHER_ALGORITHMS.map(algorithm => algorithm.value)),
+  bayerScale: value => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 5,
+  paletteStatsMode: oneOf(PALETTE_STATS_MODES.map(mode => mode.value)),
+  diffMode: oneOf(['none', 'rectangle']),
+  maxOutputSizeMB: isNumber,
+  outputFormat: oneOf(Object.keys(OUTPUT_FORMATS)),
+  quality: value => isNumber(value) && (value as number) <= 100,
+  lossless: isBoolean,
+  speed: value => typeof value === 'number' && value >= MIN_SPEED && value <= MAX_SPEED,
+  reverse: isBoolean,
+  boomerang: isBoolean,
+  loopCount: value => Number.isInteger(value) && (value as number) >= 0,
+  holdLastFrame: isNumber,
+  crop: isValidCrop,
+  autoCrop: isBoolean,
+  frameFit: oneOf(['pad', 'scale']),
+  autoRotate: isBoolean,
+  squarePixels: isBoolean,
+  toneMap: isBoolean,
+  overlays: value => Array.isArray(value) && value.every(isValidOverlay)
+};
+
+/**
+ * Conversion options built from the `magicvid2gif.*` default settings
+ */
+export function getDefaultOptions(settings: SettingsPort): ConversionOptions {
+  return {
+    startTime: settings.get('defaultStartTime', 0),
+    duration: settings.get('defaultDuration', 0),
+    resolution: settings.get('defaultResolution', 'fit:1920:1080'),
+    fps: settings.get('defaultFps', 30),
+    colorCount: settings.get('colorCount', 128),
+    optimizationLevel: settings.get<ConversionOptions['optimizationLevel']>('optimizationLevel', 'ultra'),
+    dithering: settings.get('dithering', true),
+    lossyCompression: settings.get('lossyCompression', 80),
+    maxOutputSizeMB: settings.get('maxOutputSizeMB', 0),
+    outputFormat: settings.get<ConversionOptions['outputFormat']>('outputFormat', 'gif'),
+    quality: settings.get('quality', DEFAULT_QUALITY),
+    lossless: settings.get('lossless', false)
+  };
+}
+
+/**
+ * Keeps the valid, known fields of a preset and fills the rest from `defaults`
+ */
+export function normalizePreset(raw: unknown, defaults: ConversionOptions): ConversionOptions {
+  const result: ConversionOptions = { ...defaults };
+  if (!raw || typeof raw !== 'object') {
+    return result;
+  }
+
+  for (const [key, check] of Object.entries(FIELD_CHECKS)) {
+    const value = (raw as Record<string, unknown>)[key];
+    if (value !== undefined && check(value)) {
+      (result as unknown as Record<string, unknown>)[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Named conversion presets stored in the `magicvid2gif.presets` setting (user and workspace values are merged)
+ */
+export class PresetStore {
+  private readonly settings: SettingsPort;
+
+  constructor(settings: SettingsPort) {
+    this.settings = settings;
+  }
+
+  public list(): string[] {
+    return Object.keys(this.getAll()).sort((a, b) => a.localeCompare(b));
+  }
+
+  public get(name: string): ConversionOptions | null {
+    const raw = this.getAll()[name];
+    if (!raw) {return null;}
+    return normalizePreset(raw, getDefaultOptions(this.settings));
+  }
+
+  public async save(name: string, options: ConversionOptions, scope: SettingsScope): Promise<void> {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Preset name cannot be empty');
+    }
+
+    // Only rewrite the chosen scope so the other scope's presets are not copied over
+    const current = this.settings.inspect<PresetMap>(PRESETS_KEY, scope) ?? {};
+    await this.settings.update(PRESETS_KEY, { ...current, [trimmed]: stripUndefined(options) }, scope);
+  }
+
+  private getAll(): PresetMap {
+    const presets = this.settings.get<PresetMap>(PRESETS_KEY, {});
+    return presets && typeof presets === 'object' ? presets : {};
+  }
+}
+
+function stripUndefined(options: ConversionOptions): Partial<ConversionOptions> {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+}
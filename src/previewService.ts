@@ -0,0 +1,116 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ConversionPipeline, PipelineProgress } from './conversionPipeline';
+import { getFormatInfo } from './outputFormats';
+import { uniqueFileSuffix } from './outputPath';
+import { scaleOverlays } from './overlays';
+import { getOutputDuration, getSourceDuration } from './playback';
+import { resolveConversionSize } from './resolution';
+import { ConversionOptions, VideoMetadata } from './types';
+
+const PREVIEW_MAX_WIDTH = 320;
+const PREVIEW_MAX_FRAMES = 60;
+
+export interface PreviewResult {
+  previewPath: string;
+  previewSize: number;
+  previewOptions: ConversionOptions;
+  frames: number;
+  /** Projected size of the full conversion in bytes */
+  estimatedFullSize: number;
+  fullFrames: number;
+  fullWidth: number;
+  fullHeight: number;
+}
+
+/**
+ * Derives low-cost preview options: smaller frame, capped frame count, no size budget
+ */
+export function buildPreviewOptions(options: ConversionOptions, source: VideoMetadata): ConversionOptions {
+  const full = resolveConversionSize(options, source);
+  const scale = Math.min(1, PREVIEW_MAX_WIDTH / full.width);
+  const width = Math.max(2, Math.round((full.width * scale) / 2) * 2);
+
+  const fullDuration = getSelectedDuration(options, source);
+  // The frame cap applies to the animation, which speed and boomerang stretch or shrink
+  const maxDuration = getSourceDuration(PREVIEW_MAX_FRAMES / Math.max(1, options.fps), options);
+
+  return {
+    ...options,
+    resolution: `${width}:-2`,
+    overlays: scaleOverlays(options.overlays, width / full.width),
+    duration: Number((fullDuration > 0 ? Math.min(fullDuration, maxDuration) : maxDuration).toFixed(2)),
+    maxOutputSizeMB: 0
+  };
+}
+
+/**
+ * Length of the selected range in seconds (duration 0 = until the end)
+ */
+export function getSelectedDuration(options: Pick<ConversionOptions, 'startTime' | 'duration'>, source: VideoMetadata): number {
+  const remaining = Math.max(0, source.duration - (options.startTime || 0));
+  return options.duration > 0 ? Math.min(options.duration, remaining || options.duration) : remaining;
+}
+
+/**
+ * Extrapolates the full-size output from the preview: size scales with pixel area and frame count
+ */
+export function estimateFullSize(
+  previewSize: number,
+  previewOptions: ConversionOptions,
+  fullOptions: ConversionOptions,
+  source: VideoMetadata
+): number {
+  const previewDims = resolveConversionSize(previewOptions, source);
+  const fullDims = resolveConversionSize(fullOptions, source);
+  const areaRatio = (fullDims.width * fullDims.height) / Math.max(1, previewDims.width * previewDims.height);
+  const durationRatio = getSelectedDuration(fullOptions, source) / Math.max(0.01, previewOptions.duration);
+  return Math.round(previewSize * areaRatio * durationRatio);
+}
+
+/**
+ * Renders quick previews of a conversion into a temp folder
+ */
+export class PreviewService {
+  private readonly pipeline: ConversionPipeline;
+  private readonly tmpRoot: string;
+
+  constructor(pipeline: ConversionPipeline, tmpRoot: string) {
+    this.pipeline = pipeline;
+    this.tmpRoot = tmpRoot;
+  }
+
+  public async render(
+    inputPath: string,
+    options: ConversionOptions,
+    source: VideoMetadata,
+    onProgress: PipelineProgress,
+    signal?: AbortSignal
+  ): Promise<PreviewResult> {
+    options = await this.pipeline.resolveAutoCrop(inputPath, options, source, signal);
+    const previewOptions = buildPreviewOptions(options, source);
+    const previewPath = path.join(this.tmpRoot, `magicvid2gif_preview_${uniqueFileSuffix()}${getFormatInfo(options).extension}`);
+
+    const previewSize = await this.pipeline.run(inputPath, previewPath, previewOptions, onProgress, signal);
+    const full = resolveConversionSize(options, source);
+
+    return {
+      previewPath,
+      previewSize,
+      previewOptions,
+      frames: Math.round(getOutputDuration(previewOptions.duration, previewOptions) * previewOptions.fps),
+      estimatedFullSize: estimateFullSize(previewSize, previewOptions, options, source),
+      fullFrames: Math.round(getOutputDuration(getSelectedDuration(options, source), options) * options.fps),
+      fullWidth: full.width,
+      fullHeight: full.height
+    };
+  }
+
+  public discard(result: PreviewResult): void {
+    try {
+      fs.unlinkSync(result.previewPath);
+    } catch {
+      // already gone
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { croppedSize, fitResolutionToCrop } from './crop';
+import { ConversionOptions, CropRect, VideoMetadata } from './types';
+
+/**
+ * Accepted `resolution` forms:
+ * - `original`: no scaling
+ * - `W:H`: exact size; a `-1`/`-2` component follows the source aspect ratio
+ * - `N%`: percentage of the source size
+ * - `fit:W:H`: largest size inside the box that keeps the aspect ratio, never upscaled
+ *   (`-1` leaves a side unbounded, so `fit:800:-1` is "at most 800 wide")
+ */
+export type ResolutionSpec =
+  | { kind: 'original' }
+  | { kind: 'exact'; width: number; height: number }
+  | { kind: 'percent'; percent: number }
+  | { kind: 'fit'; width: number; height: number };
+
+export const RESOLUTION_FORMAT_HINT = 'width:height, width:-2, -2:height, 50% or fit:width:height';
+
+const EXACT_PATTERN = /^(-[12]|\d+):(-[12]|\d+)$/;
+const PERCENT_PATTERN = /^(\d+(?:\.\d+)?)%$/;
+const FIT_PATTERN = /^fit:(-1|\d+):(-1|\d+)$/;
+
+/**
+ * Parses a resolution setting; null when it is none of the accepted forms
+ */
+export function parseResolution(value: string | undefined): ResolutionSpec | null {
+  const text = (value ?? '').trim();
+  if (text === 'original') {
+    return { kind: 'original' };
+  }
+
+  const exact = EXACT_PATTERN.exec(text);
+  if (exact) {
+    const [width, height] = [exact[1], exact[2]].map(part => Number.parseInt(part, 10));
+    return width <= 0 && height <= 0 ? { kind: 'original' } : { kind: 'exact', width, height };
+  }
+
+  const percent = PERCENT_PATTERN.exec(text);
+  if (percent) {
+    const amount = Number.parseFloat(percent[1]);
+    return amount > 0 ? { kind: 'percent', percent: amount } : null;
+  }
+
+  const fit = FIT_PATTERN.exec(text);
+  if (fit) {
+    const [width, height] = [fit[1], fit[2]].map(part => Number.parseInt(part, 10));
+    return width <= 0 && height <= 0 ? { kind: 'original' } : { kind: 'fit', width, height };
+  }
+
+  return null;
+}
+
+export function isValidResolution(value: unknown): value is string {
+  return typeof value === 'string' && parseResolution(value) !== null;
+}
+
+/**
+ * FFmpeg scale filter for a resolution, or null when the frames keep their size. Every form
+ * except an explicit `W:H` rounds to even dimensions, which yuv420p encoders require.
+ */
+export function buildScaleFilter(resolution: string, crop?: CropRect): string | null {
+  const spec = parseResolution(fitResolutionToCrop(resolution, crop));
+
+  switch (spec?.kind) {
+    case 'exact': {
+      const side = (value: number) => (value > 0 ? String(value) : '-2');
+      return `scale=${side(spec.width)}:${side(spec.height)}:flags=lanczos`;
+    }
+    case 'percent': {
+      const factor = spec.percent / 200;
+      return `scale=trunc(iw*${factor})*2:trunc(ih*${factor})*2:flags=lanczos`;
+    }
+    case 'fit': {
+      // min() keeps small sources at their size; quoted because of the commas
+      const bound = (value: number, input: string) => (value > 0 ? `'min(${value},${input})'` : input);
+      return `scale=${bound(spec.width, 'iw')}:${bound(spec.height, 'ih')}:force_original_aspect_ratio=decrease:force_divisible_by=2:flags=lanczos`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolves a resolution to the actual output dimensions for a given source, rounded to even numbers
+ */
+export function resolveOutputSize(resolution: string, source: Pick<VideoMetadata, 'width' | 'height'>): { width: number; height: number } {
+  const aspect = source.height > 0 ? source.width / source.height : 16 / 9;
+  const spec = parseResolution(resolution);
+
+  switch (spec?.kind) {
+    case 'exact': {
+      const width = spec.width > 0 ? spec.width : spec.height * aspect;
+      const height = spec.height > 0 ? spec.height : spec.width / aspect;
+      return { width: toEven(width), height: toEven(height) };
+    }
+    case 'percent': {
+      // Same rounding as the trunc() expressions of the filter
+      const scaled = (value: number) => Math.max(2, Math.trunc((value * spec.percent) / 200) * 2);
+      return { width: scaled(source.width), height: scaled(source.height) };
+    }
+    case 'fit': {
+      const scale = Math.min(
+        1,
+        spec.width > 0 ? spec.width / source.width : Infinity,
+        spec.height > 0 ? spec.height / source.height : Infinity
+      );
+      return { width: toEven(source.width * scale), height: toEven(source.height * scale) };
+    }
+    default:
+      return { width: toEven(source.width), height: toEven(source.height) };
+  }
+}
+
+/**
+ * Output dimensions of a conversion, once the crop (if any) is applied to the source
+ */
+export function resolveConversionSize(
+  options: Pick<ConversionOptions, 'resolution' | 'crop'>,
+  source: Pick<VideoMetadata, 'width' | 'height'>
+): { width: number; height: number } {
+  return resolveOutputSize(fitResolutionToCrop(options.resolution, options.crop), croppedSize(source, options.crop));
+}
+
+/**
+ * Sizes offered in the advanced dialog, derived from the source so that vertical and square
+ * videos are never forced into 16:9. Only downscales are listed.
+ */
+export function getResolutionChoices(source: Pick<VideoMetadata, 'width' | 'height'>): { value: string; label: string }[] {
+  const longSide = Math.max(source.width, source.height);
+  const choices: { value: string; label: string }[] = [];
+
+  for (const limit of [1920, 1280, 960, 640, 480, 320]) {
+    if (limit < longSide) {
+      const value = `fit:${limit}:${limit}`;
+      const size = resolveOutputSize(value, source);
+      choices.push({ value, label: `${size.width}x${size.height} (longest side ${limit})` });
+    }
+  }
+  for (const percent of [50, 25]) {
+    const size = resolveOutputSize(`${percent}%`, source);
+    choices.push({ value: `${percent}%`, label: `${percent}% (${size.width}x${size.height})` });
+  }
+
+  return choices;
+}
+
+function toEven(value: number): number {
+  return Math.max(2, Math.round(value / 2) * 2);
+}
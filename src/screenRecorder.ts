@@ -0,0 +1,158 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import * as fs from 'node:fs';
+import { formatCrop } from './crop';
+import { FfmpegManager } from './ffmpegManager';
+import { CropRect } from './types';
+
+/** FFmpeg input device used for the capture; `lavfi` renders a test pattern instead of a display */
+export type CaptureSource = 'x11grab' | 'kmsgrab' | 'avfoundation' | 'gdigrab' | 'lavfi';
+
+export interface RecordingOptions {
+  source: CaptureSource;
+  fps: number;
+  /** Area in screen pixels; the whole screen when unset */
+  region?: CropRect;
+  /** Let the user drag the area on screen when recording starts (x11grab only) */
+  selectRegion?: boolean;
+  /** The capture stops by itself after this many seconds */
+  maxDuration: number;
+  /** X display, DRM device, avfoundation screen or lavfi graph, depending on the source */
+  device?: string;
+}
+
+// Gives FFmpeg time to finalize the file after 'q' before it is killed
+const STOP_TIMEOUT_MS = 5000;
+
+/**
+ * Screen grabber for the current session. Native Wayland windows are invisible to x11grab,
+ * so Wayland sessions read the framebuffer through kmsgrab (needs `cap_sys_admin` on FFmpeg).
+ */
+export function detectCaptureSource(platform: NodeJS.Platform, env: NodeJS.ProcessEnv): CaptureSource | null {
+  if (platform === 'darwin') {return 'avfoundation';}
+  if (platform === 'win32') {return 'gdigrab';}
+  if (platform !== 'linux') {return null;}
+
+  if (env.XDG_SESSION_TYPE === 'wayland' || (env.WAYLAND_DISPLAY && !env.DISPLAY)) {
+    return 'kmsgrab';
+  }
+  return env.DISPLAY ? 'x11grab' : null;
+}
+
+/**
+ * FFmpeg arguments writing a lossless intermediate capture. Matroska stays readable even
+ * when FFmpeg is killed before it finalizes the file.
+ */
+export function buildRecordingArgs(outputPath: string, options: RecordingOptions): string[] {
+  const fps = String(options.fps);
+  const region = options.region;
+  const size = region ? `${region.width}x${region.height}` : undefined;
+  const filters: string[] = [];
+  let input: string[];
+
+  switch (options.source) {
+    case 'x11grab': {
+      const area = options.selectRegion ? ['-select_region', '1'] : (size ? ['-video_size', size] : []);
+      const offset = region && !options.selectRegion ? `+${region.x},${region.y}` : '';
+      input = ['-f', 'x11grab', '-framerate', fps, '-draw_mouse', '1', ...area, '-i', `${options.device || ':0.0'}${offset}`];
+      break;
+    }
+    case 'kmsgrab':
+      input = ['-device', options.device || '/dev/dri/card0', '-f', 'kmsgrab', '-framerate', fps, '-i', '-'];
+      filters.push('hwdownload', 'format=bgr0');
+      break;
+    case 'avfoundation':
+      input = ['-f', 'avfoundation', '-framerate', fps, '-capture_cursor', '1', '-i', `${options.device || 'Capture screen 0'}:none`];
+      break;
+    case 'gdigrab': {
+      const area = region ? ['-offset_x', String(region.x), '-offset_y', String(region.y), '-video_size', size as string] : [];
+      input = ['-f', 'gdigrab', '-framerate', fps, '-draw_mouse', '1', ...area, '-i', options.device || 'desktop'];
+      break;
+    }
+    case 'lavfi':
+      input = ['-f', 'lavfi', '-i', options.device || `testsrc2=size=${size ?? '640x360'}:rate=${fps}`];
+      break;
+  }
+
+  // Grabbers without a native area option capture the whole screen and crop afterwards
+  if (region && (options.source === 'kmsgrab' || options.source === 'avfoundation')) {
+    filters.push(`crop=${formatCrop(region)}`);
+  }
+
+  return [
+    '-hide_banner', '-loglevel', 'error', '-y',
+    ...input,
+    '-t', String(options.maxDuration),
+    ...(filters.length > 0 ? ['-vf', filters.join(',')] : []),
+    // yuv444p accepts odd region sizes, which yuv420p rejects
+    '-c:v', 'libx264', '-preset', 'ultrafast', '-crf', '0', '-pix_fmt', 'yuv444p',
+    outputPath
+  ];
+}
+
+/**
+ * Records the screen with the managed FFmpeg until stopped
+ */
+export class ScreenRecorder {
+  private readonly ffmpegManager: FfmpegManager;
+  private process: ChildProcess | null = null;
+  private stopping = false;
+
+  constructor(ffmpegManager: FfmpegManager) {
+    this.ffmpegManager = ffmpegManager;
+  }
+
+  public isRecording(): boolean {
+    return this.process !== null;
+  }
+
+  /**
+   * Starts the capture and resolves once the file is complete (after stop() or maxDuration)
+   */
+  public async record(outputPath: string, options: RecordingOptions): Promise<void> {
+    if (this.process) {
+      throw new Error('A screen recording is already running');
+    }
+    const ffmpegPath = await this.ffmpegManager.getFfmpegPath();
+    if (!ffmpegPath) {
+      throw new Error('FFmpeg not available. Installation required.');
+    }
+
+    this.stopping = false;
+    const child = spawn(ffmpegPath, buildRecordingArgs(outputPath, options), { stdio: ['pipe', 'ignore', 'pipe'] });
+    this.process = child;
+
+    let stderr = '';
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr = (stderr + chunk.toString()).slice(-2000);
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        child.on('error', reject);
+        child.on('close', (code) => {
+          // A forced stop still leaves a usable Matroska file
+          if (code === 0 || (this.stopping && fs.existsSync(outputPath))) {
+            resolve();
+          } else {
+            reject(new Error(`Screen capture failed: ${stderr.trim().split('\n').pop() || `FFmpeg exited with code ${code}`}`));
+          }
+        });
+      });
+    } finally {
+      this.process = null;
+    }
+  }
+
+  /**
+   * Asks FFmpeg to finish the file ('q' on stdin), killing it if it does not exit in time
+   */
+  public stop(): void {
+    const child = this.process;
+    if (!child || this.stopping) {return;}
+    this.stopping = true;
+
+    child.stdin?.write('q\n');
+    const timer = setTimeout(() => child.kill(), STOP_TIMEOUT_MS);
+    child.once('close', () => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,92 @@
+import { croppedSize } from './crop';
+import { DEFAULT_QUALITY, getFormatInfo } from './outputFormats';
+import { parseResolution, resolveOutputSize } from './resolution';
+import { ConversionOptions, VideoMetadata } from './types';
+
+export const MAX_BUDGET_ATTEMPTS = 6;
+
+const MIN_FPS = 5;
+const MIN_WIDTH = 64;
+const MIN_COLORS = 32;
+const MAX_LOSSY = 200;
+const LOSSY_STEP = 40;
+const MIN_QUALITY = 10;
+const QUALITY_STEP = 15;
+
+/**
+ * Converts a megabyte budget into bytes
+ */
+export function budgetToBytes(maxOutputSizeMB: number): number {
+  return Math.floor(maxOutputSizeMB * 1024 * 1024);
+}
+
+/**
+ * Computes the options for the next attempt of a size-constrained conversion.
+ * `ratio` is budget / last output size (< 1 when the last result was too big).
+ * Returns null when every setting already sits at its floor.
+ */
+export function nextBudgetAttempt(
+  options: ConversionOptions,
+  ratio: number,
+  source: VideoMetadata
+): ConversionOptions | null {
+  // Aim slightly below the budget so the next attempt has some margin
+  const target = Math.min(Math.max(ratio * 0.9, 0.1), 0.95);
+
+  // Spread the reduction over frame count and pixel area (size ≈ fps × area)
+  const fpsFactor = Math.max(0.5, Math.cbrt(target));
+  const dimFactor = Math.max(0.5, Math.cbrt(target));
+
+  const fps = Math.max(MIN_FPS, Math.round(options.fps * fpsFactor));
+  const resolution = scaleResolution(options.resolution, dimFactor, croppedSize(source, options.crop));
+  const next: ConversionOptions = { ...options, fps, resolution };
+
+  if (getFormatInfo(options).usesPalette) {
+    next.colorCount = target < 0.85 ? Math.max(MIN_COLORS, Math.floor(options.colorCount / 2)) : options.colorCount;
+    next.lossyCompression = Math.min(MAX_LOSSY, options.lossyCompression + LOSSY_STEP);
+  } else if (getFormatInfo(options).supportsQuality) {
+    // Dropping lossless usually saves more than any other single step
+    if (options.lossless) {
+      next.lossless = false;
+      next.quality = options.quality ?? DEFAULT_QUALITY;
+    } else {
+      next.quality = Math.max(MIN_QUALITY, (options.quality ?? DEFAULT_QUALITY) - QUALITY_STEP);
+    }
+  }
+
+  const unchanged = next.fps === options.fps
+    && next.resolution === options.resolution
+    && next.colorCount === options.colorCount
+    && next.lossyCompression === options.lossyCompression
+    && next.quality === options.quality
+    && next.lossless === options.lossless;
+
+  return unchanged ? null : next;
+}
+
+/**
+ * Scales a resolution by `factor`, keeping its form and even dimensions: `-1` components stay,
+ * percentages are lowered, and `fit:` boxes shrink around the size they actually produce
+ */
+export function scaleResolution(resolution: string, factor: number, source: VideoMetadata): string {
+  const spec = parseResolution(resolution);
+  const current = resolveOutputSize(resolution, source);
+
+  // Never shrink below the minimum width
+  if (current.width * factor < MIN_WIDTH) {
+    factor = Math.min(1, MIN_WIDTH / Math.max(current.width, 1));
+  }
+  const scale = (value: number) => (value > 0 ? Math.max(2, Math.round((value * factor) / 2) * 2) : value);
+
+  switch (spec?.kind) {
+    case 'exact':
+      return `${scale(spec.width)}:${scale(spec.height)}`;
+    case 'percent':
+      return `${Number((spec.percent * factor).toFixed(1))}%`;
+    case 'fit':
+      // A box larger than the source has no effect, so shrink the produced size instead
+      return `fit:${spec.width > 0 ? scale(current.width) : -1}:${spec.height > 0 ? scale(current.height) : -1}`;
+    default:
+      return `${scale(current.width)}:${scale(current.height)}`;
+  }
+}
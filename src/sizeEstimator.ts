@@ -0,0 +1,130 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ConversionPipeline, formatMB, PipelineProgress } from './conversionPipeline';
+import { formatDuration } from './mediaInfo';
+import { getFormatInfo } from './outputFormats';
+import { uniqueFileSuffix } from './outputPath';
+import { getSelectedDuration } from './previewService';
+import { ConversionOptions, VideoMetadata } from './types';
+
+export const ESTIMATE_SAMPLE_COUNT = 3;
+// Source seconds converted per sample
+const SAMPLE_SECONDS = 2;
+// Shorter selections are converted right away: sampling would cost a good part of the conversion
+const MIN_SAMPLED_RATIO = 5;
+
+export interface SampleSegment {
+  startTime: number;
+  duration: number;
+}
+
+export interface SampleResult extends SampleSegment {
+  /** Output size in bytes, after Gifsicle */
+  size: number;
+  /** Wall-clock seconds the sample took */
+  elapsed: number;
+}
+
+export interface SizeEstimate {
+  /** Projected output size in bytes */
+  size: number;
+  /** Projected wall-clock conversion time in seconds */
+  seconds: number;
+  samples: number;
+}
+
+/**
+ * Evenly spread segments of the selected range (beginning, middle, end for three samples),
+ * or null when the selection is too short to be worth sampling
+ */
+export function planSampleSegments(
+  options: Pick<ConversionOptions, 'startTime' | 'duration'>,
+  source: VideoMetadata,
+  count = ESTIMATE_SAMPLE_COUNT
+): SampleSegment[] | null {
+  const selected = getSelectedDuration(options, source);
+  if (selected <= count * SAMPLE_SECONDS * MIN_SAMPLED_RATIO) {
+    return null;
+  }
+
+  const start = options.startTime || 0;
+  const step = (selected - SAMPLE_SECONDS) / Math.max(1, count - 1);
+  return Array.from({ length: count }, (_, index) => ({
+    startTime: Number((start + step * index).toFixed(2)),
+    duration: SAMPLE_SECONDS
+  }));
+}
+
+/**
+ * Size and time per source second of the samples, applied to the whole selection
+ */
+export function extrapolateEstimate(
+  samples: SampleResult[],
+  options: Pick<ConversionOptions, 'startTime' | 'duration'>,
+  source: VideoMetadata
+): SizeEstimate {
+  const sampled = samples.reduce((total, sample) => total + sample.duration, 0);
+  const ratio = getSelectedDuration(options, source) / Math.max(0.01, sampled);
+  return {
+    size: Math.round(samples.reduce((total, sample) => total + sample.size, 0) * ratio),
+    seconds: Math.round(samples.reduce((total, sample) => total + sample.elapsed, 0) * ratio),
+    samples: samples.length
+  };
+}
+
+/**
+ * Converts a few short segments with the real options (Gifsicle included) to project the full result
+ */
+export class SizeEstimator {
+  private readonly pipeline: ConversionPipeline;
+  private readonly tmpRoot: string;
+
+  constructor(pipeline: ConversionPipeline, tmpRoot: string) {
+    this.pipeline = pipeline;
+    this.tmpRoot = tmpRoot;
+  }
+
+  /**
+   * Resolves with null when the selection is short enough to convert right away
+   */
+  public async estimate(
+    inputPath: string,
+    options: ConversionOptions,
+    source: VideoMetadata,
+    onProgress: PipelineProgress,
+    signal?: AbortSignal
+  ): Promise<SizeEstimate | null> {
+    const segments = planSampleSegments(options, source);
+    if (!segments) {return null;}
+
+    // Detected once so every sample (and the conversion) crops the same way
+    options = await this.pipeline.resolveAutoCrop(inputPath, options, source, signal);
+    const extension = getFormatInfo(options).extension;
+    const samples: SampleResult[] = [];
+
+    for (const [index, segment] of segments.entries()) {
+      const samplePath = path.join(this.tmpRoot, `magicvid2gif_estimate_${uniqueFileSuffix()}_${index}${extension}`);
+      const label = `Sampling ${index + 1}/${segments.length}`;
+      const started = Date.now();
+      try {
+        // No size budget retries and no final-frame hold: the estimate is per second of footage
+        const sampleOptions: ConversionOptions = { ...options, ...segment, maxOutputSizeMB: 0, holdLastFrame: 0 };
+        const size = await this.pipeline.run(inputPath, samplePath, sampleOptions, (percent) => {
+          onProgress(((index + percent / 100) / segments.length) * 100, `${label}...`);
+        }, signal);
+        samples.push({ ...segment, size, elapsed: (Date.now() - started) / 1000 });
+      } finally {
+        fs.rmSync(samplePath, { force: true });
+      }
+    }
+
+    return extrapolateEstimate(samples, options, source);
+  }
+}
+
+/**
+ * One-line summary, e.g. "~12.40MB in ~1m 20s"
+ */
+export function formatEstimate(estimate: SizeEstimate): string {
+  return `~${formatMB(estimate.size)} in ~${formatDuration(Math.max(1, estimate.seconds))}`;
+}
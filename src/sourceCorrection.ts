@@ -0,0 +1,116 @@
+import { ConversionOptions, VideoMetadata } from './types';
+
+/** `zscale` does a proper PQ/HLG tone map; FFmpeg builds without zimg get an approximation */
+export type ToneMapper = 'zscale' | 'fallback';
+
+/**
+ * What has to happen to the source frames before crop and scale see them
+ */
+export interface SourceCorrection {
+  /** Clockwise degrees to turn the frames (0, 90, 180 or 270) */
+  rotation: number;
+  /** Set when anamorphic pixels are stretched to square ones */
+  squarePixels: boolean;
+  /** Set when HDR frames are tone mapped to SDR */
+  toneMap?: ToneMapper;
+}
+
+/**
+ * Widens (or heightens) anamorphic frames to square pixels; a no-op for square pixels.
+ * Quoted so it can be used in -vf as well as in a filter_complex chain.
+ */
+export const SQUARE_PIXELS_FILTER = "scale='if(gt(sar,1),trunc(iw*sar/2)*2,iw)':'if(lt(sar,1),trunc(ih/sar/2)*2,ih)':flags=lanczos,setsar=1";
+
+const TONE_MAP_FILTERS: Record<ToneMapper, string> = {
+  zscale: 'zscale=t=linear:npl=100,format=gbrpf32le,zscale=p=bt709,tonemap=tonemap=hable:desat=0,zscale=t=bt709:m=bt709:r=tv,format=yuv420p',
+  // Converts the matrix only and lifts the flat PQ picture; far from exact but no longer washed out
+  fallback: 'scale=in_color_matrix=bt2020:out_color_matrix=bt709,eq=contrast=1.2:saturation=1.3,format=yuv420p'
+};
+
+/**
+ * Corrections for the source, honouring the overrides of the advanced dialog
+ */
+export function resolveSourceCorrection(
+  source: VideoMetadata,
+  options: Pick<ConversionOptions, 'autoRotate' | 'squarePixels' | 'toneMap'>,
+  toneMapper: ToneMapper = 'zscale'
+): SourceCorrection {
+  return {
+    rotation: options.autoRotate === false ? 0 : source.rotation ?? 0,
+    squarePixels: options.squarePixels !== false && isAnamorphic(source),
+    toneMap: options.toneMap !== false && source.hdr ? toneMapper : undefined
+  };
+}
+
+export function isAnamorphic(source: Pick<VideoMetadata, 'sampleAspectRatio'>): boolean {
+  return source.sampleAspectRatio !== undefined && Math.abs(source.sampleAspectRatio - 1) > 0.01;
+}
+
+export function needsSourceCorrection(source: VideoMetadata): boolean {
+  return Boolean(source.rotation) || isAnamorphic(source) || source.hdr === true;
+}
+
+/**
+ * Rotation then square pixels; runs first so crop and scale work in display coordinates
+ */
+export function buildOrientationFilters(correction: SourceCorrection): string[] {
+  const filters: string[] = [];
+  switch (correction.rotation) {
+    case 90:
+      filters.push('transpose=clock');
+      break;
+    case 180:
+      filters.push('hflip', 'vflip');
+      break;
+    case 270:
+      filters.push('transpose=cclock');
+      break;
+  }
+  // transpose also inverts the pixel aspect, which the expressions read from the frame
+  if (correction.squarePixels) {
+    filters.push(SQUARE_PIXELS_FILTER);
+  }
+  return filters;
+}
+
+export function buildToneMapFilter(toneMapper: ToneMapper): string {
+  return TONE_MAP_FILTERS[toneMapper];
+}
+
+/**
+ * Frame size after the corrections, matching what SQUARE_PIXELS_FILTER produces
+ */
+export function getDisplaySize(
+  coded: { width: number; height: number },
+  rotation: number,
+  sampleAspectRatio = 1,
+  squarePixels = true
+): { width: number; height: number } {
+  let { width, height } = coded;
+  if (squarePixels && sampleAspectRatio > 1) {
+    width = Math.trunc((width * sampleAspectRatio) / 2) * 2;
+  } else if (squarePixels && sampleAspectRatio > 0 && sampleAspectRatio < 1) {
+    height = Math.trunc(height / sampleAspectRatio / 2) * 2;
+  }
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Source metadata as seen by crop and scale once the dialog overrides are applied
+ */
+export function correctedSize(
+  source: VideoMetadata,
+  options: Pick<ConversionOptions, 'autoRotate' | 'squarePixels'>
+): VideoMetadata {
+  if (source.codedWidth === undefined || source.codedHeight === undefined) {
+    return source;
+  }
+  const correction = resolveSourceCorrection(source, options);
+  const size = getDisplaySize(
+    { width: source.codedWidth, height: source.codedHeight },
+    correction.rotation,
+    source.sampleAspectRatio,
+    correction.squarePixels
+  );
+  return { ...source, ...size };
+}
@@ -81,7 +81,11 @@ suite('FFmpeg - real install E2E', () => {
       withProgress: async <T>(_title: string, task: (update: (percent: number, msg?: string) => void) => Promise<T>): Promise<T> =>
         task(() => {})
     };
-    const fallbackSettings: SettingsPort = { get: <T>(_key: string, fallback: T): T => fallback };
+    const fallbackSettings: SettingsPort = {
+      get: <T>(_key: string, fallback: T): T => fallback,
+      inspect: () => undefined,
+      update: async () => {}
+    };
     const fallbackWorkspace: WorkspacePort = {
       storagePath: () => tempRoot,
       tmpPath: () => tempRoot,
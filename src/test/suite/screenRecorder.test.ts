@@ -0,0 +1,35 @@
+import * as assert from 'node:assert';
+import { execFile } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { promisify } from 'node:util';
+import { FfmpegManager } from '../../ffmpegManager';
+import { ScreenRecorder } from '../../screenRecorder';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Records FFmpeg's lavfi test pattern instead of a display, so it runs headless in CI
+ */
+suite('ScreenRecorder - lavfi E2E', () => {
+  test('records the test source until maxDuration and writes a playable capture', async function () {
+    this.timeout(30000);
+    try {
+      await execFileAsync('ffmpeg', ['-version']);
+    } catch {
+      this.skip();
+    }
+
+    const outputPath = path.join(os.tmpdir(), `magicvid2gif_recording_${Date.now()}.mkv`);
+    const manager = { getFfmpegPath: async () => 'ffmpeg' } as unknown as FfmpegManager;
+    const recorder = new ScreenRecorder(manager);
+
+    try {
+      await recorder.record(outputPath, { source: 'lavfi', fps: 10, region: { width: 320, height: 240, x: 0, y: 0 }, maxDuration: 1 });
+      assert.ok(fs.statSync(outputPath).size > 0);
+    } finally {
+      fs.rmSync(outputPath, { force: true });
+    }
+  });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { BatchConverter, collectVideoFiles } from '../../batchConverter';
+
+suite('BatchConverter - unit', () => {
+  test('collectVideoFiles walks folders and keeps supported extensions', async () => {
+    const root = path.join(os.tmpdir(), `batch_test_${Date.now()}`);
+    fs.mkdirSync(path.join(root, 'nested'), { recursive: true });
+    fs.writeFileSync(path.join(root, 'a.mp4'), '');
+    fs.writeFileSync(path.join(root, 'notes.txt'), '');
+    fs.writeFileSync(path.join(root, 'nested', 'b.MOV'), '');
+
+    // A link back to the root would otherwise be walked forever
+    fs.symlinkSync(root, path.join(root, 'nested', 'loop'), 'dir');
+
+    const files = await collectVideoFiles([root, path.join(root, 'a.mp4')]);
+    assert.deepStrictEqual(files, [path.join(root, 'a.mp4'), path.join(root, 'nested', 'b.MOV')]);
+
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('run respects the concurrency bound and summarizes results', async () => {
+    let running = 0;
+    let peak = 0;
+    const batch = new BatchConverter(async (item) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      if (item.inputPath === 'bad.mp4') { throw new Error('boom'); }
+      return 10;
+    }, 2);
+
+    const summary = await batch.run(
+      ['a.mp4', 'b.mp4', 'bad.mp4', 'c.mp4'].map(inputPath => ({ inputPath, outputPath: `${inputPath}.gif` })),
+      () => {}
+    );
+
+    assert.strictEqual(peak, 2);
+    assert.strictEqual(summary.succeeded, 3);
+    assert.strictEqual(summary.failed, 1);
+    assert.strictEqual(summary.items[2].error, 'boom');
+  });
+
+  test('cancel aborts a running item without stopping the others', async () => {
+    const batch = new BatchConverter((item, signal) => new Promise<number>((resolve, reject) => {
+      if (item.inputPath === 'slow.mp4') {
+        signal.addEventListener('abort', () => reject(new Error('Conversion cancelled by user')));
+        setTimeout(() => batch.cancel(item), 5);
+        return;
+      }
+      resolve(1);
+    }), 2);
+
+    const summary = await batch.run(
+      ['slow.mp4', 'fast.mp4'].map(inputPath => ({ inputPath, outputPath: `${inputPath}.gif` })),
+      () => {}
+    );
+
+    assert.strictEqual(summary.cancelled, 1);
+    assert.strictEqual(summary.succeeded, 1);
+  });
+
+  test('an item cancelled after FFmpeg is not reported as done', async () => {
+    const batch = new BatchConverter(async (item, _signal, _onProgress, context) => {
+      context.phase?.('optimizing');
+      batch.cancel(item);
+      // An optimizer pass that does not watch the signal still completes
+      await new Promise(resolve => setTimeout(resolve, 5));
+      return 1;
+    }, 1);
+
+    const summary = await batch.run([{ inputPath: 'clip.mp4', outputPath: 'clip.gif' }], () => {});
+    assert.strictEqual(summary.cancelled, 1);
+    assert.strictEqual(summary.succeeded, 0);
+    assert.strictEqual(summary.items[0].outputSize, undefined);
+  });
+});
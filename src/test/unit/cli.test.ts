@@ -0,0 +1,86 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { CliUsageError, parseCliArgs, resolveOptions, resolveOutputPaths } from '../../cli';
+import { createFileSettingsPort, loadConfigFile } from '../../platform/node';
+
+suite('CLI - unit', () => {
+  let tmpDir: string;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mv2g-cli-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test('parseCliArgs maps flags to conversion options', () => {
+    const args = parseCliArgs(['demo.mp4', '--fps', '15', '--width', '800', '--format', 'webp', '--dither', 'off', '--json']);
+    assert.deepStrictEqual(args.inputs, ['demo.mp4']);
+    assert.deepStrictEqual(args.overrides, { fps: 15, resolution: '800:-2', outputFormat: 'webp', dithering: false });
+    assert.strictEqual(args.json, true);
+    assert.strictEqual(args.verbose, false);
+    assert.strictEqual(parseCliArgs(['a.mp4', '--verbose']).verbose, true);
+
+    assert.strictEqual(parseCliArgs(['a.mp4', '--crop', 'auto']).overrides.autoCrop, true);
+    assert.deepStrictEqual(parseCliArgs(['a.mp4', '--crop', '640:480:0:60']).overrides.crop, { width: 640, height: 480, x: 0, y: 60 });
+
+    const sequence = parseCliArgs(['export/shot_*.png', '--frames', '24', '--fit', 'scale']);
+    assert.strictEqual(sequence.sequenceFps, 24);
+    assert.strictEqual(sequence.overrides.frameFit, 'scale');
+    assert.strictEqual(parseCliArgs(['a.mp4']).sequenceFps, undefined);
+  });
+
+  test('parseCliArgs rejects invalid values', () => {
+    assert.throws(() => parseCliArgs(['a.mp4', '--fps', 'fast']), CliUsageError);
+    assert.throws(() => parseCliArgs(['a.mp4', '--format', 'bmp']), CliUsageError);
+    assert.throws(() => parseCliArgs(['a.mp4', '--resolution', '800:-2', '--width', '640']), CliUsageError);
+    assert.throws(() => parseCliArgs(['a.mp4', '--unknown']), CliUsageError);
+    assert.throws(() => parseCliArgs(['a.mp4', '--crop', '100x100']), CliUsageError);
+    assert.throws(() => parseCliArgs(['a.mp4', '--resolution', '1280x720']), CliUsageError);
+    assert.strictEqual(parseCliArgs(['a.mp4', '--resolution', 'fit:1280:720']).overrides.resolution, 'fit:1280:720');
+  });
+
+  test('config file presets are applied under command-line flags', () => {
+    const configPath = path.join(tmpDir, 'config.json');
+    fs.writeFileSync(configPath, `{
+      // Shared with .vscode/settings.json
+      "magicvid2gif.defaultFps": 24,
+      "magicvid2gif.presets": { "docs": { "fps": 10, "resolution": "640:-2", "colorCount": 64, }, },
+      "editor.tabSize": 2,
+    }`);
+
+    const settings = createFileSettingsPort(loadConfigFile(configPath), configPath);
+    const options = resolveOptions(parseCliArgs(['a.mp4', '--preset', 'docs', '--fps', '12']), settings);
+    assert.strictEqual(options.fps, 12);
+    assert.strictEqual(options.resolution, '640:-2');
+    assert.strictEqual(options.colorCount, 64);
+
+    assert.throws(() => resolveOptions(parseCliArgs(['a.mp4', '--preset', 'missing']), settings), /available: docs/);
+  });
+
+  test('resolveOutputPaths writes next to the input or into --output', () => {
+    const input = path.join(tmpDir, 'clip.mp4');
+    assert.deepStrictEqual(resolveOutputPaths([input], undefined, '.gif'), [path.join(tmpDir, 'clip_magic.gif')]);
+    assert.deepStrictEqual(resolveOutputPaths([input], path.join(tmpDir, 'out.gif'), '.gif'), [path.join(tmpDir, 'out.gif')]);
+    assert.deepStrictEqual(
+      resolveOutputPaths([input, path.join(tmpDir, 'b.mov')], path.join(tmpDir, 'gifs'), '.webp'),
+      [path.join(tmpDir, 'gifs', 'clip_magic.webp'), path.join(tmpDir, 'gifs', 'b_magic.webp')]
+    );
+  });
+
+  test('resolveOutputPaths applies the naming settings under --output', () => {
+    const input = path.join(tmpDir, 'clip.mp4');
+    const naming = { pattern: '${name}-${fps}fps', directory: 'gifs' };
+    const tokens = (file: string) => ({ name: path.parse(file).name, preset: 'docs', fps: 12, date: '20261019-143205', workspaceFolder: tmpDir });
+
+    assert.deepStrictEqual(resolveOutputPaths([input], undefined, '.gif', naming, tokens), [path.join(tmpDir, 'gifs', 'clip-12fps.gif')]);
+    assert.deepStrictEqual(resolveOutputPaths([input], path.join(tmpDir, 'out'), '.gif', naming, tokens), [path.join(tmpDir, 'out', 'clip-12fps.gif')]);
+    assert.deepStrictEqual(resolveOutputPaths([input], path.join(tmpDir, 'out.gif'), '.gif', naming, tokens), [path.join(tmpDir, 'out.gif')]);
+
+    assert.strictEqual(parseCliArgs(['a.mp4', '--collision', 'increment']).collision, 'increment');
+    assert.throws(() => parseCliArgs(['a.mp4', '--collision', 'rename']), CliUsageError);
+  });
+});
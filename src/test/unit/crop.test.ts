@@ -0,0 +1,30 @@
+import * as assert from 'node:assert';
+import { fitResolutionToCrop, parseCrop, parseCropDetect } from '../../crop';
+import { resolveConversionSize } from '../../resolution';
+
+suite('Crop - unit', () => {
+  const source = { width: 1920, height: 1080 };
+
+  test('parseCrop reads width:height:x:y', () => {
+    assert.deepStrictEqual(parseCrop('1280:720:10:40'), { width: 1280, height: 720, x: 10, y: 40 });
+    assert.strictEqual(parseCrop('1280x720'), null);
+    assert.strictEqual(parseCrop('0:720:0:0'), null);
+  });
+
+  test('parseCropDetect keeps the last suggestion and ignores full frames', () => {
+    const lines = [
+      '[Parsed_cropdetect_0 @ 0x1] x1:0 x2:1919 y1:142 y2:937 w:1920 h:796 x:0 y:142 pts:1 t:0.04 crop=1920:796:0:142',
+      '[Parsed_cropdetect_0 @ 0x1] x1:0 x2:1919 y1:140 y2:939 w:1920 h:800 x:0 y:140 pts:2 t:0.08 crop=1920:800:0:140'
+    ];
+    assert.deepStrictEqual(parseCropDetect(lines, source), { width: 1920, height: 800, x: 0, y: 140 });
+    assert.strictEqual(parseCropDetect(['crop=1920:1080:0:0'], source), null);
+    assert.strictEqual(parseCropDetect([], source), null);
+  });
+
+  test('explicit resolutions are fitted to the cropped aspect ratio', () => {
+    const crop = { width: 800, height: 800, x: 560, y: 140 };
+    assert.strictEqual(fitResolutionToCrop('1280:720', crop), '720:720');
+    assert.strictEqual(fitResolutionToCrop('640:-2', crop), '640:-2');
+    assert.deepStrictEqual(resolveConversionSize({ resolution: '400:-2', crop }, source), { width: 400, height: 400 });
+  });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'node:assert';
+import { buildDiagnosticsReport, DIAGNOSTICS_JOB_COUNT } from '../../diagnostics';
+import { Job } from '../../jobQueue';
+import { formatLogLine, isLevelEnabled, parseLogLevel } from '../../logging';
+
+const job = (id: number, state: Job['state'], logs: string[] = []): Job => ({
+  id,
+  label: `clip${id}_magic.gif`,
+  inputPath: `/home/ada/videos/clip${id}.mp4`,
+  outputPath: `/home/ada/videos/clip${id}_magic.gif`,
+  state,
+  percent: 0,
+  logs,
+  inputSize: 0,
+  error: state === 'failed' ? 'FFmpeg exited with code 1' : undefined
+});
+
+suite('Diagnostics - unit', () => {
+  test('log levels filter from the most severe', () => {
+    assert.strictEqual(isLevelEnabled('error', 'warn'), true);
+    assert.strictEqual(isLevelEnabled('info', 'warn'), false);
+    assert.strictEqual(isLevelEnabled('debug', 'debug'), true);
+    assert.strictEqual(parseLogLevel('verbose'), 'info');
+    assert.strictEqual(parseLogLevel('debug'), 'debug');
+    assert.strictEqual(
+      formatLogLine('warn', 'first\nsecond', new Date(Date.UTC(2026, 9, 19, 14, 32, 5, 123))),
+      '[2026-10-19T14:32:05.123Z] [warn] first\n    second'
+    );
+  });
+
+  test('report lists versions, settings, the last jobs and hides the home folder', () => {
+    const jobs = Array.from({ length: DIAGNOSTICS_JOB_COUNT + 2 }, (_, index) => job(DIAGNOSTICS_JOB_COUNT + 2 - index, 'done'));
+    jobs[0] = job(jobs[0].id, 'failed', ['ffmpeg -i /home/ada/videos/clip12.mp4 out.gif', 'Invalid data found when processing input']);
+
+    const report = buildDiagnosticsReport({
+      generatedAt: new Date(Date.UTC(2026, 9, 19)),
+      versions: { extension: '1.4.0', ffmpeg: 'missing' },
+      platform: { os: 'Linux 6.8' },
+      settings: { fps: 12, outputDirectory: '/home/ada/gifs' },
+      jobs,
+      logLines: ['[2026-10-19T00:00:00.000Z] [info] activated']
+    }, '/home/ada');
+
+    assert.ok(report.includes('| ffmpeg | missing |'));
+    assert.ok(report.includes('"outputDirectory": "~/gifs"'));
+    assert.ok(report.includes(`## Last jobs (${DIAGNOSTICS_JOB_COUNT} of ${DIAGNOSTICS_JOB_COUNT + 2})`));
+    assert.ok(report.includes('### #12 clip12_magic.gif: failed: FFmpeg exited with code 1'));
+    assert.ok(report.includes('ffmpeg -i ~/videos/clip12.mp4 out.gif\nInvalid data found when processing input'));
+    assert.ok(!report.includes('### #2 '));
+    assert.ok(report.includes('[info] activated'));
+    assert.ok(!report.includes('/home/ada'));
+  });
+});
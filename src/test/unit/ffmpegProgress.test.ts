@@ -0,0 +1,47 @@
+import * as assert from 'node:assert';
+import { EncodeProgress, estimateRemaining, formatProgressDetails, progressPercent, ProgressParser } from '../../ffmpegProgress';
+
+suite('FfmpegProgress - unit', () => {
+  test('ProgressParser reports one block per progress line', () => {
+    const reports: EncodeProgress[] = [];
+    const parser = new ProgressParser(report => reports.push(report));
+    const block = (lines: string[]) => lines.map(line => parser.push(line));
+
+    assert.deepStrictEqual(block(['frame=0', 'out_time_us=N/A', 'out_time=-577014:32:22.775808', 'speed=N/A', 'progress=continue']), [true, true, true, true, true]);
+    // Per-stream keys such as stream_0_0_q belong to the block too
+    assert.deepStrictEqual(block(['frame=120', 'fps=48.0', 'stream_0_0_q=-0.0']), [true, true, true]);
+    block(['out_time_us=4000000', 'out_time_ms=4000000', 'out_time=00:00:04.000000', 'speed=2.51x', 'progress=continue']);
+    block(['frame=180', 'out_time=00:00:06.000000', 'speed= 2.4x', 'progress=end']);
+
+    assert.deepStrictEqual(reports, [
+      { frame: 0, outTime: 0, speed: undefined, done: false },
+      { frame: 120, outTime: 4, speed: 2.51, done: false },
+      { frame: 180, outTime: 6, speed: 2.4, done: true }
+    ]);
+    // Regular FFmpeg output is left to the log
+    assert.strictEqual(parser.push('[gif @ 0x55d] Warning: palette has 300 colors'), false);
+    assert.strictEqual(parser.push("Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'clip.mp4':"), false);
+  });
+
+  test('progress and ETA are measured against the output duration', () => {
+    const report: EncodeProgress = { frame: 60, outTime: 2, speed: 0.5, done: false };
+
+    // 4s trimmed at 2x speed with a 1s hold: 3s of animation
+    assert.strictEqual(Math.round(progressPercent(report, 3)), 67);
+    assert.strictEqual(progressPercent(report, 0), 0);
+    assert.strictEqual(progressPercent({ ...report, outTime: 5 }, 3), 100);
+    assert.strictEqual(progressPercent({ ...report, done: true }, 0), 100);
+
+    assert.strictEqual(estimateRemaining(report, 3, 4), 2);
+    // Without a speed, from the elapsed time
+    assert.strictEqual(estimateRemaining({ ...report, speed: undefined }, 3, 4), 2);
+    assert.strictEqual(estimateRemaining({ ...report, outTime: 0 }, 3, 4), undefined);
+    assert.strictEqual(estimateRemaining(report, 0, 4), undefined);
+  });
+
+  test('formatProgressDetails', () => {
+    assert.strictEqual(formatProgressDetails({ frame: 240, totalFrames: 571, speed: 2.46, eta: 64.2 }), 'frame 240/571 · 2.5x · ETA 1m 05s');
+    assert.strictEqual(formatProgressDetails({ frame: 12, speed: 14.2, eta: 3 }), 'frame 12 · 14x · ETA 3s');
+    assert.strictEqual(formatProgressDetails({ frame: 0 }), 'frame 0');
+  });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'node:assert';
+import { optimizeFrameDiff } from '../../optimizers';
+import { GifFile, GifWriter, lzwDecode, lzwEncode, parseGif, renderFrames } from '../../optimizers/gifCodec';
+
+// Black, white, red, blue
+const PALETTE = Uint8Array.from([0, 0, 0, 255, 255, 255, 255, 0, 0, 0, 0, 255]);
+
+/** Pseudo-random but repeatable indices */
+function noise(length: number, colors: number, seed = 7): Uint8Array {
+  let state = seed;
+  return Uint8Array.from({ length }, () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return state % colors;
+  });
+}
+
+/** Full-frame animation: a red square moving over white, with a repeated frame */
+function movingSquare(): Buffer {
+  const size = 48;
+  const writer = new GifWriter(size, size, 0);
+  for (const x of [0, 4, 8, 8, 12]) {
+    const indices = new Uint8Array(size * size).fill(1);
+    for (let y = 10; y < 18; y++) {
+      indices.fill(2, y * size + x, y * size + x + 8);
+    }
+    writer.addFrame({ left: 0, top: 0, width: size, height: size, palette: PALETTE, indices, delay: 10, disposal: 1, transparentIndex: null });
+  }
+  return writer.toBuffer();
+}
+
+/** Distinct displayed images with how long each stays on screen */
+function timeline(gif: GifFile): { pixels: string; delay: number }[] {
+  const shown: { pixels: string; delay: number }[] = [];
+  for (const { canvas, frame } of renderFrames(gif)) {
+    const pixels = Buffer.from(canvas.buffer.slice(0)).toString('base64');
+    if (shown.length > 0 && shown[shown.length - 1].pixels === pixels) {
+      shown[shown.length - 1].delay += frame.delay;
+    } else {
+      shown.push({ pixels, delay: frame.delay });
+    }
+  }
+  return shown;
+}
+
+suite('GifCodec - unit', () => {
+  test('LZW round-trips small and full code tables', () => {
+    for (const [colors, minCodeSize, length] of [[4, 2, 500], [256, 8, 60000], [2, 2, 20000]]) {
+      const indices = noise(length, colors);
+      assert.deepStrictEqual(lzwDecode(lzwEncode(indices, minCodeSize), minCodeSize, length), indices);
+    }
+    // Long runs exercise the code-equals-next-entry case
+    const runs = new Uint8Array(10000).fill(3);
+    assert.deepStrictEqual(lzwDecode(lzwEncode(runs, 2), 2, runs.length), runs);
+  });
+
+  test('GifWriter output parses back with palette, delay, transparency and loop', () => {
+    const writer = new GifWriter(4, 2, 3);
+    writer.addFrame({ left: 0, top: 0, width: 4, height: 2, palette: PALETTE, indices: Uint8Array.from([0, 1, 2, 3, 3, 2, 1, 0]), delay: 25, disposal: 1, transparentIndex: null });
+    writer.addFrame({ left: 1, top: 1, width: 2, height: 1, palette: PALETTE.subarray(0, 6), indices: Uint8Array.from([0, 1]), delay: 5, disposal: 1, transparentIndex: 0 });
+
+    const gif = parseGif(writer.toBuffer());
+    assert.strictEqual(gif.loopCount, 3);
+    assert.deepStrictEqual(gif.frames.map(frame => [frame.left, frame.top, frame.width, frame.height, frame.delay, frame.transparentIndex]), [
+      [0, 0, 4, 2, 25, null],
+      [1, 1, 2, 1, 5, 0]
+    ]);
+
+    const canvases = [...renderFrames(gif)].map(({ canvas }) => Array.from(canvas));
+    const [black, white, red, blue] = [0xff000000, 0xffffffff, 0xff0000ff, 0xffff0000];
+    // The transparent pixel of the second frame keeps the red underneath
+    assert.deepStrictEqual(canvases[canvases.length - 1], [black, white, red, blue, blue, red, white, black]);
+    assert.throws(() => parseGif(Buffer.from('PNG')), /Not a GIF/);
+  });
+
+  test('optimizeFrameDiff stores changed rectangles and merges repeated frames', async () => {
+    const input = movingSquare();
+    const progress: number[] = [];
+    const output = await optimizeFrameDiff(input, percent => progress.push(percent));
+
+    assert.ok(output, 'expected a smaller file');
+    assert.ok(output.length < input.length);
+    const optimized = parseGif(output);
+    // The repeated frame became a longer one, later frames only cover the square's path
+    assert.strictEqual(optimized.frames.length, 4);
+    assert.deepStrictEqual(optimized.frames.map(frame => frame.delay), [10, 10, 20, 10]);
+    assert.ok(optimized.frames.slice(1).every(frame => frame.width <= 12 && frame.height === 8));
+    assert.strictEqual(optimized.loopCount, 0);
+    // Same images on screen for the same time
+    assert.deepStrictEqual(timeline(optimized), timeline(parseGif(input)));
+    assert.strictEqual(progress[progress.length - 1], 100);
+  });
+
+  test('optimizeFrameDiff gives up when it cannot save anything', async () => {
+    const writer = new GifWriter(16, 16, null);
+    writer.addFrame({ left: 0, top: 0, width: 16, height: 16, palette: PALETTE, indices: noise(256, 4), delay: 10, disposal: 1, transparentIndex: null });
+    assert.strictEqual(await optimizeFrameDiff(writer.toBuffer()), null);
+  });
+});
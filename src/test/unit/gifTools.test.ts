@@ -0,0 +1,109 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import sinon from 'sinon';
+import { buildReoptimizeOptions, formatSizeChange, getReoptimizedPath, getVideoExportPath, GifTools } from '../../gifTools';
+import { EVEN_DIMENSIONS_FILTER, getVideoExportFlags } from '../../outputFormats';
+
+suite('GifTools - unit', () => {
+  let tmpDir: string;
+  let gifPath: string;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mv2g-gif-'));
+    gifPath = path.join(tmpDir, 'demo.gif');
+    fs.writeFileSync(gifPath, Buffer.alloc(1000));
+  });
+
+  teardown(() => {
+    sinon.restore();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const makeTools = () => {
+    const pipeline = { run: sinon.stub().callsFake(async (_input: string, output: string) => { fs.writeFileSync(output, Buffer.alloc(400)); return 400; }) };
+    const converter = {
+      getVideoInfo: sinon.stub().resolves({ duration: 4, width: 480, height: 270, fps: 24 }),
+      exportVideo: sinon.stub().callsFake(async (_input: string, output: string) => { fs.writeFileSync(output, Buffer.alloc(150)); })
+    };
+    const optimizer = {
+      isAvailable: sinon.stub().resolves(true),
+      optimize: sinon.stub().callsFake(async () => {
+        const optimized = path.join(tmpDir, 'optimized_tmp.gif');
+        fs.writeFileSync(optimized, Buffer.alloc(700));
+        return optimized;
+      })
+    };
+    return { tools: new GifTools(pipeline as any, converter as any, optimizer as any), pipeline, converter, optimizer };
+  };
+
+  test('video export keeps yuv420p dimensions even and picks the web codec', () => {
+    assert.strictEqual(EVEN_DIMENSIONS_FILTER, 'scale=trunc(iw/2)*2:trunc(ih/2)*2:flags=lanczos,format=yuv420p');
+    assert.deepStrictEqual(getVideoExportFlags('mp4').slice(0, 2), ['-c:v', 'libx264']);
+    assert.ok(getVideoExportFlags('mp4').includes('+faststart'));
+    assert.deepStrictEqual(getVideoExportFlags('webm').slice(0, 2), ['-c:v', 'libvpx-vp9']);
+    assert.strictEqual(getVideoExportPath('/gifs/demo.gif', 'webm'), path.join('/gifs', 'demo.webm'));
+    assert.strictEqual(getReoptimizedPath('/gifs/demo.gif'), path.join('/gifs', 'demo_optimized.gif'));
+  });
+
+  test('buildReoptimizeOptions keeps the size and divides the frame rate', () => {
+    const options = buildReoptimizeOptions({ colorCount: 64, lossyCompression: 150, repalette: true, dropFrames: 3 }, 24);
+    assert.strictEqual(options.resolution, 'original');
+    assert.strictEqual(options.fps, 8);
+    assert.strictEqual(options.colorCount, 64);
+    assert.strictEqual(options.outputFormat, 'gif');
+  });
+
+  test('reoptimize uses Gifsicle alone when frames and palette are kept', async () => {
+    const { tools, pipeline, optimizer } = makeTools();
+    const outputPath = getReoptimizedPath(gifPath);
+
+    const change = await tools.reoptimize(gifPath, outputPath, { colorCount: 128, lossyCompression: 80, repalette: false, dropFrames: 1 }, () => {});
+
+    assert.deepStrictEqual(change, { before: 1000, after: 700 });
+    sinon.assert.notCalled(pipeline.run);
+    assert.strictEqual(optimizer.optimize.firstCall.args[1].lossyCompression, 80);
+    // The source frame rate, which gifski rebuilds the frames at
+    assert.strictEqual(optimizer.optimize.firstCall.args[1].fps, 24);
+    assert.strictEqual(formatSizeChange(change), '-30%');
+  });
+
+  test('reoptimize goes through the pipeline when dropping frames', async () => {
+    const { tools, pipeline } = makeTools();
+
+    const change = await tools.reoptimize(gifPath, getReoptimizedPath(gifPath), { colorCount: 128, lossyCompression: 80, repalette: false, dropFrames: 2 }, () => {});
+
+    assert.deepStrictEqual(change, { before: 1000, after: 400 });
+    assert.strictEqual(pipeline.run.firstCall.args[2].fps, 12);
+  });
+
+  test('a failed re-palette leaves an earlier result untouched', async () => {
+    const { tools, pipeline } = makeTools();
+    const outputPath = getReoptimizedPath(gifPath);
+    fs.writeFileSync(outputPath, 'earlier result');
+    pipeline.run.callsFake(async (_input: string, output: string) => {
+      assert.notStrictEqual(output, outputPath);
+      fs.writeFileSync(output, 'half');
+      throw new Error('Conversion cancelled by user');
+    });
+
+    await assert.rejects(
+      tools.reoptimize(gifPath, outputPath, { colorCount: 128, lossyCompression: 80, repalette: true, dropFrames: 1 }, () => {}),
+      /cancelled/
+    );
+    assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), 'earlier result');
+    assert.deepStrictEqual(fs.readdirSync(tmpDir).sort(), ['demo.gif', 'demo_optimized.gif']);
+  });
+
+  test('toVideo reports the size before and after', async () => {
+    const { tools, converter } = makeTools();
+    const outputPath = getVideoExportPath(gifPath, 'mp4');
+
+    const change = await tools.toVideo(gifPath, outputPath, 'mp4', () => {});
+
+    assert.deepStrictEqual(change, { before: 1000, after: 150 });
+    assert.strictEqual(converter.exportVideo.firstCall.args[2], 'mp4');
+    assert.strictEqual(formatSizeChange(change), '-85%');
+  });
+});
@@ -0,0 +1,63 @@
+import * as assert from 'node:assert';
+import { ConversionHistory, diffOptions } from '../../history';
+import { ConversionOptions } from '../../types';
+
+suite('ConversionHistory - unit', () => {
+  const options: ConversionOptions = { startTime: 0, duration: 5, resolution: '640:-1', fps: 15, colorCount: 128, optimizationLevel: 'ultra', dithering: true, lossyCompression: 80 };
+  const result = (outputPath: string) => ({
+    inputPath: '/videos/demo.mp4',
+    outputPath,
+    options,
+    sizeMB: 1.5,
+    duration: 5,
+    frameCount: 75,
+    elapsed: 3.2,
+    ffmpegVersion: '6.1'
+  });
+
+  const makeState = () => {
+    const values = new Map<string, unknown>();
+    return {
+      get: <T>(key: string, fallback: T) => (values.has(key) ? values.get(key) as T : fallback),
+      update: async <T>(key: string, value: T) => { values.set(key, value); }
+    };
+  };
+  const makeSettings = (historyLimit?: number) => ({
+    get: <T>(key: string, fallback: T) => (key === 'historyLimit' && historyLimit !== undefined ? historyLimit as T : fallback),
+    inspect: () => undefined,
+    update: async () => {}
+  });
+
+  test('add stores entries newest first and trims to the configured limit', async () => {
+    const history = new ConversionHistory(makeState(), makeSettings(2));
+    await history.add(result('/out/a.gif'));
+    await history.add(result('/out/b.gif'));
+    const latest = await history.add(result('/out/c.gif'));
+
+    assert.deepStrictEqual(history.list().map(entry => entry.outputPath), ['/out/c.gif', '/out/b.gif']);
+    assert.strictEqual(history.get(latest.id)?.options.fps, 15);
+    assert.ok(latest.createdAt > 0);
+  });
+
+  test('remove and clear update the stored list', async () => {
+    const history = new ConversionHistory(makeState(), makeSettings());
+    const first = await history.add(result('/out/a.gif'));
+    await history.add(result('/out/b.gif'));
+
+    await history.remove(first.id);
+    assert.deepStrictEqual(history.list().map(entry => entry.outputPath), ['/out/b.gif']);
+
+    await history.clear();
+    assert.deepStrictEqual(history.list(), []);
+  });
+
+  test('diffOptions lists only changed fields, including nested and removed ones', () => {
+    const edited: ConversionOptions = { ...options, fps: 10, crop: { width: 320, height: 240, x: 0, y: 0 }, dithering: true };
+    const changes = diffOptions({ ...options, reverse: true }, edited);
+
+    assert.deepStrictEqual(changes.map(change => change.key), ['fps', 'reverse', 'crop']);
+    assert.deepStrictEqual(changes[0], { key: 'fps', before: 15, after: 10 });
+    assert.strictEqual(changes[1].after, undefined);
+    assert.deepStrictEqual(diffOptions(options, { ...options }), []);
+  });
+});
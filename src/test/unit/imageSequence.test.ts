@@ -0,0 +1,69 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  buildSequenceList,
+  collectSequenceFrames,
+  getSequenceBasePath,
+  naturalCompare,
+  readSequenceInfo,
+  writeSequenceList
+} from '../../imageSequence';
+
+suite('ImageSequence - unit', () => {
+  let tmpDir: string;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mv2g-seq-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const touch = (...names: string[]) => names.forEach(name => fs.writeFileSync(path.join(tmpDir, name), ''));
+
+  test('naturalCompare orders numbered frames by value', () => {
+    assert.deepStrictEqual(['frame10.png', 'frame2.png', 'Frame1.png'].sort(naturalCompare), ['Frame1.png', 'frame2.png', 'frame10.png']);
+  });
+
+  test('collectSequenceFrames reads image files of a folder or a glob in natural order', async () => {
+    touch('shot_10.png', 'shot_9.png', 'shot_1.PNG', 'notes.txt', 'cover.jpg');
+    fs.mkdirSync(path.join(tmpDir, 'nested.png'));
+
+    const all = await collectSequenceFrames(tmpDir);
+    assert.deepStrictEqual(all.map(frame => path.basename(frame)), ['cover.jpg', 'shot_1.PNG', 'shot_9.png', 'shot_10.png']);
+
+    const shots = await collectSequenceFrames(path.join(tmpDir, 'shot_*'));
+    assert.deepStrictEqual(shots.map(frame => path.basename(frame)), ['shot_1.PNG', 'shot_9.png', 'shot_10.png']);
+
+    await assert.rejects(collectSequenceFrames(path.join(tmpDir, '*', 'a.png')), /only supported in the file name/);
+  });
+
+  test('getSequenceBasePath names outputs after the folder or the glob prefix', () => {
+    assert.strictEqual(getSequenceBasePath('/exports/intro/'), '/exports/intro');
+    assert.strictEqual(getSequenceBasePath('/exports/shot_*.png'), path.join('/exports', 'shot'));
+    assert.strictEqual(getSequenceBasePath('/exports/*.png'), '/exports');
+  });
+
+  test('buildSequenceList gives every frame 1/fps seconds and repeats the last one', () => {
+    const list = buildSequenceList({ frames: ['/a/1.png', "/a/it's 2.png"], fps: 4, width: 320, height: 240 });
+    assert.strictEqual(list, [
+      'ffconcat version 1.0',
+      '# magicvid2gif fps=4 size=320x240 frames=2',
+      "file '/a/1.png'",
+      'duration 0.25',
+      "file '/a/it'\\''s 2.png'",
+      'duration 0.25',
+      "file '/a/it'\\''s 2.png'",
+      ''
+    ].join('\n'));
+  });
+
+  test('readSequenceInfo reads back the written list', async () => {
+    const listPath = await writeSequenceList({ frames: ['/a/1.png', '/a/2.png', '/a/3.png'], fps: 12, width: 1280, height: 720 }, tmpDir);
+    assert.deepStrictEqual(readSequenceInfo(listPath), { duration: 0.25, width: 1280, height: 720, fps: 12 });
+    assert.strictEqual(readSequenceInfo(path.join(tmpDir, 'video.mp4')), null);
+  });
+});
@@ -0,0 +1,121 @@
+import * as assert from 'node:assert';
+import { describeJob, Job, JobContext, JobQueue } from '../../jobQueue';
+
+/** Worker that runs until the test resolves or rejects it, or until the job is cancelled */
+function controllable() {
+  const started: string[] = [];
+  const pending = new Map<string, { resolve: (size: number) => void; reject: (error: Error) => void; context: JobContext }>();
+  const run = (job: Job, context: JobContext) => new Promise<number>((resolve, reject) => {
+    started.push(job.label);
+    pending.set(job.label, { resolve, reject, context });
+    context.signal.addEventListener('abort', () => reject(new Error('Conversion cancelled by user')));
+  });
+  return { started, pending, run };
+}
+
+const spec = (label: string, run: (job: Job, context: JobContext) => Promise<number>) =>
+  ({ label, inputPath: `${label}.mp4`, outputPath: `${label}.gif`, run });
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+suite('JobQueue - unit', () => {
+  test('starts jobs in order up to the concurrency', async () => {
+    const worker = controllable();
+    const queue = new JobQueue(1);
+    const first = queue.add(spec('a', worker.run));
+    const second = queue.add(spec('b', worker.run));
+
+    assert.deepStrictEqual(worker.started, ['a']);
+    assert.strictEqual(first.state, 'running');
+    assert.strictEqual(second.state, 'queued');
+
+    worker.pending.get('a')?.resolve(1024);
+    await queue.wait(first);
+    await tick();
+    assert.strictEqual(first.state, 'done');
+    assert.strictEqual(first.outputSize, 1024);
+    assert.deepStrictEqual(worker.started, ['a', 'b']);
+
+    queue.setConcurrency(3);
+    queue.add(spec('c', worker.run));
+    assert.deepStrictEqual(worker.started, ['a', 'b', 'c']);
+  });
+
+  test('cancel stops only the selected job', async () => {
+    const worker = controllable();
+    const queue = new JobQueue(2);
+    const [a, b, c] = ['a', 'b', 'c'].map(label => queue.add(spec(label, worker.run)));
+
+    queue.cancel(c);
+    assert.strictEqual(c.state, 'cancelled');
+
+    queue.cancel(a);
+    await queue.wait(a);
+    assert.strictEqual(a.state, 'cancelled');
+    assert.strictEqual(worker.pending.get('a')?.context.signal.aborted, true);
+    assert.strictEqual(worker.pending.get('b')?.context.signal.aborted, false);
+    assert.strictEqual(b.state, 'running');
+    // The cancelled queued job is never started
+    assert.deepStrictEqual(worker.started, ['a', 'b']);
+  });
+
+  test('tracks progress, phase and logs', async () => {
+    const logged: string[] = [];
+    const queue = new JobQueue(1, { log: (level, message) => logged.push(`${level} ${message}`) });
+    const states: string[] = [];
+    queue.onDidChange(jobs => states.push(jobs[0].state));
+
+    const job = queue.add(spec('a', async (_job, context) => {
+      context.progress(40, 'Conversion... 40%');
+      context.log('ffmpeg -i a.mp4 a.gif');
+      context.phase('optimizing');
+      context.progress(95);
+      throw new Error('gifsicle crashed');
+    }));
+    await queue.wait(job);
+
+    assert.strictEqual(job.state, 'failed');
+    assert.strictEqual(job.error, 'gifsicle crashed');
+    assert.strictEqual(job.message, 'Conversion... 40%');
+    assert.deepStrictEqual(job.logs, ['ffmpeg -i a.mp4 a.gif', 'Error: gifsicle crashed']);
+    assert.ok(states.includes('optimizing'));
+    assert.strictEqual(describeJob(job), 'failed: gifsicle crashed');
+    assert.deepStrictEqual(logged, [
+      `info [#${job.id}] a.mp4 → a.gif`,
+      `debug [#${job.id}] ffmpeg -i a.mp4 a.gif`,
+      `error [#${job.id}] failed: gifsicle crashed`
+    ]);
+  });
+
+  test('retry queues a failed job again and move reorders the queue', async () => {
+    let attempts = 0;
+    const worker = controllable();
+    const queue = new JobQueue(1);
+    const flaky = queue.add(spec('flaky', async () => {
+      attempts++;
+      if (attempts === 1) {throw new Error('boom');}
+      return 1;
+    }));
+    await queue.wait(flaky);
+    assert.strictEqual(flaky.state, 'failed');
+
+    const blocker = queue.add(spec('blocker', worker.run));
+    const b = queue.add(spec('b', worker.run));
+    queue.retry(flaky);
+    assert.strictEqual(flaky.state, 'queued');
+    assert.deepStrictEqual(queue.list().map(job => job.label), ['blocker', 'b', 'flaky']);
+
+    queue.move(flaky, 'first');
+    assert.deepStrictEqual(queue.list().map(job => job.label), ['blocker', 'flaky', 'b']);
+
+    worker.pending.get('blocker')?.resolve(1);
+    await queue.wait(flaky);
+    assert.strictEqual(flaky.state, 'done');
+    assert.strictEqual(attempts, 2);
+    assert.ok(flaky.logs.includes('--- retry ---'));
+    assert.strictEqual(b.state, 'running');
+
+    queue.clearFinished();
+    assert.deepStrictEqual(queue.list().map(job => job.label), ['b']);
+  });
+});
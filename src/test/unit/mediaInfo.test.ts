@@ -0,0 +1,111 @@
+import * as assert from 'node:assert';
+import { formatBitRate, formatDuration, getConversionWarnings, parseVideoMetadata, ProbeData } from '../../mediaInfo';
+import { VideoMetadata } from '../../types';
+
+// Fixtures are ffprobe's own JSON output (`-print_format json -show_streams -show_format`)
+function probe(streams: string[], format = '{ "duration": "12.5", "bit_rate": "4000000", "format_name": "mov,mp4,m4a", "format_long_name": "QuickTime / MOV" }'): ProbeData {
+  return JSON.parse(`{ "streams": [${streams.join(',')}], "format": ${format} }`);
+}
+
+const H264 = `{
+  "index": 0, "codec_type": "video", "codec_name": "h264", "pix_fmt": "yuv420p",
+  "width": 1920, "height": 1080, "r_frame_rate": "30/1", "avg_frame_rate": "30/1",
+  "bit_rate": "3800000", "nb_frames": "375", "color_space": "bt709", "color_transfer": "bt709", "color_primaries": "bt709"
+}`;
+
+suite('MediaInfo - unit', () => {
+  test('parseVideoMetadata reads the video stream and format', () => {
+    const metadata = parseVideoMetadata(probe([H264]));
+
+    assert.strictEqual(metadata.duration, 12.5);
+    assert.strictEqual(metadata.width, 1920);
+    assert.strictEqual(metadata.height, 1080);
+    assert.strictEqual(metadata.fps, 30);
+    assert.strictEqual(metadata.codec, 'h264');
+    assert.strictEqual(metadata.pixelFormat, 'yuv420p');
+    assert.strictEqual(metadata.bitRate, 3800000);
+    assert.strictEqual(metadata.frameCount, 375);
+    assert.strictEqual(metadata.rotation, 0);
+    assert.strictEqual(metadata.variableFrameRate, false);
+    assert.strictEqual(metadata.hdr, false);
+    assert.strictEqual(metadata.container, 'QuickTime / MOV');
+    assert.deepStrictEqual(metadata.audioStreams, []);
+  });
+
+  test('parseVideoMetadata throws without a video stream', () => {
+    assert.throws(() => parseVideoMetadata(probe(['{ "index": 0, "codec_type": "audio" }'])), /No video stream/);
+  });
+
+  test('parseVideoMetadata converts display matrix and tag rotation to clockwise degrees', () => {
+    const matrix = '{ "codec_type": "video", "width": 1920, "height": 1080, "side_data_list": [{ "side_data_type": "Display Matrix", "rotation": -90 }] }';
+    const tag = '{ "codec_type": "video", "width": 1920, "height": 1080, "tags": { "rotate": "270" } }';
+
+    assert.strictEqual(parseVideoMetadata(probe([matrix])).rotation, 90);
+    assert.strictEqual(parseVideoMetadata(probe([tag])).rotation, 270);
+  });
+
+  test('parseVideoMetadata reports the display size of rotated and anamorphic video', () => {
+    const portrait = '{ "codec_type": "video", "width": 1920, "height": 1080, "sample_aspect_ratio": "1:1", "tags": { "rotate": "90" } }';
+    const dvd = '{ "codec_type": "video", "width": 720, "height": 576, "sample_aspect_ratio": "64:45", "display_aspect_ratio": "16:9" }';
+
+    const rotated = parseVideoMetadata(probe([portrait]));
+    assert.deepStrictEqual([rotated.width, rotated.height, rotated.codedWidth, rotated.codedHeight], [1080, 1920, 1920, 1080]);
+
+    const anamorphic = parseVideoMetadata(probe([dvd]));
+    assert.deepStrictEqual([anamorphic.width, anamorphic.height], [1024, 576]);
+    assert.strictEqual(anamorphic.displayAspectRatio, '16:9');
+    assert.ok(Math.abs((anamorphic.sampleAspectRatio ?? 0) - 64 / 45) < 1e-9);
+    assert.ok(getConversionWarnings(anamorphic).some(warning => warning.message.startsWith('Non-square pixels')));
+  });
+
+  test('parseVideoMetadata detects variable frame rate and HDR', () => {
+    const phone = `{
+      "codec_type": "video", "codec_name": "hevc", "width": 3840, "height": 2160,
+      "r_frame_rate": "60/1", "avg_frame_rate": "5994/200", "color_transfer": "smpte2084", "color_primaries": "bt2020"
+    }`;
+    const metadata = parseVideoMetadata(probe([phone]));
+
+    assert.strictEqual(metadata.fps, 60);
+    assert.strictEqual(metadata.variableFrameRate, true);
+    assert.strictEqual(metadata.hdr, true);
+    assert.strictEqual(metadata.colorTransfer, 'smpte2084');
+  });
+
+  test('parseVideoMetadata lists audio streams and ignores N/A values', () => {
+    const video = '{ "codec_type": "video", "width": 640, "height": 360, "r_frame_rate": "25/1", "bit_rate": "N/A", "nb_frames": "N/A" }';
+    const audio = '{ "codec_type": "audio", "codec_name": "aac", "channels": 2, "sample_rate": "48000", "tags": { "language": "eng" } }';
+    const metadata = parseVideoMetadata(probe([video, audio], '{ "duration": "N/A", "bit_rate": "N/A", "format_name": "matroska,webm" }'));
+
+    assert.strictEqual(metadata.bitRate, undefined);
+    assert.strictEqual(metadata.frameCount, undefined);
+    assert.strictEqual(metadata.duration, 0);
+    assert.strictEqual(metadata.container, 'matroska,webm');
+    assert.deepStrictEqual(metadata.audioStreams, [{ codec: 'aac', channels: 2, sampleRate: 48000, language: 'eng' }]);
+  });
+
+  test('getConversionWarnings flags what degrades a GIF', () => {
+    const source: VideoMetadata = {
+      duration: 95, width: 3840, height: 2160, fps: 60,
+      rotation: 90, variableFrameRate: true, hdr: true, colorTransfer: 'arib-std-b67',
+      audioStreams: [{ codec: 'aac', channels: 2, sampleRate: 48000 }]
+    };
+    const warnings = getConversionWarnings(source);
+
+    assert.deepStrictEqual(warnings.map(warning => warning.severity), ['warning', 'info', 'warning', 'warning', 'info', 'info']);
+    assert.match(warnings[0].message, /HDR video \(arib-std-b67\): tone mapped/);
+    assert.match(warnings[1].message, /Rotated 90°/);
+    assert.match(warnings[3].message, /1m 35s/);
+  });
+
+  test('getConversionWarnings is empty for a short SDR clip', () => {
+    assert.deepStrictEqual(getConversionWarnings({ duration: 8, width: 1280, height: 720, fps: 30 }), []);
+  });
+
+  test('formatDuration and formatBitRate', () => {
+    assert.strictEqual(formatDuration(12.34), '12.3s');
+    assert.strictEqual(formatDuration(125), '2m 05s');
+    assert.strictEqual(formatBitRate(4_500_000), '4.5 Mb/s');
+    assert.strictEqual(formatBitRate(320_000), '320 kb/s');
+    assert.strictEqual(formatBitRate(undefined), 'unknown');
+  });
+});
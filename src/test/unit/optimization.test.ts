@@ -3,6 +3,7 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import sinon from 'sinon';
+import { getGifsicleFlags } from '../../optimizers';
 
 const proxyquire = require('proxyquire').noCallThru();
 
@@ -76,4 +77,124 @@ suite('OptimizationService - unit', () => {
 
     fs.unlinkSync(tmpGif);
   });
+
+  test('optimize tries the configured backends in order and falls back on failure', async () => {
+    const module = proxyquire('../../optimizationService', {});
+    const input = path.join(os.tmpdir(), `in_${Date.now()}.gif`);
+    fs.writeFileSync(input, 'GIF89a');
+    const calls: string[] = [];
+    const backend = (id: string, available: boolean, fails = false) => ({
+      id, label: id, reportsProgress: true,
+      isAvailable: async () => available,
+      getVersion: async () => (available ? `${id} 1.0` : null),
+      optimize: async (_input: string, output: string) => {
+        calls.push(id);
+        if (fails) {throw new Error(`${id} crashed`);}
+        fs.writeFileSync(output, 'GIF');
+      }
+    });
+    const settingsWith = (order: unknown) => ({ get: (key: string, fallback: any) => (key === 'optimizers' ? order : fallback) });
+
+    assert.deepStrictEqual(module.getOptimizerOrder(settingsWith(['js', 'nope', 'gifsicle', 'js'])), ['js', 'gifsicle']);
+    assert.deepStrictEqual(module.getOptimizerOrder(settingsWith('gifski')), ['gifsicle', 'gifski', 'js']);
+
+    const logs: string[] = [];
+    const svc = new module.OptimizationService(settingsWith(['gifski', 'gifsicle', 'js']), undefined, [
+      backend('gifsicle', true, true), backend('gifski', false), backend('js', true)
+    ]);
+    const output = await svc.optimize(input, { colorCount: 128, lossyCompression: 0 } as any, (line: string) => logs.push(line));
+    assert.notStrictEqual(output, input);
+    assert.deepStrictEqual(calls, ['gifsicle', 'js']);
+    assert.ok(logs.includes('gifsicle error: gifsicle crashed'));
+    assert.deepStrictEqual(await svc.getVersions(), { gifsicle: 'gifsicle 1.0', gifski: 'missing', js: 'js 1.0' });
+
+    const disabled = new module.OptimizationService(settingsWith([]), undefined, [backend('js', true)]);
+    assert.strictEqual(await disabled.isAvailable(), false);
+
+    fs.rmSync(output, { force: true });
+    fs.unlinkSync(input);
+  });
+
+  test('optimize stops on cancel instead of trying the next backend', async () => {
+    const module = proxyquire('../../optimizationService', {});
+    const input = path.join(os.tmpdir(), `in_${Date.now()}.gif`);
+    fs.writeFileSync(input, 'GIF89a');
+    const controller = new AbortController();
+    const calls: string[] = [];
+    const backend = (id: string) => ({
+      id, label: id, reportsProgress: true,
+      isAvailable: async () => true,
+      getVersion: async () => id,
+      optimize: async (_input: string, output: string, _options: unknown, run: { signal?: AbortSignal }) => {
+        calls.push(id);
+        fs.writeFileSync(output, 'GIF');
+        controller.abort();
+        assert.ok(run.signal?.aborted);
+      }
+    });
+    const settings = { get: (_k: string, fallback: any) => fallback };
+    const svc = new module.OptimizationService(settings, undefined, [backend('gifsicle'), backend('js')]);
+
+    await assert.rejects(
+      svc.optimize(input, { colorCount: 128, lossyCompression: 0 } as any, () => undefined, undefined, controller.signal),
+      /cancelled/
+    );
+    assert.deepStrictEqual(calls, ['gifsicle']);
+    fs.unlinkSync(input);
+  });
+
+  test('gifski stops the frame extraction on cancel', async () => {
+    const handlers: Record<string, (arg?: any) => void> = {};
+    const command: any = {
+      outputOptions: () => command,
+      on: (event: string, handler: (arg?: any) => void) => { handlers[event] = handler; return command; },
+      save: () => undefined,
+      kill: sinon.stub().callsFake(() => handlers.error(new Error('ffmpeg was killed with signal SIGTERM')))
+    };
+    const stubs: any = {};
+    stubs['fluent-ffmpeg'] = () => command;
+    const module = proxyquire('../../optimizers/gifski', stubs);
+    const settings = { get: (_k: string, fallback: any) => fallback };
+    const gifski = new module.GifskiOptimizer(settings, async () => ({ stdout: 'gifski 1.32.0', stderr: '' }), { log: () => undefined });
+    const controller = new AbortController();
+
+    const running = gifski.optimize('/tmp/in.gif', '/tmp/out.gif', { fps: 24, lossyCompression: 0 }, {
+      log: () => undefined, progress: () => undefined, signal: controller.signal
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort();
+
+    await assert.rejects(running, /cancelled/);
+    sinon.assert.calledOnceWithExactly(command.kill, 'SIGTERM');
+  });
+
+  test('Gifsicle keeps per-frame palettes', () => {
+    const options = { colorCount: 128, lossyCompression: 80, loopCount: 0 } as any;
+    assert.deepStrictEqual(getGifsicleFlags(options), [
+      '--optimize=3', '--colors=128', '--lossy=80', '--loopcount=forever', '--no-warnings', '--no-interlace', '--careful'
+    ]);
+    // --colors would merge the palettes of stats_mode=single into one global palette
+    const perFrame = getGifsicleFlags({ ...options, paletteStatsMode: 'single' });
+    assert.ok(!perFrame.some(flag => flag.startsWith('--colors')));
+    assert.ok(perFrame.includes('--lossy=80'));
+    assert.ok(getGifsicleFlags({ ...options, paletteStatsMode: 'diff' }).includes('--colors=128'));
+  });
+
+  test('estimateOptimizeProgress follows the expected time for the file size', () => {
+    const { estimateOptimizeProgress, formatOptimizeProgress } = proxyquire('../../optimizationService', {});
+    const size = 8 * 1024 * 1024;
+
+    assert.strictEqual(estimateOptimizeProgress(0, size, false), 0);
+    assert.strictEqual(estimateOptimizeProgress(1000, size, false), 45);
+    assert.strictEqual(estimateOptimizeProgress(2000, size, false), 90);
+    // Lossy runs are expected to take longer
+    assert.ok(estimateOptimizeProgress(2000, size, true) < 90);
+    // Past the expected time it keeps moving without reaching 100%
+    const late = estimateOptimizeProgress(4000, size, false);
+    assert.ok(late > 90 && late < estimateOptimizeProgress(20000, size, false));
+    assert.ok(estimateOptimizeProgress(600000, size, false) <= 99);
+    // Shown as an estimate in the notification
+    assert.strictEqual(formatOptimizeProgress(44.6, true), '45% (estimated)');
+    assert.strictEqual(formatOptimizeProgress(45, false), '45%');
+  });
 });
@@ -0,0 +1,159 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  buildOutputPath,
+  expandOutputTemplate,
+  formatTimestamp,
+  getOutputNaming,
+  getOutputTokens,
+  isOutputTaken,
+  nextFreePath,
+  OutputTokens,
+  resolveCollision,
+  uniqueFileSuffix,
+  writeThroughPartial
+} from '../../outputPath';
+import { createFileSettingsPort } from '../../platform/node';
+import { getDefaultOptions } from '../../presets';
+
+suite('OutputPath - unit', () => {
+  let tmpDir: string;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mv2g-out-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  const tokens: OutputTokens = { name: 'demo', preset: 'PR demo', fps: 12, width: 640, date: '20261019-143205', workspaceFolder: '/work' };
+
+  test('expandOutputTemplate fills known tokens and keeps unknown ones', () => {
+    assert.strictEqual(expandOutputTemplate('${name}_${preset}_${fps}fps_${width}w_${date}', tokens), 'demo_PR demo_12fps_640w_20261019-143205');
+    assert.strictEqual(expandOutputTemplate('${name}_${nmae}', tokens), 'demo_${nmae}');
+    assert.strictEqual(expandOutputTemplate('${name}_${width}', { ...tokens, width: undefined }), 'demo_');
+    // Values cannot escape the folder, paths of the directory template can
+    assert.strictEqual(expandOutputTemplate('${preset}', { ...tokens, preset: 'docs/hero: v2' }), 'docs-hero- v2');
+    assert.strictEqual(expandOutputTemplate('${workspaceFolder}/gifs', tokens, false), '/work/gifs');
+  });
+
+  test('buildOutputPath writes next to the source or into the output directory', () => {
+    const input = path.join(tmpDir, 'clips', 'demo.mp4');
+    const naming = { pattern: '${name}_magic', directory: '' };
+
+    assert.strictEqual(buildOutputPath(input, '.gif', naming, tokens), path.join(tmpDir, 'clips', 'demo_magic.gif'));
+    assert.strictEqual(buildOutputPath(input, '.gif', { ...naming, directory: '../gifs' }, tokens), path.join(tmpDir, 'gifs', 'demo_magic.gif'));
+    assert.strictEqual(
+      buildOutputPath(input, '.webp', { pattern: '${preset}-${name}', directory: '${workspaceFolder}/out' }, tokens),
+      path.resolve('/work/out', 'PR demo-demo.webp')
+    );
+    // A pattern that expands to nothing falls back to the source name
+    assert.strictEqual(buildOutputPath(input, '.gif', { pattern: '${width}', directory: '' }, { ...tokens, width: undefined }), path.join(tmpDir, 'clips', 'demo.gif'));
+  });
+
+  test('getOutputTokens resolves the output width from the source', () => {
+    const options = { ...getDefaultOptions(createFileSettingsPort({})), resolution: 'fit:640:640' };
+    const date = new Date(2026, 9, 19, 14, 32, 5);
+    const portrait = { duration: 10, width: 1080, height: 1920, fps: 30 };
+
+    const result = getOutputTokens('/videos/clip.mov', options, { preset: 'default', source: portrait, date });
+    assert.deepStrictEqual(result, { name: 'clip', preset: 'default', fps: options.fps, width: 360, date: '20261019-143205', workspaceFolder: '/videos' });
+    assert.strictEqual(getOutputTokens('/videos/clip.mov', options, { preset: 'default' }).width, undefined);
+    assert.strictEqual(formatTimestamp(new Date(2026, 0, 2, 3, 4, 5)), '20260102-030405');
+  });
+
+  test('getOutputNaming falls back to the defaults', () => {
+    assert.deepStrictEqual(getOutputNaming(createFileSettingsPort({})), { pattern: '${name}_magic', directory: '', collisionPolicy: 'ask' });
+    assert.deepStrictEqual(
+      getOutputNaming(createFileSettingsPort(JSON.parse('{ "magicvid2gif.outputPattern": " ", "magicvid2gif.collisionPolicy": "rename" }'))),
+      { pattern: '${name}_magic', directory: '', collisionPolicy: 'ask' }
+    );
+  });
+
+  test('resolveCollision applies the policy to existing files', async () => {
+    const existing = path.join(tmpDir, 'demo_magic.gif');
+    fs.writeFileSync(existing, 'hand-tuned');
+    fs.writeFileSync(path.join(tmpDir, 'demo_magic_2.gif'), '');
+    const never = async (): Promise<'skip'> => { throw new Error('should not ask'); };
+
+    assert.strictEqual(await resolveCollision(path.join(tmpDir, 'new.gif'), 'skip', never), path.join(tmpDir, 'new.gif'));
+    assert.strictEqual(await resolveCollision(existing, 'overwrite', never), existing);
+    assert.strictEqual(await resolveCollision(existing, 'increment', never), path.join(tmpDir, 'demo_magic_3.gif'));
+    assert.strictEqual(await resolveCollision(existing, 'skip', never), null);
+    assert.strictEqual(await resolveCollision(existing, 'ask', async () => 'increment'), path.join(tmpDir, 'demo_magic_3.gif'));
+    assert.strictEqual(await resolveCollision(existing, 'ask', async () => 'skip'), null);
+    assert.strictEqual(nextFreePath('/out/a.gif', candidate => candidate !== '/out/a_4.gif'), path.join('/out', 'a_4.gif'));
+  });
+
+  test('outputs of unfinished conversions count as taken', async () => {
+    const queued = path.join(tmpDir, 'demo_magic.gif');
+    const reserved = [queued];
+    const taken = isOutputTaken(() => reserved);
+
+    // The file does not exist yet, but a queued job will write it
+    assert.ok(taken(path.join(tmpDir, '.', 'demo_magic.gif')));
+    assert.strictEqual(await resolveCollision(queued, 'increment', async () => 'skip', taken), path.join(tmpDir, 'demo_magic_2.gif'));
+    reserved.push(path.join(tmpDir, 'demo_magic_2.gif'));
+    fs.writeFileSync(path.join(tmpDir, 'demo_magic_3.gif'), '');
+    assert.strictEqual(nextFreePath(queued, taken), path.join(tmpDir, 'demo_magic_4.gif'));
+  });
+
+  test('concurrent writes to the same output use separate partial files', async () => {
+    const outputPath = path.join(tmpDir, 'demo_magic.gif');
+    const partials: string[] = [];
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+
+    const first = writeThroughPartial(outputPath, async (partialPath) => {
+      partials.push(partialPath);
+      fs.writeFileSync(partialPath, 'first');
+      await gate;
+    });
+    const second = writeThroughPartial(outputPath, async (partialPath) => {
+      partials.push(partialPath);
+      fs.writeFileSync(partialPath, 'second');
+      await gate;
+    });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(new Set(partials).size, 2);
+    assert.deepStrictEqual(partials.map(partial => fs.readFileSync(partial, 'utf8')), ['first', 'second']);
+
+    release();
+    await Promise.all([first, second]);
+    assert.deepStrictEqual(fs.readdirSync(tmpDir), ['demo_magic.gif']);
+
+    // Same scheme for the other temporary files (optimizer output, budget attempts, previews)
+    const suffixes = [uniqueFileSuffix(), uniqueFileSuffix()];
+    assert.notStrictEqual(suffixes[0], suffixes[1]);
+    assert.ok(suffixes[0].startsWith(`${process.pid}-`));
+  });
+
+  test('writeThroughPartial only replaces the existing file on success', async () => {
+    const outputPath = path.join(tmpDir, 'nested', 'demo_magic.gif');
+    fs.mkdirSync(path.dirname(outputPath));
+    fs.writeFileSync(outputPath, 'hand-tuned');
+
+    await assert.rejects(writeThroughPartial(outputPath, async (partialPath) => {
+      assert.strictEqual(path.extname(partialPath), '.gif');
+      fs.writeFileSync(partialPath, 'half');
+      throw new Error('FFmpeg failed');
+    }), /FFmpeg failed/);
+    assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), 'hand-tuned');
+    assert.deepStrictEqual(fs.readdirSync(path.dirname(outputPath)), ['demo_magic.gif']);
+
+    const size = await writeThroughPartial(outputPath, async (partialPath) => {
+      fs.writeFileSync(partialPath, 'new');
+      return 3;
+    });
+    assert.strictEqual(size, 3);
+    assert.strictEqual(fs.readFileSync(outputPath, 'utf8'), 'new');
+
+    // Missing folders are created
+    const deep = path.join(tmpDir, 'a', 'b', 'out.gif');
+    await writeThroughPartial(deep, async (partialPath) => fs.writeFileSync(partialPath, 'x'));
+    assert.ok(fs.existsSync(deep));
+  });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'node:assert';
+import { appendPlayback, buildSpeedFilter, getOutputDuration, getSourceDuration } from '../../playback';
+
+suite('Playback - unit', () => {
+  test('output duration follows speed and boomerang', () => {
+    assert.strictEqual(getOutputDuration(10, {}), 10);
+    assert.strictEqual(getOutputDuration(10, { speed: 4 }), 2.5);
+    assert.strictEqual(getOutputDuration(10, { speed: 2, boomerang: true }), 10);
+    // Out-of-range speeds are clamped to 0.25-8
+    assert.strictEqual(getOutputDuration(8, { speed: 100 }), 1);
+    assert.strictEqual(getSourceDuration(getOutputDuration(6, { speed: 0.5, boomerang: true }), { speed: 0.5, boomerang: true }), 6);
+  });
+
+  test('speed uses setpts and is skipped at 1×', () => {
+    assert.strictEqual(buildSpeedFilter({ speed: 2 }), 'setpts=PTS/2');
+    assert.strictEqual(buildSpeedFilter({}), null);
+  });
+
+  test('appendPlayback chains reverse and boomerang', () => {
+    assert.strictEqual(appendPlayback('fps=10', {}), 'fps=10');
+    assert.strictEqual(appendPlayback('fps=10', { reverse: true }), 'fps=10,reverse');
+    assert.strictEqual(
+      appendPlayback('fps=10', { boomerang: true }),
+      'fps=10,split[fwd][bwd];[bwd]reverse,trim=start_frame=1,setpts=PTS-STARTPTS[rev];[fwd][rev]concat=n=2:v=1:a=0'
+    );
+    assert.ok(appendPlayback('null', { boomerang: true }).startsWith('split[fwd][bwd]'));
+  });
+
+  test('holdLastFrame pads the end and lengthens the animation', () => {
+    assert.strictEqual(appendPlayback('fps=10', { reverse: true, holdLastFrame: 2 }), 'fps=10,reverse,tpad=stop_mode=clone:stop_duration=2');
+    assert.strictEqual(getOutputDuration(10, { speed: 2, holdLastFrame: 2 }), 7);
+    assert.strictEqual(getSourceDuration(7, { speed: 2, holdLastFrame: 2 }), 10);
+  });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'node:assert';
+import sinon from 'sinon';
+import { normalizePreset, PresetStore } from '../../presets';
+
+suite('PresetStore - unit', () => {
+  const makeSettings = (values: Record<string, any>, workspacePresets?: Record<string, any>) => ({
+    get: (key: string, fallback: any) => (key in values ? values[key] : fallback),
+    inspect: (key: string, scope: string): any => (key === 'presets' && scope === 'workspace' ? workspacePresets : undefined),
+    update: sinon.stub().resolves()
+  });
+
+  teardown(() => {
+    sinon.restore();
+  });
+
+  test('get fills missing preset fields from the default settings', () => {
+    const settings = makeSettings({
+      defaultFps: 24,
+      presets: { prDemo: { fps: 12, resolution: '800:-1', outputFormat: 'webp' } }
+    });
+    const store = new PresetStore(settings);
+
+    const options = store.get('prDemo');
+    if (!options) { throw new Error('Expected preset to be found'); }
+    assert.strictEqual(options.fps, 12);
+    assert.strictEqual(options.resolution, '800:-1');
+    assert.strictEqual(options.outputFormat, 'webp');
+    assert.strictEqual(options.colorCount, 128);
+    assert.strictEqual(store.get('missing'), null);
+  });
+
+  test('normalizePreset drops invalid and unknown fields', () => {
+    const defaults = normalizePreset({}, { startTime: 0, duration: 0, resolution: '640:360', fps: 15, colorCount: 128, optimizationLevel: 'ultra', dithering: true, lossyCompression: 80 });
+    const options = normalizePreset({ fps: 'fast', colorCount: 999, optimizationLevel: 'extreme', dithering: false, bogus: 1 }, defaults);
+    assert.strictEqual(options.fps, 15);
+    assert.strictEqual(options.colorCount, 128);
+    assert.strictEqual(options.optimizationLevel, 'ultra');
+    assert.strictEqual(options.dithering, false);
+    assert.ok(!('bogus' in options));
+  });
+
+  test('normalizePreset keeps overlays only when every entry is valid', () => {
+    const defaults = normalizePreset({}, { startTime: 0, duration: 0, resolution: '640:360', fps: 15, colorCount: 128, optimizationLevel: 'ultra', dithering: true, lossyCompression: 80 });
+    const caption = { type: 'text', text: 'Step 1', position: 'bottom', color: 'white', background: 'black@0.5' };
+
+    assert.deepStrictEqual(normalizePreset({ overlays: [caption] }, defaults).overlays, [caption]);
+    assert.strictEqual(normalizePreset({ overlays: [caption, { type: 'image', position: 'top' }] }, defaults).overlays, undefined);
+    assert.strictEqual(normalizePreset({ overlays: [{ ...caption, position: 'middle' }] }, defaults).overlays, undefined);
+  });
+
+  test('save only rewrites the selected scope', async () => {
+    const settings = makeSettings(
+      { presets: { slack: { fps: 10 }, readmeHero: { fps: 30 } } },
+      { readmeHero: { fps: 30 } }
+    );
+    const store = new PresetStore(settings);
+
+    await store.save(' slackSmall ', { fps: 8, colorCount: 64 } as any, 'workspace');
+
+    sinon.assert.calledOnceWithExactly(settings.update, 'presets', {
+      readmeHero: { fps: 30 },
+      slackSmall: { fps: 8, colorCount: 64 }
+    }, 'workspace');
+  });
+});
@@ -0,0 +1,37 @@
+import * as assert from 'node:assert';
+import { buildPreviewOptions, estimateFullSize, getSelectedDuration } from '../../previewService';
+
+suite('PreviewService - unit', () => {
+  const source = { duration: 120, width: 1920, height: 1080, fps: 30 };
+  const base = {
+    startTime: 10,
+    duration: 0,
+    resolution: '1280:720',
+    fps: 20,
+    colorCount: 128,
+    optimizationLevel: 'ultra' as const,
+    dithering: true,
+    lossyCompression: 80,
+    maxOutputSizeMB: 8
+  };
+
+  test('getSelectedDuration handles "until the end"', () => {
+    assert.strictEqual(getSelectedDuration(base, source), 110);
+    assert.strictEqual(getSelectedDuration({ ...base, duration: 5 }, source), 5);
+  });
+
+  test('buildPreviewOptions reduces resolution and caps frames', () => {
+    const preview = buildPreviewOptions(base, source);
+    assert.strictEqual(preview.resolution, '320:-2');
+    assert.strictEqual(preview.duration, 3);
+    assert.strictEqual(preview.fps, 20);
+    assert.strictEqual(preview.maxOutputSizeMB, 0);
+  });
+
+  test('estimateFullSize scales with pixel area and duration', () => {
+    const preview = buildPreviewOptions(base, source);
+    // 1280x720 vs 320x180 = 16x the pixels, 110s vs 3s of footage
+    const estimate = estimateFullSize(1000, preview, base, source);
+    assert.strictEqual(estimate, Math.round(1000 * 16 * (110 / 3)));
+  });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'node:assert';
+import { buildScaleFilter, getResolutionChoices, isValidResolution, parseResolution, resolveOutputSize } from '../../resolution';
+
+suite('Resolution - unit', () => {
+  const landscape = { width: 1920, height: 1080 };
+  const portrait = { width: 1080, height: 1920 };
+
+  test('parseResolution accepts every documented form', () => {
+    assert.deepStrictEqual(parseResolution('original'), { kind: 'original' });
+    assert.deepStrictEqual(parseResolution('640:360'), { kind: 'exact', width: 640, height: 360 });
+    assert.deepStrictEqual(parseResolution('-1:480'), { kind: 'exact', width: -1, height: 480 });
+    assert.deepStrictEqual(parseResolution('37.5%'), { kind: 'percent', percent: 37.5 });
+    assert.deepStrictEqual(parseResolution('fit:800:-1'), { kind: 'fit', width: 800, height: -1 });
+    assert.deepStrictEqual(parseResolution('-2:-2'), { kind: 'original' });
+  });
+
+  test('isValidResolution rejects malformed values', () => {
+    for (const value of ['1920x1080', '0%', 'fit:800', '-3:480', '', 42]) {
+      assert.strictEqual(isValidResolution(value), false, String(value));
+    }
+    assert.strictEqual(isValidResolution('-2:720'), true);
+  });
+
+  test('buildScaleFilter keeps exact sizes and rounds the others to even dimensions', () => {
+    assert.strictEqual(buildScaleFilter('640:360'), 'scale=640:360:flags=lanczos');
+    assert.strictEqual(buildScaleFilter('640:-1'), 'scale=640:-2:flags=lanczos');
+    assert.strictEqual(buildScaleFilter('50%'), 'scale=trunc(iw*0.25)*2:trunc(ih*0.25)*2:flags=lanczos');
+    assert.strictEqual(
+      buildScaleFilter('fit:1280:-1'),
+      "scale='min(1280,iw)':ih:force_original_aspect_ratio=decrease:force_divisible_by=2:flags=lanczos"
+    );
+    assert.strictEqual(buildScaleFilter('original'), null);
+    assert.strictEqual(buildScaleFilter('bogus'), null);
+  });
+
+  test('resolveOutputSize follows the source aspect ratio and never upscales a fit', () => {
+    assert.deepStrictEqual(resolveOutputSize('fit:1280:720', portrait), { width: 406, height: 720 });
+    assert.deepStrictEqual(resolveOutputSize('fit:3840:2160', landscape), landscape);
+    assert.deepStrictEqual(resolveOutputSize('fit:-1:480', landscape), { width: 854, height: 480 });
+    assert.deepStrictEqual(resolveOutputSize('25%', { width: 1366, height: 768 }), { width: 340, height: 192 });
+    assert.deepStrictEqual(resolveOutputSize('-2:360', portrait), { width: 202, height: 360 });
+  });
+
+  test('getResolutionChoices lists downscales in the source orientation', () => {
+    const choices = getResolutionChoices(portrait);
+    assert.deepStrictEqual(choices[0], { value: 'fit:1280:1280', label: '720x1280 (longest side 1280)' });
+    assert.ok(choices.every(choice => !choice.value.startsWith('fit:1920')));
+    assert.deepStrictEqual(choices[choices.length - 1], { value: '25%', label: '25% (270x480)' });
+  });
+});
@@ -0,0 +1,98 @@
+import * as assert from 'node:assert';
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import sinon from 'sinon';
+import { buildRecordingArgs, detectCaptureSource } from '../../screenRecorder';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+suite('ScreenRecorder - unit', () => {
+  const region = { width: 800, height: 600, x: 10, y: 20 };
+
+  teardown(() => {
+    sinon.restore();
+  });
+
+  const withChildProcess = (spawn: sinon.SinonStub) => {
+    const stubs: any = {};
+    stubs['node:child_process'] = { spawn };
+    return proxyquire('../../screenRecorder', stubs);
+  };
+
+  test('detectCaptureSource picks the grabber for the session', () => {
+    const env = (...entries: [string, string][]) => Object.fromEntries(entries);
+    assert.strictEqual(detectCaptureSource('linux', env(['DISPLAY', ':0'])), 'x11grab');
+    assert.strictEqual(detectCaptureSource('linux', env(['DISPLAY', ':0'], ['XDG_SESSION_TYPE', 'wayland'])), 'kmsgrab');
+    assert.strictEqual(detectCaptureSource('linux', env(['WAYLAND_DISPLAY', 'wayland-0'])), 'kmsgrab');
+    assert.strictEqual(detectCaptureSource('linux', {}), null);
+    assert.strictEqual(detectCaptureSource('darwin', {}), 'avfoundation');
+    assert.strictEqual(detectCaptureSource('win32', {}), 'gdigrab');
+  });
+
+  test('buildRecordingArgs passes regions natively or as a crop filter', () => {
+    const x11 = buildRecordingArgs('/tmp/rec.mkv', { source: 'x11grab', fps: 30, region, maxDuration: 60 });
+    assert.ok(x11.join(' ').includes('-f x11grab -framerate 30 -draw_mouse 1 -video_size 800x600 -i :0.0+10,20'));
+    assert.ok(!x11.includes('-vf'));
+
+    const gdi = buildRecordingArgs('/tmp/rec.mkv', { source: 'gdigrab', fps: 30, region, maxDuration: 60 });
+    assert.ok(gdi.join(' ').includes('-offset_x 10 -offset_y 20 -video_size 800x600 -i desktop'));
+
+    const kms = buildRecordingArgs('/tmp/rec.mkv', { source: 'kmsgrab', fps: 30, region, maxDuration: 60 });
+    assert.strictEqual(kms[kms.indexOf('-vf') + 1], 'hwdownload,format=bgr0,crop=800:600:10:20');
+
+    const mac = buildRecordingArgs('/tmp/rec.mkv', { source: 'avfoundation', fps: 30, maxDuration: 60, device: 'Capture screen 1' });
+    assert.strictEqual(mac[mac.indexOf('-i') + 1], 'Capture screen 1:none');
+    assert.ok(!mac.includes('-vf'));
+  });
+
+  test('buildRecordingArgs uses the lavfi test source and mouse selection', () => {
+    const args = buildRecordingArgs('/tmp/rec.mkv', { source: 'lavfi', fps: 25, region, maxDuration: 2 });
+    assert.deepStrictEqual(args.slice(args.indexOf('-f'), args.indexOf('-f') + 6), ['-f', 'lavfi', '-i', 'testsrc2=size=800x600:rate=25', '-t', '2']);
+    assert.strictEqual(args[args.length - 1], '/tmp/rec.mkv');
+
+    const select = buildRecordingArgs('/tmp/rec.mkv', { source: 'x11grab', fps: 30, region, selectRegion: true, maxDuration: 60 });
+    assert.ok(select.join(' ').includes('-select_region 1 -i :0.0 '));
+  });
+
+  test('stop sends q to FFmpeg and resolves once the capture is closed', async () => {
+    const outputPath = path.join(os.tmpdir(), `recording_test_${Date.now()}.mkv`);
+    const child = Object.assign(new EventEmitter(), {
+      stdin: { write: sinon.stub() },
+      stderr: new EventEmitter(),
+      kill: sinon.stub()
+    });
+    const spawn = sinon.stub().returns(child);
+    const module = withChildProcess(spawn);
+    const recorder = new module.ScreenRecorder({ getFfmpegPath: async () => '/usr/bin/ffmpeg' });
+
+    const recording = recorder.record(outputPath, { source: 'lavfi', fps: 10, maxDuration: 5 });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.strictEqual(recorder.isRecording(), true);
+    assert.strictEqual(spawn.firstCall.args[0], '/usr/bin/ffmpeg');
+
+    recorder.stop();
+    sinon.assert.calledWith(child.stdin.write, 'q\n');
+    fs.writeFileSync(outputPath, '');
+    child.emit('close', 255);
+
+    await recording;
+    assert.strictEqual(recorder.isRecording(), false);
+    sinon.assert.notCalled(child.kill);
+    fs.unlinkSync(outputPath);
+  });
+
+  test('record reports FFmpeg errors when the capture fails', async () => {
+    const child = Object.assign(new EventEmitter(), { stdin: { write: sinon.stub() }, stderr: new EventEmitter(), kill: sinon.stub() });
+    const module = withChildProcess(sinon.stub().returns(child));
+    const recorder = new module.ScreenRecorder({ getFfmpegPath: async () => '/usr/bin/ffmpeg' });
+
+    const recording = recorder.record('/tmp/missing.mkv', { source: 'x11grab', fps: 30, maxDuration: 5 });
+    await new Promise(resolve => setImmediate(resolve));
+    child.stderr.emit('data', Buffer.from(':0.0: Cannot open display :0.0, error 1.\n'));
+    child.emit('close', 1);
+
+    await assert.rejects(recording, /Cannot open display/);
+  });
+});
@@ -0,0 +1,51 @@
+import * as assert from 'node:assert';
+import { budgetToBytes, nextBudgetAttempt, scaleResolution } from '../../sizeBudget';
+
+suite('sizeBudget - unit', () => {
+  const source = { duration: 10, width: 1920, height: 1080, fps: 30 };
+  const base = {
+    startTime: 0,
+    duration: 0,
+    resolution: '1920:1080',
+    fps: 30,
+    colorCount: 256,
+    optimizationLevel: 'ultra' as const,
+    dithering: true,
+    lossyCompression: 80,
+    maxOutputSizeMB: 10
+  };
+
+  test('budgetToBytes converts megabytes', () => {
+    assert.strictEqual(budgetToBytes(10), 10 * 1024 * 1024);
+  });
+
+  test('nextBudgetAttempt lowers fps, resolution, colors and raises lossy', () => {
+    const next = nextBudgetAttempt(base, 0.5, source);
+    if (!next) { throw new Error('Expected a next attempt'); }
+    assert.ok(next.fps < base.fps);
+    assert.notStrictEqual(next.resolution, base.resolution);
+    assert.strictEqual(next.colorCount, 128);
+    assert.strictEqual(next.lossyCompression, 120);
+  });
+
+  test('nextBudgetAttempt returns null once every setting is at its floor', () => {
+    const floor = { ...base, fps: 5, resolution: '64:36', colorCount: 32, lossyCompression: 200 };
+    assert.strictEqual(nextBudgetAttempt(floor, 0.1, source), null);
+  });
+
+  test('scaleResolution keeps -1 components and even dimensions', () => {
+    assert.strictEqual(scaleResolution('-1:720', 0.5, source), '-1:360');
+    assert.strictEqual(scaleResolution('1001:-1', 0.5, source), '500:-1');
+  });
+
+  test('scaleResolution keeps percentage and fit forms', () => {
+    assert.strictEqual(scaleResolution('50%', 0.5, source), '25%');
+    // The box is larger than the source, so it shrinks around the produced size
+    assert.strictEqual(scaleResolution('fit:3840:2160', 0.5, source), 'fit:960:540');
+    assert.strictEqual(scaleResolution('fit:-1:720', 0.5, source), 'fit:-1:360');
+  });
+
+  test('scaleResolution falls back to source dimensions for unknown formats', () => {
+    assert.strictEqual(scaleResolution('original', 0.5, source), '960:540');
+  });
+});
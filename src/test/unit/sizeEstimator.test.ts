@@ -0,0 +1,71 @@
+import * as assert from 'node:assert';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { extrapolateEstimate, formatEstimate, planSampleSegments, SizeEstimator } from '../../sizeEstimator';
+import { ConversionOptions } from '../../types';
+
+suite('SizeEstimator - unit', () => {
+  const source = { duration: 300, width: 1920, height: 1080, fps: 30 };
+  const base: ConversionOptions = {
+    startTime: 0,
+    duration: 0,
+    resolution: 'fit:960:540',
+    fps: 15,
+    colorCount: 128,
+    optimizationLevel: 'ultra',
+    dithering: true,
+    lossyCompression: 80,
+    maxOutputSizeMB: 8
+  };
+
+  test('planSampleSegments spreads samples over the selection', () => {
+    assert.deepStrictEqual(planSampleSegments({ startTime: 10, duration: 60 }, source), [
+      { startTime: 10, duration: 2 },
+      { startTime: 39, duration: 2 },
+      { startTime: 68, duration: 2 }
+    ]);
+  });
+
+  test('planSampleSegments skips short selections', () => {
+    assert.strictEqual(planSampleSegments({ startTime: 0, duration: 20 }, source), null);
+    assert.strictEqual(planSampleSegments({ startTime: 290, duration: 0 }, source), null);
+  });
+
+  test('extrapolateEstimate scales size and time to the selection', () => {
+    const samples = [
+      { startTime: 0, duration: 2, size: 100_000, elapsed: 1 },
+      { startTime: 100, duration: 2, size: 300_000, elapsed: 2 }
+    ];
+    assert.deepStrictEqual(extrapolateEstimate(samples, { startTime: 0, duration: 40 }, source), { size: 4_000_000, seconds: 30, samples: 2 });
+  });
+
+  test('formatEstimate', () => {
+    assert.strictEqual(formatEstimate({ size: 5 * 1024 * 1024, seconds: 80, samples: 3 }), '~5.00MB in ~1m 20s');
+  });
+
+  test('estimate converts every sample without the size budget and removes them', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mv2g-estimate-'));
+    const runs: ConversionOptions[] = [];
+    const pipeline = {
+      resolveAutoCrop: async (_input: string, options: ConversionOptions) => options,
+      run: async (_input: string, output: string, options: ConversionOptions) => {
+        runs.push(options);
+        fs.writeFileSync(output, 'gif');
+        return 50_000;
+      }
+    };
+
+    try {
+      const estimator = new SizeEstimator(pipeline as any, tmpDir);
+      const estimate = await estimator.estimate('/videos/talk.mp4', { ...base, holdLastFrame: 2 }, source, () => undefined);
+
+      assert.strictEqual(runs.length, 3);
+      assert.ok(runs.every(options => options.maxOutputSizeMB === 0 && options.holdLastFrame === 0 && options.duration === 2));
+      assert.strictEqual(estimate?.size, 50_000 * 3 * (300 / 6));
+      assert.deepStrictEqual(fs.readdirSync(tmpDir), []);
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'node:assert';
+import {
+  buildOrientationFilters,
+  correctedSize,
+  getDisplaySize,
+  resolveSourceCorrection,
+  SQUARE_PIXELS_FILTER
+} from '../../sourceCorrection';
+import { VideoMetadata } from '../../types';
+
+suite('SourceCorrection - unit', () => {
+  const phone: VideoMetadata = {
+    duration: 10, width: 1080, height: 1920, fps: 30,
+    codedWidth: 1920, codedHeight: 1080, rotation: 90, hdr: true
+  };
+
+  test('resolveSourceCorrection applies everything the source needs by default', () => {
+    assert.deepStrictEqual(resolveSourceCorrection(phone, {}), { rotation: 90, squarePixels: false, toneMap: 'zscale' });
+    assert.deepStrictEqual(resolveSourceCorrection(phone, {}, 'fallback').toneMap, 'fallback');
+  });
+
+  test('resolveSourceCorrection honours the overrides', () => {
+    const anamorphic = { ...phone, sampleAspectRatio: 4 / 3 };
+    assert.deepStrictEqual(
+      resolveSourceCorrection(anamorphic, { autoRotate: false, squarePixels: false, toneMap: false }),
+      { rotation: 0, squarePixels: false, toneMap: undefined }
+    );
+    assert.strictEqual(resolveSourceCorrection(anamorphic, {}).squarePixels, true);
+  });
+
+  test('buildOrientationFilters turns the frames before fixing the pixel aspect', () => {
+    assert.deepStrictEqual(buildOrientationFilters({ rotation: 90, squarePixels: false }), ['transpose=clock']);
+    assert.deepStrictEqual(buildOrientationFilters({ rotation: 180, squarePixels: false }), ['hflip', 'vflip']);
+    assert.deepStrictEqual(buildOrientationFilters({ rotation: 270, squarePixels: true }), ['transpose=cclock', SQUARE_PIXELS_FILTER]);
+    assert.deepStrictEqual(buildOrientationFilters({ rotation: 0, squarePixels: false }), []);
+  });
+
+  test('getDisplaySize widens wide pixels, heightens narrow ones and swaps on rotation', () => {
+    assert.deepStrictEqual(getDisplaySize({ width: 720, height: 576 }, 0, 64 / 45), { width: 1024, height: 576 });
+    assert.deepStrictEqual(getDisplaySize({ width: 720, height: 480 }, 0, 8 / 9), { width: 720, height: 540 });
+    assert.deepStrictEqual(getDisplaySize({ width: 720, height: 576 }, 90, 64 / 45), { width: 576, height: 1024 });
+    assert.deepStrictEqual(getDisplaySize({ width: 720, height: 576 }, 0, 64 / 45, false), { width: 720, height: 576 });
+  });
+
+  test('correctedSize follows the dialog overrides', () => {
+    assert.deepStrictEqual([correctedSize(phone, {}).width, correctedSize(phone, {}).height], [1080, 1920]);
+    const stored = correctedSize(phone, { autoRotate: false });
+    assert.deepStrictEqual([stored.width, stored.height], [1920, 1080]);
+
+    const sequence = { duration: 2, width: 800, height: 600, fps: 12 };
+    assert.strictEqual(correctedSize(sequence, { autoRotate: false }), sequence);
+  });
+});
@@ -0,0 +1,186 @@
+import * as assert from 'node:assert';
+import { getEncoderFlags, getGifLoopValue } from '../../outputFormats';
+
+const proxyquire = require('proxyquire').noCallThru();
+
+suite('VideoConverter - unit', () => {
+  const base = {
+    startTime: 0,
+    duration: 0,
+    resolution: '640:360',
+    fps: 15,
+    colorCount: 128,
+    optimizationLevel: 'ultra' as const,
+    dithering: true,
+    lossyCompression: 80
+  };
+
+  const makeConverter = () => {
+    const module = proxyquire('../../videoConverter', {});
+    const manager = { ensureFfmpeg: async () => '/usr/bin/ffmpeg', getFfmpegPath: async () => '/usr/bin/ffmpeg' };
+    return new module.VideoConverter(manager);
+  };
+
+  // Runs convert() against a fake fluent-ffmpeg that records the calls and replays `stderr`
+  const recordConversion = async (options: any, stderr: string[] = []) => {
+    const calls: { method: string; args: any[] }[] = [];
+    const progress: { percent: number; details?: any }[] = [];
+    const handlers: Record<string, (...args: any[]) => void> = {};
+    const command: any = {
+      on: (event: string, handler: (...args: any[]) => void) => { handlers[event] = handler; return command; },
+      kill: () => undefined,
+      save: () => {
+        stderr.forEach(line => handlers.stderr(line));
+        handlers.end();
+      }
+    };
+    for (const method of ['seekInput', 'inputOptions', 'input', 'duration', 'complexFilter', 'outputOptions']) {
+      command[method] = (...args: any[]) => { calls.push({ method, args }); return command; };
+    }
+    const fakeFfmpeg: any = () => command;
+    fakeFfmpeg.setFfmpegPath = () => undefined;
+    fakeFfmpeg.ffprobe = (_path: string, callback: (err: Error) => void) => callback(new Error('no probe'));
+
+    const stubs: any = {};
+    stubs['fluent-ffmpeg'] = fakeFfmpeg;
+    const module = proxyquire('../../videoConverter', stubs);
+    const manager = { ensureFfmpeg: async () => '/usr/bin/ffmpeg', getFfmpegPath: async () => '/usr/bin/ffmpeg' };
+    await new module.VideoConverter(manager).convert('/tmp/clip.mp4', '/tmp/clip.gif', options, (percent: number, details?: any) => progress.push({ percent, details }));
+
+    const filter: string = calls.find(call => call.method === 'complexFilter')?.args[0];
+    const outputOptions: string[] = calls.filter(call => call.method === 'outputOptions').flatMap(call => call.args[0]);
+    return { calls, progress, filter, outputOptions };
+  };
+
+  test('convert bounds the input, not the output, when a duration is set', async () => {
+    for (const playback of [{ speed: 2 }, { speed: 0.5 }, { reverse: true }, { boomerang: true }]) {
+      const { calls, filter, outputOptions } = await recordConversion({ ...base, startTime: 3, duration: 10, ...playback });
+      const methods = calls.map(call => call.method);
+      // -ss and -t both belong to the video input
+      assert.deepStrictEqual(calls.slice(0, 2), [
+        { method: 'seekInput', args: [3] },
+        { method: 'inputOptions', args: [['-t', '10']] }
+      ]);
+      assert.ok(!methods.includes('duration'), JSON.stringify(playback));
+      assert.ok(!outputOptions.includes('-t'));
+      assert.ok(filter.includes(playback.speed ? `setpts=PTS/${playback.speed}` : 'reverse'), filter);
+    }
+  });
+
+  test('convert keeps the last-frame hold of a trimmed conversion', async () => {
+    const { calls, filter, outputOptions } = await recordConversion({ ...base, duration: 4, speed: 2, holdLastFrame: 1.5 });
+    // Nothing cuts the output at the source duration, so the padded frames are written
+    assert.ok(!calls.some(call => call.method === 'duration'));
+    assert.ok(!outputOptions.includes('-t'));
+    assert.ok(filter.includes('setpts=PTS/2,fps=15,tpad=stop_mode=clone:stop_duration=1.5,'), filter);
+  });
+
+  test('convert measures progress against the animation length', async () => {
+    // 2.5 s of output written, at twice real time
+    const block = ['frame=38', 'out_time_us=2500000', 'speed=2x', 'progress=continue'];
+
+    // 10 s of source at 2× is a 5 s animation
+    const fast = (await recordConversion({ ...base, duration: 10, speed: 2 }, block)).progress[0];
+    assert.strictEqual(fast.percent, 50);
+    assert.strictEqual(fast.details.totalFrames, 75);
+    assert.strictEqual(fast.details.eta, 1.25);
+
+    // Boomerang plays it forward then backward: 10 s
+    const boomerang = (await recordConversion({ ...base, duration: 10, speed: 2, boomerang: true }, block)).progress[0];
+    assert.strictEqual(boomerang.percent, 25);
+    assert.strictEqual(boomerang.details.eta, 3.75);
+  });
+
+  test('buildFilterComplex uses palettegen for GIF output', () => {
+    const filter = makeConverter().buildFilterComplex(base);
+    assert.ok(filter.startsWith('scale=640:360:flags=lanczos,fps=15,'));
+    assert.ok(filter.includes('palettegen=max_colors=128'));
+    assert.ok(filter.endsWith('paletteuse=dither=bayer'));
+  });
+
+  test('buildFilterComplex applies palette strategy options', () => {
+    const perFrame = makeConverter().buildFilterComplex({ ...base, paletteStatsMode: 'single', ditherAlgorithm: 'floyd_steinberg', diffMode: 'rectangle' });
+    assert.ok(perFrame.includes('palettegen=max_colors=128:stats_mode=single'));
+    assert.ok(perFrame.endsWith('paletteuse=dither=floyd_steinberg:diff_mode=rectangle:new=1'));
+
+    const bayer = makeConverter().buildFilterComplex({ ...base, dithering: false, ditherAlgorithm: 'bayer', bayerScale: 4 });
+    assert.ok(bayer.endsWith('paletteuse=dither=bayer:bayer_scale=4'));
+  });
+
+  test('buildFilterComplex fits image sequence frames to the canvas first', () => {
+    const padded = makeConverter().buildFilterComplex(base, { width: 800, height: 600 });
+    assert.ok(padded.startsWith('scale=800:600:force_original_aspect_ratio=decrease:flags=lanczos,pad=800:600:(ow-iw)/2:(oh-ih)/2,setsar=1,scale=640:360:flags=lanczos,'));
+
+    const stretched = makeConverter().buildFilterComplex({ ...base, frameFit: 'scale' }, { width: 800, height: 600 });
+    assert.ok(stretched.startsWith('scale=800:600:flags=lanczos,setsar=1,scale=640:360'));
+  });
+
+  test('buildFilterComplex corrects the source before crop and tone maps after scaling', () => {
+    const filter = makeConverter().buildFilterComplex(
+      { ...base, crop: { width: 1080, height: 1080, x: 0, y: 420 } },
+      undefined,
+      { rotation: 90, squarePixels: false, toneMap: 'zscale' }
+    );
+    assert.ok(filter.startsWith('transpose=clock,crop=1080:1080:0:420,scale=360:360:flags=lanczos,zscale=t=linear'), filter);
+    assert.ok(filter.indexOf('tonemap=tonemap=hable') < filter.indexOf('fps=15'));
+
+    const fallback = makeConverter().buildFilterComplex(base, undefined, { rotation: 0, squarePixels: false, toneMap: 'fallback' });
+    assert.ok(fallback.startsWith('scale=640:360:flags=lanczos,scale=in_color_matrix=bt2020:out_color_matrix=bt709,'));
+  });
+
+  test('buildFilterComplex skips the palette for true-color formats', () => {
+    const filter = makeConverter().buildFilterComplex({ ...base, outputFormat: 'webp' });
+    assert.strictEqual(filter, 'scale=640:360:flags=lanczos,fps=15');
+  });
+
+  test('buildFilterComplex crops before scaling', () => {
+    const filter = makeConverter().buildFilterComplex({ ...base, crop: { width: 800, height: 600, x: 100, y: 50 } });
+    assert.ok(filter.startsWith('crop=800:600:100:50,scale=480:360:flags=lanczos,fps=15,'));
+  });
+
+  test('buildFilterComplex retimes before fps and ping-pongs before the palette', () => {
+    const filter = makeConverter().buildFilterComplex({ ...base, speed: 2, boomerang: true });
+    assert.ok(filter.startsWith('scale=640:360:flags=lanczos,setpts=PTS/2,fps=15,split[fwd][bwd];'));
+    assert.ok(filter.indexOf('concat=n=2') < filter.indexOf('palettegen'));
+  });
+
+  test('buildFilterComplex draws overlays before palettegen', () => {
+    const filter = makeConverter().buildFilterComplex({
+      ...base,
+      overlays: [
+        { type: 'text', text: "Step 1: it's, done", position: 'bottom', fontSize: 20, startTime: 1, endTime: 3 },
+        { type: 'image', path: '/tmp/logo.png', position: 'top-right', opacity: 0.5 }
+      ]
+    });
+
+    assert.ok(filter.startsWith('[0:v]scale=640:360:flags=lanczos,fps=15,drawtext='));
+    assert.ok(filter.includes('text=Step 1\\\\: it\\\\\\\'s\\, done'), filter);
+    assert.ok(filter.includes("enable='between(t,1,3)'"));
+    assert.ok(filter.includes('[1:v]format=rgba,colorchannelmixer=aa=0.5[logo1]'));
+    assert.ok(filter.includes('overlay=x=W-w-10:y=10'));
+    assert.ok(filter.indexOf('overlay=') < filter.indexOf('palettegen'));
+  });
+
+  test('getEncoderFlags selects the encoder for each format', () => {
+    assert.deepStrictEqual(getEncoderFlags(base), ['-loop', '0']);
+
+    const webp = getEncoderFlags({ ...base, outputFormat: 'webp', quality: 60, lossless: false });
+    assert.ok(webp.includes('libwebp_anim'));
+    assert.strictEqual(webp[webp.indexOf('-quality') + 1], '60');
+
+    const apng = getEncoderFlags({ ...base, outputFormat: 'apng' });
+    assert.strictEqual(apng[apng.indexOf('-f') + 1], 'apng');
+
+    const avif = getEncoderFlags({ ...base, outputFormat: 'avif', lossless: true });
+    assert.strictEqual(avif[avif.indexOf('-crf') + 1], '0');
+  });
+
+  test('loopCount maps to each container loop setting', () => {
+    assert.deepStrictEqual([0, 1, 3].map(loopCount => getGifLoopValue({ loopCount })), [0, -1, 2]);
+    assert.deepStrictEqual(getEncoderFlags({ ...base, loopCount: 1 }), ['-loop', '-1']);
+
+    const apng = getEncoderFlags({ ...base, outputFormat: 'apng', loopCount: 3 });
+    assert.strictEqual(apng[apng.indexOf('-plays') + 1], '3');
+    assert.ok(!getEncoderFlags({ ...base, outputFormat: 'avif' }).includes('-loop'));
+  });
+});
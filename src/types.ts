@@ -2,6 +2,66 @@
  * Types and interfaces for MagicVid2Gif
  */
 
+export type OutputFormat = 'gif' | 'webp' | 'apng' | 'avif';
+
+/** Web video formats an existing GIF can be exported to */
+export type VideoExportFormat = 'mp4' | 'webm';
+
+export type PaletteStatsMode = 'full' | 'diff' | 'single';
+
+export type DitherAlgorithm = 'bayer' | 'sierra2_4a' | 'floyd_steinberg' | 'heckbert' | 'none';
+
+export type OverlayPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+interface OverlayBase {
+  position: OverlayPosition;
+  /** Distance from the edges in output pixels (default 10) */
+  margin?: number;
+  /** Visible from this time in seconds, relative to the start of the clip */
+  startTime?: number;
+  /** Visible until this time in seconds, relative to the start of the clip */
+  endTime?: number;
+}
+
+export interface TextOverlay extends OverlayBase {
+  type: 'text';
+  text: string;
+  /** Font file path or fontconfig family name */
+  font?: string;
+  /** Font size in output pixels (default 24) */
+  fontSize?: number;
+  /** FFmpeg colour, e.g. `white`, `#ff0000` or `black@0.5` */
+  color?: string;
+  /** Box colour drawn behind the text (no box when unset) */
+  background?: string;
+}
+
+export interface ImageOverlay extends OverlayBase {
+  type: 'image';
+  /** PNG (or any FFmpeg-readable image) path */
+  path: string;
+  /** 0-1 (default 1) */
+  opacity?: number;
+  /** Width as a fraction of the output width (default 0.2) */
+  scale?: number;
+}
+
+export type Overlay = TextOverlay | ImageOverlay;
+
+/** Region of the source frame, in source pixels */
+/** `pad` keeps the aspect ratio and letterboxes, `scale` stretches */
+export type FrameFit = 'pad' | 'scale';
+
+export interface CropRect {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+}
+
 export interface ConversionOptions {
   startTime: number;
   duration: number;
@@ -11,13 +71,88 @@ export interface ConversionOptions {
   optimizationLevel: 'fast' | 'balanced' | 'quality' | 'ultra';
   dithering: boolean;
   lossyCompression: number;
+  /** GIF dither algorithm; overrides `dithering` when set */
+  ditherAlgorithm?: DitherAlgorithm;
+  /** Bayer pattern strength 0-5 (FFmpeg default 2) */
+  bayerScale?: number;
+  /** palettegen statistics: whole clip, moving areas, or one palette per frame */
+  paletteStatsMode?: PaletteStatsMode;
+  /** Only re-dither the changed rectangle of each frame */
+  diffMode?: 'none' | 'rectangle';
+  /** Upper bound for the final file in megabytes (0 or undefined = no limit) */
+  maxOutputSizeMB?: number;
+  /** Output container/codec (defaults to 'gif') */
+  outputFormat?: OutputFormat;
+  /** Encoder quality 0-100 for WebP and AVIF */
+  quality?: number;
+  /** Lossless encoding for WebP and AVIF (APNG is always lossless) */
+  lossless?: boolean;
+  /** Playback speed multiplier, 0.25-8 (default 1) */
+  speed?: number;
+  /** Play the selection backwards */
+  reverse?: boolean;
+  /** Play forward then backward, doubling the animation length */
+  boomerang?: boolean;
+  /** Number of times the animation plays; 0 or undefined = forever */
+  loopCount?: number;
+  /** Extra seconds the last frame stays on screen */
+  holdLastFrame?: number;
+  /** Region kept from the source frame, before scaling */
+  crop?: CropRect;
+  /** Detect and remove black bars with FFmpeg cropdetect (ignored when `crop` is set) */
+  autoCrop?: boolean;
+  /** Captions and watermarks burned into the frames, drawn in list order */
+  overlays?: Overlay[];
+  /** Image sequences: how frames of another size are fitted to the first frame */
+  frameFit?: FrameFit;
+  /** Turn the frames upright from the source rotation metadata (default true) */
+  autoRotate?: boolean;
+  /** Stretch anamorphic sources to square pixels at their display aspect ratio (default true) */
+  squarePixels?: boolean;
+  /** Tone map HDR sources to SDR BT.709 before the palette (default true) */
+  toneMap?: boolean;
+}
+
+export interface AudioStreamInfo {
+  codec: string;
+  channels: number;
+  sampleRate: number;
+  language?: string;
 }
 
+/**
+ * Source properties read with ffprobe. Only the first four fields are guaranteed;
+ * the others are missing for image sequences and fallback values.
+ */
 export interface VideoMetadata {
   duration: number;
+  /** Display size: after rotation and square-pixel correction */
   width: number;
   height: number;
   fps: number;
+  /** Stored frame size, before rotation and aspect correction */
+  codedWidth?: number;
+  codedHeight?: number;
+  /** Pixel width / pixel height (1 for square pixels) */
+  sampleAspectRatio?: number;
+  /** As reported by ffprobe, e.g. "16:9" */
+  displayAspectRatio?: string;
+  codec?: string;
+  pixelFormat?: string;
+  /** Clockwise display rotation in degrees (0, 90, 180 or 270) */
+  rotation?: number;
+  /** Bits per second of the video stream, or of the whole file when unknown */
+  bitRate?: number;
+  /** The nominal and average frame rates disagree */
+  variableFrameRate?: boolean;
+  frameCount?: number;
+  colorSpace?: string;
+  colorTransfer?: string;
+  colorPrimaries?: string;
+  /** PQ or HLG transfer, or BT.2020 primaries */
+  hdr?: boolean;
+  container?: string;
+  audioStreams?: AudioStreamInfo[];
 }
 
 export interface FfmpegProgress {
@@ -29,11 +164,36 @@ export interface FfmpegProgress {
   percent?: number;
 }
 
+/**
+ * A finished conversion, as recorded in the history view
+ */
 export interface ConversionResult {
+  id: string;
+  inputPath: string;
   outputPath: string;
+  /** Options the conversion was started with, so it can be re-run as is */
+  options: ConversionOptions;
   sizeMB: number;
+  /** Length of the produced animation in seconds */
   duration: number;
   frameCount: number;
+  /** Wall-clock conversion time in seconds */
+  elapsed: number;
+  ffmpegVersion: string;
+  /** Epoch milliseconds */
+  createdAt: number;
+}
+
+/** Details of a running FFmpeg conversion, from its `-progress` output */
+export interface ProgressDetails {
+  /** Frames written so far */
+  frame: number;
+  /** Frames of the whole output, when its duration is known */
+  totalFrames?: number;
+  /** Encoding speed relative to real time */
+  speed?: number;
+  /** Seconds left */
+  eta?: number;
 }
 
-export type ProgressCallback = (percent: number) => void;
+export type ProgressCallback = (percent: number, details?: ProgressDetails) => void;
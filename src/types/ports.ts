@@ -9,8 +9,19 @@ export interface UiPort {
   withProgress<T>(title: string, task: (update: (percent: number, msg?: string) => void) => Promise<T>): Promise<T>;
 }
 
+export type SettingsScope = 'global' | 'workspace';
+
 export interface SettingsPort {
   get<T>(key: string, fallback: T): T;
+  /** Value defined at one scope only, without merging the others */
+  inspect<T>(key: string, scope: SettingsScope): T | undefined;
+  update<T>(key: string, value: T, scope: SettingsScope): Promise<void>;
+}
+
+/** Small persistent key/value store, kept across sessions */
+export interface StatePort {
+  get<T>(key: string, fallback: T): T;
+  update<T>(key: string, value: T): Promise<void>;
 }
 
 export interface WorkspacePort {
@@ -18,3 +29,10 @@ export interface WorkspacePort {
   storagePath(): string;
   tmpPath(): string;
 }
+
+export type LogLevel = 'error' | 'warn' | 'info' | 'debug';
+
+/** Diagnostics sink: the output channel in VS Code, stderr in the CLI */
+export interface LogPort {
+  log(level: LogLevel, message: string): void;
+}
@@ -1,18 +1,38 @@
 import { exec } from 'node:child_process';
 import ffmpeg from 'fluent-ffmpeg';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { promisify } from 'node:util';
 import { FfmpegManager } from './ffmpegManager';
-import { ConversionOptions, FfmpegProgress, ProgressCallback, VideoMetadata } from './types';
+import { buildFrameFitFilter, isSequenceList, readSequenceInfo } from './imageSequence';
+import { parseVideoMetadata } from './mediaInfo';
+import { formatCrop, parseCropDetect } from './crop';
+import { estimateRemaining, progressPercent, PROGRESS_FLAGS, ProgressParser } from './ffmpegProgress';
+import { EVEN_DIMENSIONS_FILTER, getEncoderFlags, getFormatInfo, getVideoExportFlags } from './outputFormats';
+import { appendOverlays, getOverlayInputs } from './overlays';
+import { buildPaletteFilter } from './palette';
+import { appendPlayback, buildSpeedFilter, getOutputDuration } from './playback';
+import { buildScaleFilter } from './resolution';
+import { buildOrientationFilters, buildToneMapFilter, resolveSourceCorrection, SourceCorrection, SQUARE_PIXELS_FILTER, ToneMapper } from './sourceCorrection';
+import { SILENT_LOG } from './logging';
+import { ConversionOptions, CropRect, FfmpegProgress, ProgressCallback, VideoExportFormat, VideoMetadata } from './types';
+import { LogLevel, LogPort } from './types/ports';
 
 const execAsync = promisify(exec);
 
+// Seconds of video sampled by cropdetect
+const CROP_DETECT_SAMPLE = 5;
+
 export class VideoConverter {
-  private currentCommand: ffmpeg.FfmpegCommand | null = null;
+  private readonly activeCommands = new Set<ffmpeg.FfmpegCommand>();
   private readonly ffmpegManager: FfmpegManager;
+  private readonly log: LogPort;
   private ffmpegPath: string | null = null;
+  private toneMapper: Promise<ToneMapper> | null = null;
 
-  constructor(ffmpegManager: FfmpegManager) {
+  constructor(ffmpegManager: FfmpegManager, log: LogPort = SILENT_LOG) {
     this.ffmpegManager = ffmpegManager;
+    this.log = log;
   }
 
   /**
@@ -43,34 +63,30 @@ export class VideoConverter {
       await this.initialize();
     }
 
+    // Image sequence lists describe themselves; probing them would only see the first frame
+    const sequence = readSequenceInfo(videoPath);
+    if (sequence) {
+      return sequence;
+    }
+
+    return parseVideoMetadata(await this.probe(videoPath));
+  }
+
+  /**
+   * Full ffprobe output (format, streams, side data)
+   */
+  public async probe(videoPath: string): Promise<ffmpeg.FfprobeData> {
+    if (!this.ffmpegPath) {
+      await this.initialize();
+    }
+
     return new Promise((resolve, reject) => {
       ffmpeg.ffprobe(videoPath, (err: any, metadata: ffmpeg.FfprobeData) => {
         if (err) {
           reject(err);
           return;
         }
-
-        const videoStream = metadata.streams.find((s: any) => s.codec_type === 'video');
-        if (!videoStream) {
-          reject(new Error('No video stream found'));
-          return;
-        }
-
-        // Compute FPS from fraction (e.g., "30000/1001")
-        let fps = 30;
-        if (videoStream.r_frame_rate) {
-          const [num, den] = videoStream.r_frame_rate.split('/').map(Number);
-          if (den && den !== 0) {
-            fps = num / den;
-          }
-        }
-
-        resolve({
-          duration: metadata.format.duration || 0,
-          width: videoStream.width || 0,
-          height: videoStream.height || 0,
-          fps: fps
-        });
+        resolve(metadata);
       });
     });
   }
@@ -79,49 +95,93 @@ export class VideoConverter {
     inputPath: string, 
     outputPath: string, 
     options: ConversionOptions, 
-    progressCallback: ProgressCallback
+    progressCallback: ProgressCallback,
+    signal?: AbortSignal,
+    onLog?: (line: string, level: LogLevel) => void
   ): Promise<void> {
     // Ensure FFmpeg is ready
     if (!this.ffmpegPath) {
       const ready = await this.initialize();
       if (!ready) {
-        throw new Error("FFmpeg n'est pas disponible. Veuillez l'installer via la commande \"Installer FFmpeg\".");
+        throw new Error('FFmpeg is not available. Install it with the "Install FFmpeg" command.');
       }
     }
 
+    if (signal?.aborted) {
+      throw new Error('Conversion cancelled by user');
+    }
+
+    const sequence = readSequenceInfo(inputPath) ?? undefined;
+    const correction = sequence ? undefined : await this.getSourceCorrection(inputPath, options);
+
+    // Without a job the lines still reach the log port
+    const log = onLog ?? ((line: string, level: LogLevel) => this.log.log(level, line));
+
     return new Promise((resolve, reject) => {
       const effectiveDuration = options.duration === 0 ? undefined : options.duration;
 
-      const filterComplex = this.buildFilterComplex(options);
+      const filterComplex = this.buildFilterComplex(options, sequence, correction);
+      // Length of the animation, which progress is measured against; refined once FFmpeg reads the input
+      const selectedDuration = effectiveDuration ?? (sequence ? Math.max(0, sequence.duration - (options.startTime || 0)) : 0);
+      let outputDuration = selectedDuration > 0 ? getOutputDuration(selectedDuration, options) : 0;
+      const started = Date.now();
+      const parser = new ProgressParser(report => {
+        progressCallback(report.done ? 100 : Math.min(99, progressPercent(report, outputDuration)), {
+          frame: report.frame,
+          totalFrames: outputDuration > 0 ? Math.round(outputDuration * options.fps) : undefined,
+          speed: report.speed,
+          eta: estimateRemaining(report, outputDuration, (Date.now() - started) / 1000)
+        });
+      });
 
       // Additional optimization options
       const optimizationFlags = this.getOptimizationFlags(options.optimizationLevel);
 
-      let cmd: ffmpeg.FfmpegCommand = ffmpeg(inputPath).seekInput(options.startTime || 0);
+      let cmd: ffmpeg.FfmpegCommand = this.openInput(inputPath).seekInput(options.startTime || 0);
+      if (correction) {
+        // The filter graph turns the frames itself, so FFmpeg must not do it a second time
+        cmd = cmd.inputOptions('-noautorotate');
+      }
       if (effectiveDuration !== undefined) {
-        cmd = cmd.duration(effectiveDuration);
+        // Bounds the input, not the output: speed, reverse, boomerang and the hold change the
+        // animation length, and reverse must only buffer the selected range
+        cmd = cmd.inputOptions(['-t', String(effectiveDuration)]);
+      }
+      // Added after seekInput so the seek only applies to the video
+      for (const image of getOverlayInputs(options.overlays)) {
+        cmd = cmd.input(image);
       }
 
-      this.currentCommand = cmd
+      const command = cmd
         .complexFilter(filterComplex)
         .outputOptions([
-          '-loop', '0', // Loop infini
-          ...optimizationFlags
+          ...getEncoderFlags(options),
+          ...optimizationFlags,
+          ...PROGRESS_FLAGS
         ])
         .on('start', (commandLine: string) => {
-          console.log('Commande FFmpeg:', commandLine);
+          log(commandLine, 'info');
         })
-        .on('progress', (progress: FfmpegProgress) => {
-          if (progress.percent) {
-            // Cap at 85% because Gifsicle optimization may follow
-            const adjustedPercent = Math.min(Math.round(progress.percent * 0.85), 85);
-            progressCallback(adjustedPercent);
+        .on('stderr', (line: string) => {
+          // Progress blocks would drown the rest of the output in the log
+          if (!parser.push(line)) {
+            log(line, 'debug');
+          }
+        })
+        .on('codecData', (data: { duration?: string }) => {
+          const inputDuration = timemarkToSeconds(data.duration);
+          const remaining = Math.max(0, inputDuration - (options.startTime || 0));
+          const selected = effectiveDuration === undefined ? remaining : Math.min(effectiveDuration, remaining || effectiveDuration);
+          if (selected > 0) {
+            outputDuration = getOutputDuration(selected, options);
           }
         })
         .on('end', () => {
+          this.release(command, onAbort, signal);
           resolve();
         })
         .on('error', (err: Error) => {
+          this.release(command, onAbort, signal);
           if (err.message.includes('ffmpeg was killed')) {
             reject(new Error('Conversion cancelled by user'));
           } else {
@@ -129,10 +189,163 @@ export class VideoConverter {
           }
         });
 
-      this.currentCommand.save(outputPath);
+      // Each conversion owns its process so that one job can be cancelled alone
+      const onAbort = () => command.kill('SIGTERM');
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.activeCommands.add(command);
+
+      command.save(outputPath);
+    });
+  }
+
+  /**
+   * Re-encodes an animation (typically a GIF) as H.264 MP4 or VP9 WebM
+   */
+  public async exportVideo(
+    inputPath: string,
+    outputPath: string,
+    format: VideoExportFormat,
+    progressCallback: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<void> {
+    if (!this.ffmpegPath) {
+      await this.initialize();
+    }
+
+    return new Promise((resolve, reject) => {
+      let inputDuration = 0;
+      const command = this.openInput(inputPath)
+        .videoFilters(EVEN_DIMENSIONS_FILTER)
+        .outputOptions(getVideoExportFlags(format))
+        .on('codecData', (data: { duration?: string }) => {
+          inputDuration = timemarkToSeconds(data.duration);
+        })
+        .on('progress', (progress: FfmpegProgress) => {
+          const percent = inputDuration > 0 && progress.timemark
+            ? (timemarkToSeconds(progress.timemark) / inputDuration) * 100
+            : progress.percent;
+          if (percent) {
+            progressCallback(Math.min(Math.round(percent), 99));
+          }
+        })
+        .on('end', () => {
+          this.release(command, onAbort, signal);
+          resolve();
+        })
+        .on('error', (err: Error) => {
+          this.release(command, onAbort, signal);
+          reject(err.message.includes('ffmpeg was killed') ? new Error('Conversion cancelled by user') : err);
+        });
+
+      const onAbort = () => command.kill('SIGTERM');
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.activeCommands.add(command);
+
+      command.save(outputPath);
+    });
+  }
+
+  private release(command: ffmpeg.FfmpegCommand, onAbort: () => void, signal?: AbortSignal): void {
+    this.activeCommands.delete(command);
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  /**
+   * Extracts a single JPEG frame at `time` seconds, scaled to `width` pixels
+   */
+  public async extractFrame(videoPath: string, time: number, outputPath: string, width: number): Promise<void> {
+    if (!this.ffmpegPath) {
+      await this.initialize();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.openInput(videoPath)
+        .seekInput(Math.max(0, time))
+        .frames(1)
+        .outputOptions(['-vf', `${SQUARE_PIXELS_FILTER},scale=${width}:-2`, '-q:v', '4'])
+        .on('end', () => resolve())
+        .on('error', (err: Error) => reject(err))
+        .save(outputPath);
+    });
+  }
+
+  /**
+   * Finds black bars around the selected range with cropdetect; null when the full frame is used
+   */
+  public async detectCrop(
+    videoPath: string,
+    source: Pick<VideoMetadata, 'width' | 'height'>,
+    range: Pick<ConversionOptions, 'startTime' | 'duration'>,
+    signal?: AbortSignal
+  ): Promise<CropRect | null> {
+    if (!this.ffmpegPath) {
+      await this.initialize();
+    }
+
+    const sample = range.duration > 0 ? Math.min(range.duration, CROP_DETECT_SAMPLE) : CROP_DETECT_SAMPLE;
+    const lines: string[] = [];
+
+    return new Promise((resolve, reject) => {
+      const command = this.openInput(videoPath)
+        .seekInput(range.startTime || 0)
+        .duration(sample)
+        // Square pixels so the rectangle is in display coordinates, like VideoMetadata
+        .videoFilters([SQUARE_PIXELS_FILTER, 'cropdetect=limit=24:round=2:reset=0'])
+        .outputOptions(['-an'])
+        .format('null')
+        .on('stderr', (line: string) => lines.push(line))
+        .on('end', () => {
+          this.release(command, onAbort, signal);
+          resolve(parseCropDetect(lines, source));
+        })
+        .on('error', (err: Error) => {
+          this.release(command, onAbort, signal);
+          reject(err.message.includes('ffmpeg was killed') ? new Error('Conversion cancelled by user') : err);
+        });
+
+      const onAbort = () => command.kill('SIGTERM');
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.activeCommands.add(command);
+
+      command.save(os.devNull);
     });
   }
 
+  /**
+   * Extracts `count` evenly spaced thumbnails into `outputDir`
+   */
+  public async extractThumbnails(
+    videoPath: string,
+    duration: number,
+    count: number,
+    outputDir: string,
+    width: number
+  ): Promise<{ time: number; path: string }[]> {
+    const thumbnails: { time: number; path: string }[] = [];
+    const step = duration / count;
+
+    // Sequential on purpose: parallel seeks on the same file thrash the disk
+    for (let i = 0; i < count; i++) {
+      const time = step * i + step / 2;
+      const thumbPath = path.join(outputDir, `thumb_${i}.jpg`);
+      await this.extractFrame(videoPath, time, thumbPath, width);
+      thumbnails.push({ time, path: thumbPath });
+    }
+
+    return thumbnails;
+  }
+
+  /**
+   * FFmpeg command on the input; image sequence lists go through the concat demuxer
+   */
+  private openInput(inputPath: string): ffmpeg.FfmpegCommand {
+    if (!isSequenceList(inputPath)) {
+      return ffmpeg(inputPath);
+    }
+    // Absolute frame paths need -safe 0; -reinit_filter 0 keeps one graph (and one palette) when frame sizes change
+    return ffmpeg(inputPath).inputOptions(['-f', 'concat', '-safe', '0', '-reinit_filter', '0']);
+  }
+
   private getOptimizationFlags(level: string): string[] {
     // Keep FFmpeg options minimal and valid for GIF output.
     // Avoid injecting duplicate filtergraphs (-lavfi) or non-existent flags like -optimization/-lossless.
@@ -140,28 +353,96 @@ export class VideoConverter {
     return [];
   }
 
-  private buildFilterComplex(options: ConversionOptions): string {
+  /**
+   * Rotation, pixel aspect and HDR handling for a video input; undefined when it cannot be probed,
+   * in which case FFmpeg's own autorotation still applies
+   */
+  private async getSourceCorrection(inputPath: string, options: ConversionOptions): Promise<SourceCorrection | undefined> {
+    let source: VideoMetadata;
+    try {
+      source = await this.getVideoInfo(inputPath);
+    } catch {
+      return undefined;
+    }
+    const toneMapper = source.hdr && options.toneMap !== false ? await this.getToneMapper() : undefined;
+    return resolveSourceCorrection(source, options, toneMapper);
+  }
+
+  /**
+   * zscale needs an FFmpeg built with zimg; checked once
+   */
+  private getToneMapper(): Promise<ToneMapper> {
+    this.toneMapper ??= new Promise<ToneMapper>((resolve) => {
+      ffmpeg.getAvailableFilters((err, filters) => {
+        resolve(!err && filters.zscale && filters.tonemap ? 'zscale' : 'fallback');
+      });
+    });
+    return this.toneMapper;
+  }
+
+  private buildFilterComplex(
+    options: ConversionOptions,
+    sequence?: Pick<VideoMetadata, 'width' | 'height'>,
+    correction?: SourceCorrection
+  ): string {
     const segments: string[] = [];
 
-    if (options.resolution && options.resolution !== 'original') {
-      segments.push(`scale=${options.resolution}:flags=lanczos`);
+    // Image sequences: every frame is fitted to the first frame's size before anything else
+    if (sequence) {
+      segments.push(buildFrameFitFilter(sequence, options.frameFit));
+    }
+
+    // Upright, square-pixel frames: crop and resolution refer to the displayed picture
+    if (correction) {
+      segments.push(...buildOrientationFilters(correction));
+    }
+
+    if (options.crop) {
+      segments.push(`crop=${formatCrop(options.crop)}`);
+    }
+
+    // An explicit W:H box is fitted to the crop so the cropped region is not stretched
+    const scale = buildScaleFilter(options.resolution, options.crop);
+    if (scale) {
+      segments.push(scale);
+    }
+
+    // Tone mapping after the downscale costs far less; the palette then sees SDR colours
+    if (correction?.toneMap) {
+      segments.push(buildToneMapFilter(correction.toneMap));
+    }
+
+    const speed = buildSpeedFilter(options);
+    if (speed) {
+      segments.push(speed);
     }
 
     if (options.fps) {
       segments.push(`fps=${options.fps}`);
     }
 
-    const paletteBase = `split[s0][s1];[s0]palettegen=max_colors=${options.colorCount}:stats_mode=full[p];[s1][p]paletteuse`;
-    const dither = options.dithering ? 'bayer' : 'none';
+    // Reverse/boomerang run on the reduced frames; overlay times then refer to the final animation
+    const played = appendPlayback(segments.length > 0 ? segments.join(',') : 'null', options);
 
-    segments.push(`${paletteBase}=dither=${dither}`);
+    // Overlays go before palettegen so the palette includes their colours
+    const chain = appendOverlays(played, options.overlays);
 
-    return segments.join(',');
+    // WebP, APNG and AVIF are true-color: only GIF needs a palette
+    if (!getFormatInfo(options).usesPalette) {
+      return chain;
+    }
+
+    const palette = buildPaletteFilter(options);
+
+    return chain === 'null' ? palette : `${chain},${palette}`;
   }
 
+  /**
+   * Kills every running conversion
+   */
   public cancel(): void {
-    if (this.currentCommand) {
-      this.currentCommand.kill('SIGTERM');
+    for (const command of this.activeCommands) {
+      command.kill('SIGTERM');
     }
   }
 
@@ -173,3 +454,12 @@ export class VideoConverter {
     return this.ffmpegManager.getVersion();
   }
 }
+
+/**
+ * Converts an FFmpeg `HH:MM:SS.ms` timemark to seconds (0 when missing or unparsable)
+ */
+function timemarkToSeconds(timemark?: string): number {
+  if (!timemark) {return 0;}
+  const seconds = timemark.split(':').reduce((total, part) => total * 60 + Number.parseFloat(part), 0);
+  return Number.isFinite(seconds) ? seconds : 0;
+}
@@ -0,0 +1,219 @@
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { CropRect, VideoMetadata } from '../types';
+import { VideoConverter } from '../videoConverter';
+
+const FRAME_WIDTH = 960;
+
+type CropMessage =
+  | { type: 'confirm'; crop: CropRect }
+  | { type: 'cancel' };
+
+/**
+ * Webview that lets the user draw the crop rectangle on a frame of the video
+ */
+export class CropPanel {
+  private readonly panel: vscode.WebviewPanel;
+  private readonly converter: VideoConverter;
+  private readonly videoPath: string;
+  private readonly metadata: VideoMetadata;
+  private readonly workDir: string;
+
+  private constructor(converter: VideoConverter, videoPath: string, metadata: VideoMetadata, tmpRoot: string) {
+    this.converter = converter;
+    this.videoPath = videoPath;
+    this.metadata = metadata;
+    this.workDir = fs.mkdtempSync(path.join(tmpRoot, 'magicvid2gif-crop-'));
+    this.panel = vscode.window.createWebviewPanel(
+      'magicvid2gif.crop',
+      `Crop ${path.basename(videoPath)}`,
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.file(this.workDir)]
+      }
+    );
+  }
+
+  /**
+   * Opens the panel on the frame at `time` and resolves with the rectangle in source pixels,
+   * or null if the panel is closed
+   */
+  public static async show(
+    converter: VideoConverter,
+    videoPath: string,
+    metadata: VideoMetadata,
+    time: number,
+    tmpRoot: string,
+    initial?: CropRect
+  ): Promise<CropRect | null> {
+    const cropPanel = new CropPanel(converter, videoPath, metadata, tmpRoot);
+    try {
+      return await cropPanel.run(time, initial);
+    } finally {
+      fs.rmSync(cropPanel.workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async run(time: number, initial?: CropRect): Promise<CropRect | null> {
+    const webview = this.panel.webview;
+    webview.html = '<!DOCTYPE html><html><body><p>Extracting frame...</p></body></html>';
+
+    const framePath = path.join(this.workDir, 'frame.jpg');
+
+    return new Promise<CropRect | null>((resolve, reject) => {
+      let settled = false;
+      let subscription: vscode.Disposable | undefined;
+      const finish = (crop: CropRect | null) => {
+        if (settled) {return;}
+        settled = true;
+        subscription?.dispose();
+        resolve(crop);
+        this.panel.dispose();
+      };
+
+      // Registered before the extraction: closing the panel meanwhile is a plain cancel
+      this.panel.onDidDispose(() => finish(null));
+
+      this.converter.extractFrame(this.videoPath, time, framePath, Math.min(FRAME_WIDTH, this.metadata.width)).then(() => {
+        // The webview is gone once the panel is disposed
+        if (settled) {return;}
+        webview.html = this.renderHtml(webview.asWebviewUri(vscode.Uri.file(framePath)).toString(), initial);
+
+        subscription = webview.onDidReceiveMessage((message: CropMessage) => {
+          if (message.type === 'confirm') {
+            finish(this.clamp(message.crop));
+          } else {
+            finish(null);
+          }
+        });
+      }, (error: unknown) => {
+        // After a cancel the work folder is deleted under the extraction, which then fails
+        if (settled) {return;}
+        settled = true;
+        reject(error);
+        this.panel.dispose();
+      });
+    });
+  }
+
+  private clamp(crop: CropRect): CropRect {
+    const even = (value: number) => Math.max(2, Math.floor(value / 2) * 2);
+    const x = Math.min(Math.max(0, Math.round(crop.x)), this.metadata.width - 2);
+    const y = Math.min(Math.max(0, Math.round(crop.y)), this.metadata.height - 2);
+    return {
+      x,
+      y,
+      width: even(Math.min(crop.width, this.metadata.width - x)),
+      height: even(Math.min(crop.height, this.metadata.height - y))
+    };
+  }
+
+  private renderHtml(src: string, initial?: CropRect): string {
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const csp = `default-src 'none'; img-src ${this.panel.webview.cspSource}; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+    const start = initial ?? { x: 0, y: 0, width: this.metadata.width, height: this.metadata.height };
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 12px; }
+    #stage { position: relative; display: inline-block; overflow: hidden; user-select: none; cursor: crosshair; }
+    #frame { display: block; max-width: 100%; max-height: 70vh; pointer-events: none; }
+    #rect { position: absolute; border: 2px dashed var(--vscode-focusBorder, #0af); box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.55); pointer-events: none; }
+    .fields { display: flex; gap: 12px; margin: 12px 0; }
+    .fields input { width: 72px; background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+  </style>
+</head>
+<body>
+  <p>Drag on the frame to draw the region to keep.</p>
+  <div id="stage">
+    <img id="frame" src="${src}" alt="Video frame">
+    <div id="rect"></div>
+  </div>
+  <div class="fields">
+    <label>Width <input id="width" type="number" min="2"></label>
+    <label>Height <input id="height" type="number" min="2"></label>
+    <label>X <input id="x" type="number" min="0"></label>
+    <label>Y <input id="y" type="number" min="0"></label>
+  </div>
+  <button id="confirm">Use this crop</button>
+  <button id="reset" class="secondary">Full frame</button>
+  <button id="cancel" class="secondary">Cancel</button>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const source = { width: ${this.metadata.width}, height: ${this.metadata.height} };
+    const crop = ${JSON.stringify(start)};
+    const stage = document.getElementById('stage');
+    const frame = document.getElementById('frame');
+    const rect = document.getElementById('rect');
+    const fields = ['width', 'height', 'x', 'y'];
+    let anchor = null;
+
+    // Source pixels per displayed pixel
+    const ratio = () => source.width / Math.max(1, frame.clientWidth);
+    const clamp = (value, min, max) => Math.min(max, Math.max(min, value));
+
+    function render() {
+      const r = ratio();
+      rect.style.left = (crop.x / r) + 'px';
+      rect.style.top = (crop.y / r) + 'px';
+      rect.style.width = (crop.width / r) + 'px';
+      rect.style.height = (crop.height / r) + 'px';
+      fields.forEach((key) => { document.getElementById(key).value = Math.round(crop[key]); });
+    }
+
+    function pointAt(event) {
+      const bounds = frame.getBoundingClientRect();
+      const r = ratio();
+      return {
+        x: clamp((event.clientX - bounds.left) * r, 0, source.width),
+        y: clamp((event.clientY - bounds.top) * r, 0, source.height)
+      };
+    }
+
+    stage.addEventListener('pointerdown', (event) => { anchor = pointAt(event); });
+    window.addEventListener('pointerup', () => { anchor = null; });
+    window.addEventListener('pointermove', (event) => {
+      if (!anchor) { return; }
+      const point = pointAt(event);
+      crop.x = Math.min(anchor.x, point.x);
+      crop.y = Math.min(anchor.y, point.y);
+      crop.width = Math.max(2, Math.abs(point.x - anchor.x));
+      crop.height = Math.max(2, Math.abs(point.y - anchor.y));
+      render();
+    });
+
+    fields.forEach((key) => {
+      document.getElementById(key).addEventListener('change', (event) => {
+        const value = Number(event.target.value);
+        if (Number.isFinite(value)) { crop[key] = value; }
+        crop.x = clamp(crop.x, 0, source.width - 2);
+        crop.y = clamp(crop.y, 0, source.height - 2);
+        crop.width = clamp(crop.width, 2, source.width - crop.x);
+        crop.height = clamp(crop.height, 2, source.height - crop.y);
+        render();
+      });
+    });
+
+    document.getElementById('reset').addEventListener('click', () => {
+      Object.assign(crop, { x: 0, y: 0, width: source.width, height: source.height });
+      render();
+    });
+    document.getElementById('confirm').addEventListener('click', () => vscode.postMessage({ type: 'confirm', crop }));
+    document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+
+    frame.addEventListener('load', render);
+    window.addEventListener('resize', render);
+  </script>
+</body>
+</html>`;
+  }
+}
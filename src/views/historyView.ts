@@ -0,0 +1,73 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { getFormatInfo } from '../outputFormats';
+import { ConversionHistory, formatOptionValue } from '../history';
+import { ConversionResult } from '../types';
+
+type DetailNode = { kind: 'detail'; entry: ConversionResult; label: string; value: string };
+export type HistoryNode = { kind: 'entry'; entry: ConversionResult } | DetailNode;
+
+/**
+ * Explorer tree listing past conversions; each entry expands to its statistics and options
+ */
+export class HistoryTreeProvider implements vscode.TreeDataProvider<HistoryNode> {
+  private readonly history: ConversionHistory;
+  private readonly changed = new vscode.EventEmitter<HistoryNode | undefined>();
+
+  public readonly onDidChangeTreeData = this.changed.event;
+
+  constructor(history: ConversionHistory) {
+    this.history = history;
+  }
+
+  public refresh(): void {
+    this.changed.fire(undefined);
+  }
+
+  public getChildren(node?: HistoryNode): HistoryNode[] {
+    if (!node) {
+      return this.history.list().map(entry => ({ kind: 'entry', entry }));
+    }
+    if (node.kind === 'detail') {return [];}
+
+    const entry = node.entry;
+    const details: [string, string][] = [
+      ['Source', entry.inputPath],
+      ['Output', entry.outputPath],
+      ['Size', `${entry.sizeMB.toFixed(2)}MB`],
+      ['Length', `${entry.duration.toFixed(1)}s · ${entry.frameCount} frames`],
+      ['Converted in', `${entry.elapsed.toFixed(1)}s with FFmpeg ${entry.ffmpegVersion}`],
+      ...Object.entries(entry.options)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]): [string, string] => [key, formatOptionValue(value)])
+    ];
+    return details.map(([label, value]) => ({ kind: 'detail', entry, label, value }));
+  }
+
+  public getTreeItem(node: HistoryNode): vscode.TreeItem {
+    if (node.kind === 'detail') {
+      const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+      item.description = node.value;
+      item.tooltip = `${node.label}: ${node.value}`;
+      return item;
+    }
+
+    const entry = node.entry;
+    const exists = fs.existsSync(entry.outputPath);
+    const item = new vscode.TreeItem(path.basename(entry.outputPath), vscode.TreeItemCollapsibleState.Collapsed);
+    item.id = entry.id;
+    item.description = `${entry.sizeMB.toFixed(2)}MB · ${new Date(entry.createdAt).toLocaleString()}${exists ? '' : ' · deleted'}`;
+    item.tooltip = new vscode.MarkdownString(
+      `**${getFormatInfo(entry.options).label}** from \`${path.basename(entry.inputPath)}\`\n\n` +
+      `${entry.sizeMB.toFixed(2)}MB · ${entry.duration.toFixed(1)}s · ${entry.options.fps} fps · ${entry.options.resolution}`
+    );
+    item.iconPath = new vscode.ThemeIcon(exists ? 'file-media' : 'circle-slash');
+    // Lets package.json menus hide file actions once the output is gone
+    item.contextValue = exists ? 'conversion' : 'conversionMissing';
+    if (exists) {
+      item.command = { command: 'magicvid2gif.history.open', title: 'Open', arguments: [node] };
+    }
+    return item;
+  }
+}
@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import { describeJob, Job, JobQueue } from '../jobQueue';
+
+/**
+ * Status bar entry with the number of running and queued conversions; hidden when idle
+ */
+export class JobStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private readonly unsubscribe: () => void;
+
+  constructor(queue: JobQueue, command: string) {
+    this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    this.item.command = command;
+    this.unsubscribe = queue.onDidChange(jobs => this.update(jobs));
+  }
+
+  public dispose(): void {
+    this.unsubscribe();
+    this.item.dispose();
+  }
+
+  private update(jobs: Job[]): void {
+    const running = jobs.filter(job => job.state === 'running' || job.state === 'optimizing');
+    const queued = jobs.filter(job => job.state === 'queued');
+    if (running.length + queued.length === 0) {
+      this.item.hide();
+      return;
+    }
+
+    const percent = running.reduce((sum, job) => sum + job.percent, 0) / Math.max(1, running.length);
+    this.item.text = `$(sync~spin) ${running.length} converting${queued.length > 0 ? ` · ${queued.length} queued` : ''} · ${Math.round(percent)}%`;
+    this.item.tooltip = `${[...running, ...queued].map(job => `${job.label}: ${describeJob(job)}`).join('\n')}\n\nClick to manage conversions`;
+    this.item.show();
+  }
+}
@@ -0,0 +1,87 @@
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { formatMB } from '../conversionPipeline';
+import { formatBitRate, formatDuration, getConversionWarnings, ProbeData } from '../mediaInfo';
+import { isAnamorphic } from '../sourceCorrection';
+import { VideoMetadata } from '../types';
+
+/**
+ * Read-only panel with the ffprobe summary, GIF conversion warnings and the raw probe data
+ */
+export class MediaInfoPanel {
+  public static show(videoPath: string, metadata: VideoMetadata, probe: ProbeData, fileSize: number): void {
+    const panel = vscode.window.createWebviewPanel(
+      'magicvid2gif.mediaInfo',
+      `Info ${path.basename(videoPath)}`,
+      vscode.ViewColumn.Beside,
+      { enableScripts: false }
+    );
+    panel.webview.html = MediaInfoPanel.renderHtml(videoPath, metadata, probe, fileSize);
+  }
+
+  private static renderHtml(videoPath: string, metadata: VideoMetadata, probe: ProbeData, fileSize: number): string {
+    const csp = "default-src 'none'; style-src 'unsafe-inline';";
+    const warnings = getConversionWarnings(metadata);
+    const audio = metadata.audioStreams ?? [];
+
+    const rows: [string, string][] = [
+      ['File', `${path.basename(videoPath)} (${formatMB(fileSize)})`],
+      ['Container', metadata.container ?? 'unknown'],
+      ['Duration', formatDuration(metadata.duration)],
+      ['Video codec', metadata.codec ?? 'unknown'],
+      ['Resolution', `${metadata.width}x${metadata.height}${metadata.codedWidth !== metadata.width || metadata.codedHeight !== metadata.height ? ` (stored ${metadata.codedWidth}x${metadata.codedHeight})` : ''}`],
+      ['Aspect ratio', `${metadata.displayAspectRatio ?? 'unknown'}${isAnamorphic(metadata) ? ` (SAR ${metadata.sampleAspectRatio?.toFixed(3)})` : ''}`],
+      ['Rotation', metadata.rotation ? `${metadata.rotation}°` : 'none'],
+      ['Frame rate', `${metadata.fps.toFixed(3).replace(/\.?0+$/, '')} fps${metadata.variableFrameRate ? ' (variable)' : ''}`],
+      ['Frames', metadata.frameCount !== undefined ? String(metadata.frameCount) : 'unknown'],
+      ['Bit rate', formatBitRate(metadata.bitRate)],
+      ['Pixel format', metadata.pixelFormat ?? 'unknown'],
+      ['Color', [metadata.colorSpace, metadata.colorPrimaries, metadata.colorTransfer].filter(Boolean).join(' / ') || 'unspecified'],
+      ['HDR', metadata.hdr ? 'yes' : 'no'],
+      ['Audio', audio.length === 0
+        ? 'none'
+        : audio.map(stream => `${stream.codec} ${stream.channels}ch ${stream.sampleRate} Hz${stream.language ? ` (${stream.language})` : ''}`).join(', ')]
+    ];
+
+    const warningItems = warnings.length === 0
+      ? '<p class="ok">No issues for GIF conversion.</p>'
+      : `<ul>${warnings.map(warning => `<li class="${warning.severity}">${escapeHtml(warning.message)}</li>`).join('')}</ul>`;
+
+    const sections = [
+      { title: 'Format', data: probe.format },
+      ...probe.streams.map(stream => ({ title: `Stream #${stream.index} (${stream.codec_type})`, data: stream }))
+    ];
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 12px; }
+    table { border-collapse: collapse; margin-bottom: 16px; }
+    th { text-align: left; padding-right: 24px; font-weight: normal; opacity: 0.8; vertical-align: top; }
+    td { font-variant-numeric: tabular-nums; padding-right: 24px; }
+    li.warning { color: var(--vscode-editorWarning-foreground); }
+    li.info, p.ok { opacity: 0.8; }
+    pre { background: var(--vscode-textCodeBlock-background); padding: 8px; overflow-x: auto; }
+    summary { cursor: pointer; margin: 6px 0; }
+  </style>
+</head>
+<body>
+  <h2>${escapeHtml(path.basename(videoPath))}</h2>
+  <table>
+    ${rows.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('\n    ')}
+  </table>
+  <h3>GIF conversion</h3>
+  ${warningItems}
+  <h3>ffprobe data</h3>
+  ${sections.map(section => `<details><summary>${escapeHtml(section.title)}</summary><pre>${escapeHtml(JSON.stringify(section.data, null, 2))}</pre></details>`).join('\n  ')}
+</body>
+</html>`;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,84 @@
+import * as crypto from 'node:crypto';
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { formatMB } from '../conversionPipeline';
+import { getFormatInfo } from '../outputFormats';
+import { PreviewResult } from '../previewService';
+import { ConversionOptions } from '../types';
+
+export type PreviewDecision = 'accept' | 'tweak' | 'cancel';
+
+/**
+ * Shows a rendered preview next to the projected full-size result and waits for a decision
+ */
+export class PreviewPanel {
+  public static show(preview: PreviewResult, options: ConversionOptions, videoPath: string): Promise<PreviewDecision> {
+    const panel = vscode.window.createWebviewPanel(
+      'magicvid2gif.preview',
+      `Preview ${path.basename(videoPath)}`,
+      vscode.ViewColumn.Beside,
+      {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.file(path.dirname(preview.previewPath))]
+      }
+    );
+
+    const src = panel.webview.asWebviewUri(vscode.Uri.file(preview.previewPath)).toString();
+    panel.webview.html = PreviewPanel.renderHtml(panel.webview, src, preview, options);
+
+    return new Promise<PreviewDecision>((resolve) => {
+      let settled = false;
+      const finish = (decision: PreviewDecision) => {
+        if (settled) {return;}
+        settled = true;
+        resolve(decision);
+        panel.dispose();
+      };
+
+      panel.webview.onDidReceiveMessage((message: { type: PreviewDecision }) => finish(message.type));
+      panel.onDidDispose(() => finish('cancel'));
+    });
+  }
+
+  private static renderHtml(webview: vscode.Webview, src: string, preview: PreviewResult, options: ConversionOptions): string {
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const csp = `default-src 'none'; img-src ${webview.cspSource}; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+    const format = getFormatInfo(options).label;
+    const previewOpts = preview.previewOptions;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 12px; }
+    img { display: block; max-width: 100%; margin-bottom: 12px; image-rendering: auto; }
+    table { border-collapse: collapse; margin-bottom: 16px; }
+    th { text-align: left; padding-right: 24px; font-weight: normal; opacity: 0.8; }
+    td { font-variant-numeric: tabular-nums; padding-right: 24px; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; cursor: pointer; margin-right: 6px; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+  </style>
+</head>
+<body>
+  <img src="${src}" alt="${format} preview">
+  <table>
+    <tr><th></th><th>Preview</th><th>Full conversion (projected)</th></tr>
+    <tr><th>Resolution</th><td>${previewOpts.resolution.replace(':-2', ' wide')}</td><td>${preview.fullWidth}×${preview.fullHeight}</td></tr>
+    <tr><th>Frames</th><td>${preview.frames} @ ${previewOpts.fps} fps</td><td>${preview.fullFrames} @ ${options.fps} fps</td></tr>
+    <tr><th>Size</th><td>${formatMB(preview.previewSize)}</td><td>~${formatMB(preview.estimatedFullSize)}</td></tr>
+  </table>
+  <button data-decision="accept">Convert full video</button>
+  <button data-decision="tweak" class="secondary">Tweak settings</button>
+  <button data-decision="cancel" class="secondary">Cancel</button>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button').forEach((button) => {
+      button.addEventListener('click', () => vscode.postMessage({ type: button.dataset.decision }));
+    });
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,240 @@
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+import { VideoMetadata } from '../types';
+import { VideoConverter } from '../videoConverter';
+
+export interface TrimRange {
+  startTime: number;
+  /** 0 = until the end */
+  duration: number;
+}
+
+const THUMBNAIL_COUNT = 12;
+const THUMBNAIL_WIDTH = 160;
+const PREVIEW_WIDTH = 640;
+
+type TrimmerMessage =
+  | { type: 'preview'; time: number }
+  | { type: 'confirm'; start: number; end: number }
+  | { type: 'cancel' };
+
+/**
+ * Webview that lets the user pick the in/out points of a video on a thumbnail strip
+ */
+export class TrimmerPanel {
+  private readonly panel: vscode.WebviewPanel;
+  private readonly converter: VideoConverter;
+  private readonly videoPath: string;
+  private readonly metadata: VideoMetadata;
+  private readonly workDir: string;
+  private previewCounter = 0;
+
+  private constructor(converter: VideoConverter, videoPath: string, metadata: VideoMetadata, tmpRoot: string) {
+    this.converter = converter;
+    this.videoPath = videoPath;
+    this.metadata = metadata;
+    this.workDir = fs.mkdtempSync(path.join(tmpRoot, 'magicvid2gif-trimmer-'));
+    this.panel = vscode.window.createWebviewPanel(
+      'magicvid2gif.trimmer',
+      `Trim ${path.basename(videoPath)}`,
+      vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        localResourceRoots: [vscode.Uri.file(this.workDir)]
+      }
+    );
+  }
+
+  /**
+   * Opens the trimmer and resolves with the selected range, or null if the panel is closed
+   */
+  public static async show(
+    converter: VideoConverter,
+    videoPath: string,
+    metadata: VideoMetadata,
+    tmpRoot: string
+  ): Promise<TrimRange | null> {
+    const trimmer = new TrimmerPanel(converter, videoPath, metadata, tmpRoot);
+    try {
+      return await trimmer.run();
+    } finally {
+      fs.rmSync(trimmer.workDir, { recursive: true, force: true });
+    }
+  }
+
+  private async run(): Promise<TrimRange | null> {
+    const webview = this.panel.webview;
+    webview.html = this.renderLoading();
+
+    return new Promise<TrimRange | null>((resolve, reject) => {
+      let settled = false;
+      let subscription: vscode.Disposable | undefined;
+      const finish = (range: TrimRange | null) => {
+        if (settled) {return;}
+        settled = true;
+        subscription?.dispose();
+        resolve(range);
+        this.panel.dispose();
+      };
+
+      // Registered before the extraction: closing the panel meanwhile is a plain cancel
+      this.panel.onDidDispose(() => finish(null));
+
+      vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Extracting thumbnails...' },
+        () => this.converter.extractThumbnails(this.videoPath, this.metadata.duration, THUMBNAIL_COUNT, this.workDir, THUMBNAIL_WIDTH)
+      ).then((thumbnails) => {
+        // The webview is gone once the panel is disposed
+        if (settled) {return;}
+        webview.html = this.renderHtml(thumbnails.map(t => ({ time: t.time, src: webview.asWebviewUri(vscode.Uri.file(t.path)).toString() })));
+
+        subscription = webview.onDidReceiveMessage(async (message: TrimmerMessage) => {
+          if (message.type === 'preview') {
+            await this.sendPreview(message.time);
+          } else if (message.type === 'confirm') {
+            const startTime = Math.max(0, message.start);
+            const end = Math.min(this.metadata.duration, message.end);
+            // Selecting up to the very end keeps the "until the end" semantics
+            const duration = end >= this.metadata.duration - 0.05 ? 0 : Math.max(0.1, end - startTime);
+            finish({ startTime: round(startTime), duration: round(duration) });
+          } else if (message.type === 'cancel') {
+            finish(null);
+          }
+        });
+      }, (error: unknown) => {
+        // After a cancel the work folder is deleted under the extraction, which then fails
+        if (settled) {return;}
+        settled = true;
+        reject(error);
+        this.panel.dispose();
+      });
+    });
+  }
+
+  private async sendPreview(time: number): Promise<void> {
+    // A new file per request so the webview never shows a cached frame
+    const framePath = path.join(this.workDir, `frame_${this.previewCounter++}.jpg`);
+    try {
+      await this.converter.extractFrame(this.videoPath, time, framePath, PREVIEW_WIDTH);
+      const src = this.panel.webview.asWebviewUri(vscode.Uri.file(framePath)).toString();
+      await this.panel.webview.postMessage({ type: 'frame', time, src });
+    } catch {
+      // Preview is best-effort: the panel may have been closed meanwhile
+    }
+  }
+
+  private renderLoading(): string {
+    return '<!DOCTYPE html><html><body><p>Extracting thumbnails...</p></body></html>';
+  }
+
+  private renderHtml(thumbnails: { time: number; src: string }[]): string {
+    const nonce = crypto.randomBytes(16).toString('base64');
+    const csp = `default-src 'none'; img-src ${this.panel.webview.cspSource}; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+    const thumbs = thumbnails.map(t => `<img src="${t.src}" alt="${t.time.toFixed(1)}s">`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${csp}">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 12px; }
+    #preview { display: block; max-width: 100%; max-height: 50vh; margin: 0 auto 12px; background: #000; }
+    #timeline { position: relative; display: flex; height: 72px; user-select: none; cursor: pointer; }
+    #timeline img { flex: 1; min-width: 0; height: 100%; object-fit: cover; pointer-events: none; }
+    .shade { position: absolute; top: 0; bottom: 0; background: rgba(0, 0, 0, 0.6); pointer-events: none; }
+    .handle { position: absolute; top: -4px; bottom: -4px; width: 8px; margin-left: -4px; background: var(--vscode-button-background); cursor: ew-resize; border-radius: 2px; }
+    #cursor { position: absolute; top: 0; bottom: 0; width: 2px; margin-left: -1px; background: var(--vscode-editorCursor-foreground, #fff); pointer-events: none; }
+    .info { display: flex; gap: 24px; margin: 12px 0; font-variant-numeric: tabular-nums; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+  </style>
+</head>
+<body>
+  <img id="preview" alt="Frame preview">
+  <div id="timeline">
+    ${thumbs}
+    <div class="shade" id="shadeLeft" style="left: 0"></div>
+    <div class="shade" id="shadeRight" style="right: 0"></div>
+    <div id="cursor"></div>
+    <div class="handle" id="inHandle" title="In point"></div>
+    <div class="handle" id="outHandle" title="Out point"></div>
+  </div>
+  <div class="info">
+    <span>In: <strong id="inLabel"></strong></span>
+    <span>Out: <strong id="outLabel"></strong></span>
+    <span>Duration: <strong id="durationLabel"></strong></span>
+    <span>Cursor: <strong id="cursorLabel"></strong></span>
+  </div>
+  <button id="confirm">Continue with this range</button>
+  <button id="cancel" class="secondary">Cancel</button>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const total = ${this.metadata.duration};
+    const state = { start: 0, end: total, cursor: 0 };
+    const timeline = document.getElementById('timeline');
+    const preview = document.getElementById('preview');
+    let pending;
+    let dragging = null;
+
+    const fmt = (t) => t.toFixed(2) + 's';
+    const timeAt = (clientX) => {
+      const rect = timeline.getBoundingClientRect();
+      return Math.min(total, Math.max(0, ((clientX - rect.left) / rect.width) * total));
+    };
+    const pct = (t) => (total > 0 ? (t / total) * 100 : 0) + '%';
+
+    function render() {
+      document.getElementById('inHandle').style.left = pct(state.start);
+      document.getElementById('outHandle').style.left = pct(state.end);
+      document.getElementById('cursor').style.left = pct(state.cursor);
+      document.getElementById('shadeLeft').style.width = pct(state.start);
+      document.getElementById('shadeRight').style.width = pct(total - state.end);
+      document.getElementById('inLabel').textContent = fmt(state.start);
+      document.getElementById('outLabel').textContent = fmt(state.end);
+      document.getElementById('durationLabel').textContent = fmt(state.end - state.start);
+      document.getElementById('cursorLabel').textContent = fmt(state.cursor);
+    }
+
+    function requestPreview(time) {
+      state.cursor = time;
+      render();
+      clearTimeout(pending);
+      pending = setTimeout(() => vscode.postMessage({ type: 'preview', time }), 120);
+    }
+
+    document.getElementById('inHandle').addEventListener('pointerdown', (e) => { dragging = 'start'; e.stopPropagation(); });
+    document.getElementById('outHandle').addEventListener('pointerdown', (e) => { dragging = 'end'; e.stopPropagation(); });
+    timeline.addEventListener('pointerdown', (e) => { dragging = 'cursor'; requestPreview(timeAt(e.clientX)); });
+    window.addEventListener('pointerup', () => { dragging = null; });
+    window.addEventListener('pointermove', (e) => {
+      if (!dragging) { return; }
+      const t = timeAt(e.clientX);
+      if (dragging === 'start') { state.start = Math.min(t, state.end - 0.1); requestPreview(state.start); }
+      else if (dragging === 'end') { state.end = Math.max(t, state.start + 0.1); requestPreview(state.end); }
+      else { requestPreview(t); }
+    });
+
+    window.addEventListener('message', (event) => {
+      const message = event.data;
+      if (message.type === 'frame' && Math.abs(message.time - state.cursor) < 0.001) {
+        preview.src = message.src;
+      }
+    });
+
+    document.getElementById('confirm').addEventListener('click', () => vscode.postMessage({ type: 'confirm', start: state.start, end: state.end }));
+    document.getElementById('cancel').addEventListener('click', () => vscode.postMessage({ type: 'cancel' }));
+
+    render();
+    requestPreview(0);
+  </script>
+</body>
+</html>`;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}